@@ -6,8 +6,94 @@ chrome.runtime.onInstalled.addListener((details) => {
       url: chrome.runtime.getURL('index.html')
     });
   }
+  if (details.reason === 'update') {
+    migrateConnectedDApps().catch(error => console.error('Failed to migrate dApp connections:', error));
+  }
 });
 
+// EIP-1193 style error codes, mirrored in provider.js
+const RPC_ERRORS = {
+  USER_REJECTED: 4001,
+  UNAUTHORIZED: 4100,
+  UNSUPPORTED_METHOD: 4200,
+  DISCONNECTED: 4900,
+  INVALID_PARAMS: -32602,
+  INTERNAL: -32603
+};
+
+// Matches the chainId and networkId provider.js reports
+const NETWORK_INFO = {
+  chainId: '0x1',
+  networkId: 'octra-mainnet'
+};
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// dApp permission catalogue, mirrored from src/utils/dappPermissions.ts
+const DAPP_PERMISSIONS = [
+  'view_address',
+  'view_balance',
+  'sign_message',
+  'send_transaction',
+  'contract_view',
+  'contract_call',
+  'private_transfer'
+];
+// Every connection exposes the address
+const REQUIRED_PERMISSIONS = ['view_address'];
+// Older dApps asked for this before the catalogue existed
+const LEGACY_PERMISSIONS = {
+  call_methods: ['contract_view', 'contract_call']
+};
+// Stored with every connection, mirrored in src/utils/dappPermissions.ts.
+// Connections saved before permissions were enforced have none
+const PERMISSIONS_VERSION = 1;
+// What a connection saved before permissions were enforced keeps, plus what
+// its legacy permissions map to. Anything else is asked for on first use
+const LEGACY_BASE_PERMISSIONS = ['view_address', 'view_balance'];
+
+// Known permissions only, in catalogue order, always including the required ones
+function normalizePermissions(requested) {
+  const wanted = new Set(REQUIRED_PERMISSIONS);
+  for (const name of Array.isArray(requested) ? requested : []) {
+    if (DAPP_PERMISSIONS.includes(name)) {
+      wanted.add(name);
+    } else if (Object.prototype.hasOwnProperty.call(LEGACY_PERMISSIONS, name)) {
+      LEGACY_PERMISSIONS[name].forEach(permission => wanted.add(permission));
+    }
+  }
+  return DAPP_PERMISSIONS.filter(permission => wanted.has(permission));
+}
+
+// Approval pages report failures (e.g. a reverted contract call) with an error
+// message; no message, or a rejection message, means the user declined
+function rejectionCode(error) {
+  return !error || /reject|closed/i.test(error) ? RPC_ERRORS.USER_REJECTED : RPC_ERRORS.INTERNAL;
+}
+
+// The requesting frame's origin, as Chrome reports it. Pages choose what goes
+// in message data, so a claimed origin there is never used
+function getSenderOrigin(sender) {
+  if (sender.id !== chrome.runtime.id || !sender.tab) return null;
+
+  const candidates = [sender.origin, sender.url, sender.tab.url];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const origin = new URL(candidate).origin;
+      if (origin && origin !== 'null') return origin;
+    } catch {
+      // Not a URL, try the next one
+    }
+  }
+  return null;
+}
+
 // Handle messages between popup and expanded views, plus dApp communication
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Handle existing message types
@@ -19,16 +105,36 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       url: chrome.runtime.getURL('index.html')
     });
     return true;
+  } else if (message.type === 'WALLET_ACTIVITY') {
+    scheduleAutoLock();
+    return false;
   }
 
   // Handle dApp communication requests
   if (message.source === 'octra-content-script') {
-    handleDAppRequest(message, sender)
+    const origin = getSenderOrigin(sender);
+    if (!origin) {
+      sendResponse({
+        type: 'ERROR_RESPONSE',
+        success: false,
+        error: 'Request did not come from a web page',
+        code: RPC_ERRORS.UNAUTHORIZED
+      });
+      return false;
+    }
+
+    const data = message.data && typeof message.data === 'object' ? message.data : {};
+    if (data.origin && data.origin !== origin) {
+      console.warn(`Ignoring claimed origin ${data.origin} from ${origin}`);
+    }
+
+    handleDAppRequest({ ...message, data: { ...data, origin } }, sender)
       .then(response => sendResponse(response))
       .catch(error => sendResponse({
         type: 'ERROR_RESPONSE',
         success: false,
-        error: error.message || 'Unknown error'
+        error: error.message || 'Unknown error',
+        code: error.code || RPC_ERRORS.INTERNAL
       }));
     return true; // Indicates async response
   }
@@ -42,6 +148,10 @@ async function handleDAppRequest(message, sender) {
   
   try {
     switch (type) {
+      case 'RPC_REQUEST':
+        return await handleRpcRequest(data, sender);
+        
+      // Per-method message types, still sent by pages that loaded an older provider
       case 'CONNECTION_REQUEST':
         return await handleConnectionRequest(data, sender);
         
@@ -57,11 +167,14 @@ async function handleDAppRequest(message, sender) {
       case 'SIGN_MESSAGE':
         return await handleSignMessageRequest(data, sender);
         
+      case 'SIGN_TYPED_DATA':
+        return await handleSignTypedDataRequest(data, sender);
+        
       case 'DISCONNECT_REQUEST':
         return await handleDisconnectRequest(data, sender);
         
       default:
-        throw new Error(`Unknown request type: ${type}`);
+        throw new RpcError(RPC_ERRORS.UNSUPPORTED_METHOD, `Unknown request type: ${type}`);
     }
   } catch (error) {
     console.error('dApp request error:', error);
@@ -69,14 +182,135 @@ async function handleDAppRequest(message, sender) {
   }
 }
 
+function requireParam(params, name) {
+  if (params[name] === undefined || params[name] === null || params[name] === '') {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `Missing required param: ${name}`);
+  }
+  return params[name];
+}
+
+function toContractRequestData(params, methodType) {
+  const contractAddress = requireParam(params, 'contractAddress');
+  const methodName = requireParam(params, 'methodName');
+  return {
+    contractAddress,
+    methodName,
+    methodType,
+    params: Array.isArray(params.params) ? params.params : [],
+    gasLimit: params.gasLimit,
+    gasPrice: params.gasPrice,
+    value: params.value,
+    description: params.description || `${methodType === 'view' ? 'Call view' : 'Execute transaction'} method ${methodName} on contract ${contractAddress}`
+  };
+}
+
+// Methods available through window.octra.request({ method, params }). Each one
+// maps its params onto the data the per-method handler below expects
+const RPC_METHODS = {
+  octra_connect: {
+    handler: handleConnectionRequest,
+    toData: (params) => ({ permissions: Array.isArray(params.permissions) ? params.permissions : ['view_address', 'view_balance'] })
+  },
+  octra_disconnect: {
+    handler: handleDisconnectRequest,
+    toData: () => ({})
+  },
+  octra_getBalance: {
+    handler: handleBalanceRequest,
+    toData: (params) => ({ address: requireParam(params, 'address') })
+  },
+  octra_sendTransaction: {
+    handler: handleTransactionRequest,
+    toData: (params) => ({
+      to: requireParam(params, 'to'),
+      amount: requireParam(params, 'amount').toString(),
+      message: params.message || ''
+    })
+  },
+  octra_signMessage: {
+    handler: handleSignMessageRequest,
+    toData: (params) => ({ message: params.message })
+  },
+  octra_signTypedData: {
+    handler: handleSignTypedDataRequest,
+    toData: (params) => ({ typedData: params.typedData })
+  },
+  octra_callContract: {
+    handler: handleContractRequest,
+    toData: (params) => toContractRequestData(params, 'view')
+  },
+  octra_invokeContract: {
+    handler: handleContractRequest,
+    toData: (params) => toContractRequestData(params, 'call')
+  },
+  octra_privateTransfer: {
+    handler: handlePrivateTransferRequest,
+    toData: (params) => ({
+      to: requireParam(params, 'to'),
+      amount: requireParam(params, 'amount').toString()
+    })
+  }
+};
+
+// Handle a JSON-RPC style request from window.octra.request
+async function handleRpcRequest(data, sender) {
+  const { method, params, origin, appName, appIcon } = data || {};
+  
+  if (!Object.prototype.hasOwnProperty.call(RPC_METHODS, method)) {
+    throw new RpcError(RPC_ERRORS.UNSUPPORTED_METHOD, `Unsupported method: ${method}`);
+  }
+  if (params !== undefined && (params === null || typeof params !== 'object' || Array.isArray(params))) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'params must be an object');
+  }
+  
+  const { handler, toData } = RPC_METHODS[method];
+  return await handler({ ...toData(params || {}), origin, appName, appIcon }, sender);
+}
+
+// The origin's connection, provided the user granted it this permission. A
+// connected dApp that lacks it gets the connection prompt again, asking for
+// the missing permission on top of what it already has
+async function requirePermission({ origin, appName, appIcon }, permission) {
+  const connections = await getConnectedDApps();
+  const connection = connections.find(conn => conn.origin === origin);
+  
+  if (!connection) {
+    throw new RpcError(RPC_ERRORS.UNAUTHORIZED, 'dApp not connected');
+  }
+  
+  const granted = normalizePermissions(connection.permissions);
+  if (granted.includes(permission)) {
+    return connection;
+  }
+  
+  console.log(`🔐 ${origin} needs ${permission}, asking the user`);
+  const response = await handleConnectionRequest({
+    origin,
+    appName,
+    appIcon,
+    permissions: [...granted, permission]
+  });
+  
+  if (!response.success) {
+    throw new RpcError(response.code || RPC_ERRORS.USER_REJECTED, response.error || 'User rejected request');
+  }
+  if (!response.result.permissions.includes(permission)) {
+    console.warn(`🚫 ${origin} was not granted ${permission}`);
+    throw new RpcError(RPC_ERRORS.UNAUTHORIZED, `Permission not granted: ${permission}`);
+  }
+  return { ...connection, selectedAddress: response.result.address, permissions: response.result.permissions };
+}
+
 // Handle connection request
 async function handleConnectionRequest(data, sender) {
-  const { origin, appName, appIcon, permissions } = data;
+  const { origin, appName, appIcon } = data;
+  const requestedPermissions = normalizePermissions(data.permissions);
   
   // Check if already connected
-  const connectionsData = await getStorageData('connectedDApps');
-  const connections = Array.isArray(connectionsData) ? connectionsData : [];
+  const connections = await getConnectedDApps();
   const existingConnection = connections.find(conn => conn.origin === origin);
+  // Lets the prompt mark what a connected dApp is asking for on top
+  const grantedPermissions = existingConnection ? normalizePermissions(existingConnection.permissions) : undefined;
   
   // FIXED: Always show connection approval to allow wallet selection
   // Remove automatic return of existing connection
@@ -87,7 +321,8 @@ async function handleConnectionRequest(data, sender) {
     origin,
     appName: appName || origin,
     appIcon: appIcon || null,
-    permissions,
+    permissions: requestedPermissions,
+    grantedPermissions,
     timestamp: Date.now(),
     existingConnection: existingConnection // Pass existing connection info to UI
   });
@@ -98,7 +333,7 @@ async function handleConnectionRequest(data, sender) {
   } catch (error) {
     // If popup fails (e.g., user interaction required), fall back to tab
     console.log('Popup failed, opening tab:', error);
-    const connectionUrl = chrome.runtime.getURL(`index.html?action=connect&origin=${encodeURIComponent(origin)}&appName=${encodeURIComponent(appName || '')}&appIcon=${encodeURIComponent(appIcon || '')}&permissions=${encodeURIComponent(JSON.stringify(permissions))}`);
+    const connectionUrl = chrome.runtime.getURL(`index.html?action=connect&origin=${encodeURIComponent(origin)}&appName=${encodeURIComponent(appName || '')}&appIcon=${encodeURIComponent(appIcon || '')}&permissions=${encodeURIComponent(JSON.stringify(requestedPermissions))}${grantedPermissions ? `&granted=${encodeURIComponent(JSON.stringify(grantedPermissions))}` : ''}`);
     
     await chrome.tabs.create({
       url: connectionUrl,
@@ -112,17 +347,22 @@ async function handleConnectionRequest(data, sender) {
       if (msg.type === 'CONNECTION_RESULT' && msg.origin === origin) {
         chrome.runtime.onMessage.removeListener(messageListener);
         
+        // The user may switch off some of what was asked for, never add to it
+        const permissions = Array.isArray(msg.permissions)
+          ? normalizePermissions(msg.permissions).filter(permission => requestedPermissions.includes(permission))
+          : requestedPermissions;
+        
         if (msg.approved) {
           // FIXED: Store/update connection with the user-selected address
           const newConnection = {
             origin,
             selectedAddress: msg.address, // Use the user-selected wallet address
             permissions,
+            permissionsVersion: PERMISSIONS_VERSION,
             connectedAt: Date.now()
           };
           
-          getStorageData('connectedDApps').then(connectionsData => {
-            const connections = Array.isArray(connectionsData) ? connectionsData : [];
+          getConnectedDApps().then(connections => {
             // Remove existing connection for this origin first
             const filteredConnections = connections.filter(conn => conn.origin !== origin);
             // Add the new/updated connection with selected address
@@ -136,7 +376,8 @@ async function handleConnectionRequest(data, sender) {
           type: 'CONNECTION_RESPONSE',
           success: msg.approved,
           result: msg.approved ? { address: msg.address, permissions } : null,
-          error: msg.approved ? null : 'User rejected request'
+          error: msg.approved ? null : 'User rejected request',
+          code: msg.approved ? undefined : RPC_ERRORS.USER_REJECTED
         });
       }
     };
@@ -150,7 +391,8 @@ async function handleConnectionRequest(data, sender) {
       resolve({
         type: 'CONNECTION_RESPONSE',
         success: false,
-        error: 'Connection request timeout'
+        error: 'Connection request timeout',
+        code: RPC_ERRORS.USER_REJECTED
       });
     }, 60000);
   });
@@ -161,13 +403,7 @@ async function handleTransactionRequest(data, sender) {
   const { origin, appName, appIcon, to, amount, message } = data;
   
   // Check if dApp is connected
-  const connectionsData = await getStorageData('connectedDApps');
-  const connections = Array.isArray(connectionsData) ? connectionsData : [];
-  const connection = connections.find(conn => conn.origin === origin);
-  
-  if (!connection) {
-    throw new Error('dApp not connected');
-  }
+  const connection = await requirePermission(data, 'send_transaction');
   
   // Open transaction approval popup
   const approvalUrl = chrome.runtime.getURL(`index.html?action=transaction&origin=${encodeURIComponent(origin)}&appName=${encodeURIComponent(appName || '')}&appIcon=${encodeURIComponent(appIcon || '')}&to=${encodeURIComponent(to)}&amount=${encodeURIComponent(amount)}&message=${encodeURIComponent(message || '')}&connectedAddress=${encodeURIComponent(connection.selectedAddress)}`);
@@ -186,7 +422,8 @@ async function handleTransactionRequest(data, sender) {
           type: 'TRANSACTION_RESPONSE',
           success: msg.approved,
           result: msg.approved ? { hash: msg.txHash } : null,
-          error: msg.approved ? null : (msg.error || 'User rejected request')
+          error: msg.approved ? null : (msg.error || 'User rejected request'),
+          code: msg.approved ? undefined : rejectionCode(msg.error)
         });
       }
     };
@@ -201,13 +438,60 @@ async function handleTransactionRequest(data, sender) {
         resolve({
           type: 'TRANSACTION_RESPONSE',
           success: false,
-          error: 'User closed popup'
+          error: 'User closed popup',
+          code: RPC_ERRORS.USER_REJECTED
         });
       }
     });
   });
 }
 
+// Handle private transfer request, paid from the encrypted balance
+async function handlePrivateTransferRequest(data, sender) {
+  const { origin, appName, appIcon, to, amount } = data;
+  
+  const connection = await requirePermission(data, 'private_transfer');
+  
+  const approvalUrl = chrome.runtime.getURL(`index.html?action=private_transfer&origin=${encodeURIComponent(origin)}&appName=${encodeURIComponent(appName || '')}&appIcon=${encodeURIComponent(appIcon || '')}&to=${encodeURIComponent(to)}&amount=${encodeURIComponent(amount)}&connectedAddress=${encodeURIComponent(connection.selectedAddress)}`);
+  
+  const tab = await chrome.tabs.create({
+    url: approvalUrl,
+    active: true
+  });
+  
+  return new Promise((resolve) => {
+    const messageListener = (msg) => {
+      if (msg.type === 'PRIVATE_TRANSFER_RESULT' && msg.origin === origin) {
+        chrome.runtime.onMessage.removeListener(messageListener);
+        chrome.tabs.onRemoved.removeListener(tabRemovedListener);
+        resolve({
+          type: 'PRIVATE_TRANSFER_RESPONSE',
+          success: msg.approved,
+          result: msg.approved ? { hash: msg.txHash } : null,
+          error: msg.approved ? null : (msg.error || 'User rejected request'),
+          code: msg.approved ? undefined : rejectionCode(msg.error)
+        });
+      }
+    };
+    
+    const tabRemovedListener = (tabId) => {
+      if (tabId === tab.id) {
+        chrome.tabs.onRemoved.removeListener(tabRemovedListener);
+        chrome.runtime.onMessage.removeListener(messageListener);
+        resolve({
+          type: 'PRIVATE_TRANSFER_RESPONSE',
+          success: false,
+          error: 'User closed popup',
+          code: RPC_ERRORS.USER_REJECTED
+        });
+      }
+    };
+    
+    chrome.runtime.onMessage.addListener(messageListener);
+    chrome.tabs.onRemoved.addListener(tabRemovedListener);
+  });
+}
+
 // Handle contract request
 async function handleContractRequest(data, sender) {
   const { 
@@ -225,13 +509,7 @@ async function handleContractRequest(data, sender) {
   } = data;
   
   // Check if dApp is connected
-  const connectionsData = await getStorageData('connectedDApps');
-  const connections = Array.isArray(connectionsData) ? connectionsData : [];
-  const connection = connections.find(conn => conn.origin === origin);
-  
-  if (!connection) {
-    throw new Error('dApp not connected');
-  }
+  const connection = await requirePermission(data, methodType === 'view' ? 'contract_view' : 'contract_call');
   
   // Store contract request data for popup to access
   await setStorageData('pendingContractRequest', {
@@ -293,7 +571,8 @@ async function handleContractRequest(data, sender) {
           type: 'CONTRACT_RESPONSE',
           success: msg.approved,
           result: msg.approved ? msg.result : null,
-          error: msg.approved ? null : (msg.error || 'User rejected contract call')
+          error: msg.approved ? null : (msg.error || 'User rejected contract call'),
+          code: msg.approved ? undefined : rejectionCode(msg.error)
         });
       }
     };
@@ -307,7 +586,8 @@ async function handleContractRequest(data, sender) {
       resolve({
         type: 'CONTRACT_RESPONSE',
         success: false,
-        error: 'Contract call request timeout'
+        error: 'Contract call request timeout',
+        code: RPC_ERRORS.USER_REJECTED
       });
     }, 300000); // 5 minutes
   });
@@ -317,6 +597,8 @@ async function handleContractRequest(data, sender) {
 async function handleBalanceRequest(data, sender) {
   const { address } = data;
   
+  await requirePermission(data, 'view_balance');
+  
   try {
     // This would typically call your API
     // For now, return a placeholder response
@@ -335,19 +617,105 @@ async function handleBalanceRequest(data, sender) {
 
 // Handle sign message request
 async function handleSignMessageRequest(data, sender) {
-  const { message, origin } = data;
+  const { message, origin, appName, appIcon } = data;
   
+  if (typeof message !== 'string' || message.length === 0) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid sign request: message must be a non-empty string');
+  }
+  
+  return await requestSignatureApproval({ origin, appName, appIcon, message });
+}
+
+// Handle structured (typed) data sign request
+async function handleSignTypedDataRequest(data, sender) {
+  const { typedData, origin, appName, appIcon } = data;
+  
+  if (!typedData || typeof typedData !== 'object' || !typedData.domain || !Array.isArray(typedData.types) || !typedData.message) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid sign request: typedData must include domain, types and message');
+  }
+  
+  // Domain separation: a site may only request signatures bound to its own origin
+  if (typedData.domain.origin !== origin) {
+    throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'Typed data domain origin does not match the requesting origin');
+  }
+  
+  return await requestSignatureApproval({ origin, appName, appIcon, typedData });
+}
+
+// Shared approval flow for message and typed data signing
+async function requestSignatureApproval({ origin, appName, appIcon, message, typedData }) {
   // Check if dApp is connected
-  const connectionsData = await getStorageData('connectedDApps');
-  const connections = Array.isArray(connectionsData) ? connectionsData : [];
-  const connection = connections.find(conn => conn.origin === origin);
+  const connection = await requirePermission({ origin, appName, appIcon }, 'sign_message');
   
-  if (!connection) {
-    throw new Error('dApp not connected');
+  // Store sign request data for popup to access
+  await setStorageData('pendingSignRequest', {
+    origin,
+    appName: appName || origin,
+    appIcon: appIcon || null,
+    message: message || '',
+    typedData,
+    connectedAddress: connection.selectedAddress,
+    timestamp: Date.now()
+  });
+  
+  // Try to open popup first
+  try {
+    await chrome.action.openPopup();
+  } catch (error) {
+    // If popup fails, fall back to tab
+    console.log('Popup failed for sign request, opening tab:', error);
+    const urlParams = new URLSearchParams({
+      action: 'sign',
+      origin: encodeURIComponent(origin),
+      appName: encodeURIComponent(appName || ''),
+      appIcon: encodeURIComponent(appIcon || ''),
+      connectedAddress: encodeURIComponent(connection.selectedAddress)
+    });
+    
+    if (typedData) {
+      urlParams.set('typedData', encodeURIComponent(JSON.stringify(typedData)));
+    } else {
+      urlParams.set('message', encodeURIComponent(message));
+    }
+    
+    const approvalUrl = chrome.runtime.getURL(`index.html?${urlParams.toString()}`);
+    
+    await chrome.tabs.create({
+      url: approvalUrl,
+      active: true
+    });
   }
   
-  // For now, return not implemented
-  throw new Error('Message signing not yet implemented');
+  // Wait for user approval/rejection
+  return new Promise((resolve) => {
+    const messageListener = (msg) => {
+      if (msg.type === 'SIGN_RESULT' && msg.origin === origin) {
+        chrome.runtime.onMessage.removeListener(messageListener);
+        chrome.storage.local.remove('pendingSignRequest');
+        resolve({
+          type: 'SIGN_RESPONSE',
+          success: msg.approved,
+          result: msg.approved ? msg.result : null,
+          error: msg.approved ? null : (msg.error || 'User rejected request'),
+          code: msg.approved ? undefined : rejectionCode(msg.error)
+        });
+      }
+    };
+    
+    chrome.runtime.onMessage.addListener(messageListener);
+    
+    // Cleanup timeout after 60 seconds
+    setTimeout(() => {
+      chrome.runtime.onMessage.removeListener(messageListener);
+      chrome.storage.local.remove('pendingSignRequest');
+      resolve({
+        type: 'SIGN_RESPONSE',
+        success: false,
+        error: 'Sign message request timeout',
+        code: RPC_ERRORS.USER_REJECTED
+      });
+    }, 60000);
+  });
 }
 
 // Handle disconnect request
@@ -355,8 +723,7 @@ async function handleDisconnectRequest(data, sender) {
   const { origin } = data;
   
   try {
-    const connectionsData = await getStorageData('connectedDApps');
-    const connections = Array.isArray(connectionsData) ? connectionsData : [];
+    const connections = await getConnectedDApps();
     const updatedConnections = connections.filter(conn => conn.origin !== origin);
     await setStorageData('connectedDApps', updatedConnections);
     
@@ -371,6 +738,51 @@ async function handleDisconnectRequest(data, sender) {
 }
 
 // Storage helper functions
+
+// The background script stores lists (connectedDApps) as arrays; extension
+// pages save them through ExtensionStorageManager as JSON strings
+function parseStoredList(value) {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+async function getConnectedDApps() {
+  return parseStoredList(await getStorageData('connectedDApps')).map(migrateConnection);
+}
+
+function migrateConnection(connection) {
+  if (connection.permissionsVersion >= PERMISSIONS_VERSION) return connection;
+  const requested = Array.isArray(connection.permissions) ? connection.permissions : [];
+  const legacy = requested.filter(name => Object.prototype.hasOwnProperty.call(LEGACY_PERMISSIONS, name));
+  return {
+    ...connection,
+    permissions: normalizePermissions([...LEGACY_BASE_PERMISSIONS, ...legacy]),
+    permissionsVersion: PERMISSIONS_VERSION
+  };
+}
+
+// Runs once when the extension updates. Pages stamp the version on every
+// connection they save, so later writes never need migrating
+async function migrateConnectedDApps() {
+  const stored = await getStorageData('connectedDApps');
+  const connections = parseStoredList(stored);
+  const legacy = connections.filter(conn => !(conn.permissionsVersion >= PERMISSIONS_VERSION));
+  if (legacy.length === 0) return;
+  
+  console.log(`🔄 Migrating permissions of ${legacy.length} existing dApp connection(s)`);
+  const migrated = connections.map(migrateConnection);
+  // Keep whichever form was stored: pages write JSON strings, this script arrays
+  await setStorageData('connectedDApps', typeof stored === 'string' ? JSON.stringify(migrated) : migrated);
+}
+
 async function getStorageData(key) {
   return new Promise((resolve) => {
     chrome.storage.local.get([key], (result) => {
@@ -387,8 +799,155 @@ async function setStorageData(key, value) {
   });
 }
 
+// Auto-lock: a single alarm is (re)scheduled on unlock, on settings change and
+// whenever an extension page reports user activity
+const AUTO_LOCK_ALARM = 'octra-auto-lock';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+async function getAutoLockMinutes() {
+  const stored = await getStorageData('autoLockMinutes');
+  const minutes = stored !== undefined ? parseInt(stored, 10) : DEFAULT_AUTO_LOCK_MINUTES;
+  return Number.isNaN(minutes) || minutes < 0 ? DEFAULT_AUTO_LOCK_MINUTES : minutes;
+}
+
+async function scheduleAutoLock() {
+  try {
+    await chrome.alarms.clear(AUTO_LOCK_ALARM);
+
+    const [hasPassword, isLocked] = await Promise.all([
+      getStorageData('walletPasswordHash'),
+      getStorageData('isWalletLocked')
+    ]);
+
+    // Nothing to lock without a password, or when already locked
+    if (!hasPassword || isLocked !== 'false') return;
+
+    const minutes = await getAutoLockMinutes();
+    if (minutes === 0) return;
+
+    await chrome.alarms.create(AUTO_LOCK_ALARM, { delayInMinutes: minutes });
+  } catch (error) {
+    console.error('Failed to schedule auto-lock:', error);
+  }
+}
+
+// Mirrors WalletManager.lockWallets: drop the session keyring (decrypted wallets
+// live only in chrome.storage.session) and clear the public wallet list
+async function lockWallets() {
+  await chrome.storage.session.remove(['sessionWallets', 'sessionVaultKey']);
+  await chrome.storage.local.remove('wallets');
+  await setStorageData('isWalletLocked', 'true');
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name !== AUTO_LOCK_ALARM) return;
+
+  const isLocked = await getStorageData('isWalletLocked');
+  if (isLocked === 'false') {
+    await lockWallets();
+  }
+});
+
+// Session storage does not survive a browser restart, so a password-protected
+// wallet always starts locked
+chrome.runtime.onStartup.addListener(async () => {
+  const hasPassword = await getStorageData('walletPasswordHash');
+  if (hasPassword) {
+    await lockWallets();
+  }
+});
+
+// Provider events: pushed to every tab, and each frame's content script only
+// forwards the ones addressed to its own origin. Listing tab URLs would need
+// the broad "tabs" permission
+async function emitProviderEvent(origins, event, data) {
+  if (origins.length === 0) return;
+
+  try {
+    const tabs = await chrome.tabs.query({});
+    for (const origin of origins) {
+      console.log(`📣 Provider event ${event} -> ${origin}`);
+      for (const tab of tabs) {
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'OCTRA_PROVIDER_EVENT',
+          origin,
+          event,
+          data
+        }).catch(() => {
+          // Tab has no content script (chrome:// pages, store, not loaded yet)
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Failed to emit provider event:', error);
+  }
+}
+
+function emitConnectionChanges(oldValue, newValue) {
+  const before = new Map(parseStoredList(oldValue).map(conn => [conn.origin, conn]));
+  const after = new Map(parseStoredList(newValue).map(conn => [conn.origin, conn]));
+
+  for (const [origin, conn] of after) {
+    const previous = before.get(origin);
+    if (!previous) {
+      emitProviderEvent([origin], 'connect', { address: conn.selectedAddress });
+    } else if (previous.selectedAddress !== conn.selectedAddress) {
+      emitProviderEvent([origin], 'accountsChanged', [conn.selectedAddress]);
+    }
+    
+    const permissions = normalizePermissions(conn.permissions);
+    if (previous && permissions.join() !== normalizePermissions(previous.permissions).join()) {
+      emitProviderEvent([origin], 'permissionsChanged', permissions);
+    }
+  }
+
+  const removed = [...before.keys()].filter(origin => !after.has(origin));
+  emitProviderEvent(removed, 'disconnect', {});
+}
+
+function getActiveRpcProvider(value) {
+  return parseStoredList(value).find(provider => provider.isActive) || null;
+}
+
+async function emitNetworkChange(oldValue, newValue) {
+  const previous = getActiveRpcProvider(oldValue);
+  const active = getActiveRpcProvider(newValue);
+  if (!active || (previous && previous.id === active.id && previous.url === active.url)) return;
+
+  // The RPC URL stays private, it may point at the user's own node
+  const connections = await getConnectedDApps();
+  emitProviderEvent(connections.map(conn => conn.origin), 'networkChanged', {
+    chainId: NETWORK_INFO.chainId,
+    networkId: NETWORK_INFO.networkId,
+    name: active.name
+  });
+}
+
+async function emitLockChange(oldValue, newValue) {
+  if (oldValue === newValue || (newValue !== 'true' && newValue !== 'false')) return;
+
+  const connections = await getConnectedDApps();
+  emitProviderEvent(connections.map(conn => conn.origin), newValue === 'true' ? 'locked' : 'unlocked', {});
+}
+
 // Sync storage changes across all extension pages
 chrome.storage.onChanged.addListener((changes, namespace) => {
+  if (namespace === 'local' && (changes.isWalletLocked || changes.autoLockMinutes)) {
+    scheduleAutoLock();
+  }
+
+  if (namespace === 'local') {
+    if (changes.connectedDApps) {
+      emitConnectionChanges(changes.connectedDApps.oldValue, changes.connectedDApps.newValue);
+    }
+    if (changes.isWalletLocked) {
+      emitLockChange(changes.isWalletLocked.oldValue, changes.isWalletLocked.newValue);
+    }
+    if (changes.rpcProviders) {
+      emitNetworkChange(changes.rpcProviders.oldValue, changes.rpcProviders.newValue);
+    }
+  }
+
   if (namespace === 'local') {
     // Broadcast storage changes to all extension pages
     chrome.runtime.sendMessage({
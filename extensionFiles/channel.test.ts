@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { MessageChannel } from 'worker_threads';
+import { JSDOM } from 'jsdom';
+
+const providerSource = readFileSync(new URL('./provider.js', import.meta.url), 'utf8');
+const contentSource = readFileSync(new URL('./content.js', import.meta.url), 'utf8');
+
+const DAPP_URL = 'https://dapp.example/';
+const ADDRESS = 'oct1111111111111111111111111111111111111111111';
+const EXTENSION_ID = 'octra-test-extension';
+
+interface ExtensionRequest {
+  source: string;
+  type: string;
+  requestId: string;
+  data: { method: string };
+}
+
+type ExtensionEventListener = (message: unknown, sender: { id: string }) => void;
+
+// jsdom's postMessage fills in neither origin, source nor transferred ports,
+// so deliver messages the way a browser would
+function deliver(target: JSDOM['window'], data: unknown, origin: string, source: unknown, ports: unknown[] = []) {
+  setTimeout(() => target.dispatchEvent(new target.MessageEvent('message', { data, origin, source, ports })), 0);
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const pages: JSDOM[] = [];
+
+// A page with provider.js (main world, first in the manifest) and content.js loaded
+function loadPage(url = DAPP_URL) {
+  const dom = new JSDOM('<!doctype html><html><head></head><body></body></html>', { url, runScripts: 'outside-only' });
+  const { window } = dom;
+  const sent: ExtensionRequest[] = [];
+  const listeners: ExtensionEventListener[] = [];
+
+  window.MessageChannel = MessageChannel;
+  window.postMessage = (data: unknown, targetOrigin: string, transfer: unknown[] = []) => {
+    if (targetOrigin !== '*' && targetOrigin !== window.location.origin) return;
+    deliver(window, data, window.location.origin, window, transfer);
+  };
+  window.chrome = {
+    runtime: {
+      id: EXTENSION_ID,
+      sendMessage: async (message: ExtensionRequest) => {
+        sent.push(message);
+        return { type: 'CONNECTION_RESPONSE', success: true, result: { address: ADDRESS } };
+      },
+      onMessage: {
+        addListener: (listener: ExtensionEventListener) => listeners.push(listener),
+        removeListener: (listener: ExtensionEventListener) => listeners.splice(listeners.indexOf(listener), 1)
+      }
+    }
+  };
+
+  window.eval(providerSource);
+  window.eval(contentSource);
+  pages.push(dom);
+
+  return {
+    window,
+    sent,
+    pushEvent: (message: unknown) => listeners.forEach(listener => listener(message, { id: EXTENSION_ID }))
+  };
+}
+
+afterEach(() => {
+  // Unloading closes the content script's port so nothing keeps the worker alive
+  pages.splice(0).forEach(dom => {
+    dom.window.dispatchEvent(new dom.window.Event('beforeunload'));
+    dom.window.close();
+  });
+});
+
+describe('provider/content script channel', () => {
+  it('carries requests and replies over the handed-over port', async () => {
+    const { window, sent } = loadPage();
+
+    const result = await window.octra.request({ method: 'octra_connect' });
+
+    expect(result).toEqual({ address: ADDRESS });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ source: 'octra-content-script', type: 'RPC_REQUEST', data: { method: 'octra_connect' } });
+  });
+
+  it('does not forward requests a page script posts to the window', async () => {
+    const { window, sent } = loadPage();
+    await settle();
+
+    window.postMessage({
+      source: 'octra-provider',
+      type: 'RPC_REQUEST',
+      requestId: 'req_spoofed',
+      data: { method: 'octra_sendTransaction', params: { to: ADDRESS, amount: '1' } }
+    }, window.location.origin);
+    await settle();
+
+    expect(sent).toEqual([]);
+  });
+
+  it('ignores spoofed replies posted to the window', async () => {
+    const { window, sent } = loadPage();
+    const pending = window.octra.request({ method: 'octra_connect' });
+    await settle();
+
+    // Even knowing the request id, a page script cannot answer for the wallet
+    const spoofedAddress = 'oct2222222222222222222222222222222222222222222';
+    window.postMessage({
+      source: 'octra-content-script',
+      type: 'CONNECTION_RESPONSE',
+      requestId: sent[0].requestId,
+      success: true,
+      result: { address: spoofedAddress }
+    }, window.location.origin);
+
+    await expect(pending).resolves.toEqual({ address: ADDRESS });
+    expect(window.octra.selectedAddress).toBe(ADDRESS);
+  });
+
+  it('keeps the first port and ignores a second handover', async () => {
+    const { window, sent } = loadPage();
+    await settle();
+
+    const rogue = new MessageChannel();
+    const captured: unknown[] = [];
+    rogue.port1.onmessage = event => captured.push(event.data);
+    window.postMessage({ source: 'octra-content-script', type: 'OCTRA_CHANNEL_PORT' }, window.location.origin, [rogue.port2]);
+    await settle();
+
+    await window.octra.request({ method: 'octra_connect' });
+
+    expect(captured).toEqual([]);
+    expect(sent).toHaveLength(1);
+    rogue.port1.close();
+  });
+
+  it('ignores messages from other frames', async () => {
+    const { window, sent } = loadPage();
+    const frame = loadPage('https://evil.example/');
+    await settle();
+
+    // A cross-origin frame posting into the dApp's window, with and without a port
+    const rogue = new MessageChannel();
+    deliver(window, { source: 'octra-content-script', type: 'OCTRA_CHANNEL_PORT' }, 'https://evil.example', frame.window, [rogue.port2]);
+    deliver(window, {
+      source: 'octra-provider',
+      type: 'RPC_REQUEST',
+      requestId: 'req_framed',
+      data: { method: 'octra_connect' }
+    }, 'https://evil.example', frame.window);
+    await settle();
+
+    expect(sent).toEqual([]);
+    await expect(window.octra.request({ method: 'octra_connect' })).resolves.toEqual({ address: ADDRESS });
+    rogue.port1.close();
+  });
+
+  it('only passes on wallet events meant for this origin', async () => {
+    const { window, pushEvent } = loadPage();
+    await settle();
+    const changes: unknown[] = [];
+    window.octra.on('accountsChanged', (accounts: unknown) => changes.push(accounts));
+
+    pushEvent({ type: 'OCTRA_PROVIDER_EVENT', origin: 'https://evil.example', event: 'connect', data: { address: ADDRESS } });
+    await settle();
+    expect(changes).toEqual([]);
+
+    pushEvent({ type: 'OCTRA_PROVIDER_EVENT', origin: 'https://dapp.example', event: 'connect', data: { address: ADDRESS } });
+    await settle();
+    expect(changes).toEqual([[ADDRESS]]);
+  });
+
+  it('is not offered to opaque origins', () => {
+    const { window } = loadPage('about:blank');
+
+    expect(window.octra).toBeUndefined();
+  });
+});
@@ -2,61 +2,81 @@
 (function() {
   'use strict';
 
-  // Inject Octra provider ke dalam window object
-  const injectOctraProvider = () => {
-    const script = document.createElement('script');
-    script.src = chrome.runtime.getURL('provider.js');
-    script.onload = function() {
-      this.remove();
-    };
-    (document.head || document.documentElement).appendChild(script);
+  // The channel is only handed to this page's own origin. Opaque origins
+  // (sandboxed frames, file:// pages) cannot be targeted, so the provider is not offered there
+  const PAGE_ORIGIN = window.location.origin;
+  if (!PAGE_ORIGIN || PAGE_ORIGIN === 'null') return;
+
+  // Private line to provider.js, which runs in the page's main world at
+  // document_start. Its far end goes out in a window message queued before any
+  // page script runs, and provider.js accepts only the first handover, so nothing
+  // a page or another frame posts to the window can pose as either side
+  const channel = new MessageChannel();
+  const providerPort = channel.port1;
+
+  const postToProvider = (message) => {
+    providerPort.postMessage({ ...message, source: 'octra-content-script' });
   };
 
   // Message handler untuk komunikasi dengan extension
   const handleProviderMessage = (event) => {
-    if (event.source !== window) return;
-    if (event.data.source !== 'octra-provider') return;
-    
-    // Forward message ke extension background script
+    const message = event.data;
+    if (!message || typeof message !== 'object' || message.source !== 'octra-provider') return;
+    if (typeof message.type !== 'string' || typeof message.requestId !== 'string') return;
+
+    // Forward message ke extension background script. The background derives
+    // the origin from the sender, whatever the page put in data
     chrome.runtime.sendMessage({
       source: 'octra-content-script',
-      type: event.data.type,
-      requestId: event.data.requestId,
-      data: event.data.data
+      type: message.type,
+      requestId: message.requestId,
+      data: message.data
     }).then(response => {
       // Forward response kembali ke provider
-      window.postMessage({
-        source: 'octra-content-script',
-        requestId: event.data.requestId,
+      postToProvider({
+        requestId: message.requestId,
         type: response.type,
         success: response.success,
         result: response.result,
-        error: response.error
-      }, '*');
+        error: response.error,
+        code: response.code
+      });
     }).catch(error => {
       // Handle error
-      window.postMessage({
-        source: 'octra-content-script',
-        requestId: event.data.requestId,
+      postToProvider({
+        requestId: message.requestId,
         type: 'ERROR_RESPONSE',
         success: false,
-        error: error.message || 'Extension communication error'
-      }, '*');
+        error: error.message || 'Extension communication error',
+        code: 4900 // Provider disconnected: the extension could not be reached
+      });
+    });
+  };
+
+  // Events pushed by the background script go to every frame; only pass on
+  // the ones meant for this frame's origin
+  const handleExtensionEvent = (message, sender) => {
+    if (sender.id !== chrome.runtime.id) return;
+    if (!message || message.type !== 'OCTRA_PROVIDER_EVENT') return;
+    if (message.origin !== PAGE_ORIGIN) return;
+
+    postToProvider({
+      type: 'PROVIDER_EVENT',
+      event: message.event,
+      data: message.data
     });
   };
 
   // Setup message listener
-  window.addEventListener('message', handleProviderMessage);
+  providerPort.onmessage = handleProviderMessage;
+  chrome.runtime.onMessage.addListener(handleExtensionEvent);
 
-  // Inject provider saat DOM ready
-  if (document.readyState === 'loading') {
-    document.addEventListener('DOMContentLoaded', injectOctraProvider);
-  } else {
-    injectOctraProvider();
-  }
+  // Hand the other end to provider.js
+  window.postMessage({ source: 'octra-content-script', type: 'OCTRA_CHANNEL_PORT' }, PAGE_ORIGIN, [channel.port2]);
 
   // Cleanup saat page unload
   window.addEventListener('beforeunload', () => {
-    window.removeEventListener('message', handleProviderMessage);
+    providerPort.close();
+    chrome.runtime.onMessage.removeListener(handleExtensionEvent);
   });
-})();
\ No newline at end of file
+})();
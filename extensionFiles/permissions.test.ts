@@ -0,0 +1,237 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import vm from 'vm';
+
+const backgroundSource = readFileSync(new URL('./background.js', import.meta.url), 'utf8');
+
+const EXTENSION_ID = 'octra-test-extension';
+const ORIGIN = 'https://dapp.example';
+const ADDRESS = 'oct1111111111111111111111111111111111111111111';
+
+type Listener = (...args: unknown[]) => unknown;
+
+interface RpcResponse {
+  type: string;
+  success: boolean;
+  result?: { balance?: number; hash?: string };
+  error?: string;
+  code?: number;
+}
+
+const timers: ReturnType<typeof setTimeout>[] = [];
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+// Runs background.js against an in-memory chrome.* with the given storage
+function loadBackground(storage: Record<string, unknown>) {
+  const listeners: Record<string, Listener[]> = {};
+  const event = (name: string) => ({
+    addListener: (listener: Listener) => (listeners[name] ||= []).push(listener),
+    removeListener: (listener: Listener) => {
+      listeners[name] = (listeners[name] || []).filter(l => l !== listener);
+    }
+  });
+  const emit = (name: string, ...args: unknown[]) => [...(listeners[name] || [])].forEach(listener => listener(...args));
+  const openedTabs: string[] = [];
+
+  const chrome = {
+    runtime: {
+      id: EXTENSION_ID,
+      getURL: (path: string) => `chrome-extension://${EXTENSION_ID}/${path}`,
+      sendMessage: async () => undefined,
+      onInstalled: event('onInstalled'),
+      onStartup: event('onStartup'),
+      onMessage: event('onMessage')
+    },
+    storage: {
+      local: {
+        get: (keys: string[], callback: (result: Record<string, unknown>) => void) => {
+          callback(Object.fromEntries(keys.filter(key => key in storage).map(key => [key, storage[key]])));
+        },
+        set: (items: Record<string, unknown>, callback?: () => void) => {
+          const changes = Object.fromEntries(Object.entries(items).map(([key, newValue]) => [key, { oldValue: storage[key], newValue }]));
+          Object.assign(storage, items);
+          callback?.();
+          emit('onChanged', changes, 'local');
+        },
+        remove: async (key: string) => {
+          delete storage[key];
+        }
+      },
+      session: { get: async () => ({}), remove: async () => undefined },
+      onChanged: event('onChanged')
+    },
+    action: { openPopup: async () => undefined },
+    tabs: {
+      create: async ({ url }: { url: string }) => {
+        openedTabs.push(url);
+        return { id: 1 };
+      },
+      query: async () => [],
+      sendMessage: () => undefined,
+      onRemoved: event('onRemoved')
+    },
+    alarms: { create: () => undefined, clear: async () => undefined, onAlarm: event('onAlarm') }
+  };
+
+  vm.runInNewContext(backgroundSource, {
+    chrome,
+    console,
+    URL,
+    TextEncoder,
+    crypto,
+    setTimeout: (callback: () => void, ms: number) => {
+      const timer = setTimeout(callback, ms);
+      timers.push(timer);
+      return timer;
+    },
+    clearTimeout
+  });
+
+  const request = (method: string, params: Record<string, unknown>) => new Promise<RpcResponse>(resolve => {
+    const sender = { id: EXTENSION_ID, origin: ORIGIN, url: `${ORIGIN}/`, tab: { id: 7, url: `${ORIGIN}/` } };
+    emit('onMessage', { source: 'octra-content-script', type: 'RPC_REQUEST', requestId: 'req_1', data: { method, params } }, sender, resolve);
+  });
+
+  // What the connection prompt sends back
+  const answerPrompt = (approved: boolean, permissions: string[]) => emit('onMessage', {
+    type: 'CONNECTION_RESULT',
+    origin: ORIGIN,
+    approved,
+    address: ADDRESS,
+    permissions
+  }, { id: EXTENSION_ID });
+
+  // A write from an extension page, which the background sees as a storage change
+  const write = (items: Record<string, unknown>) => chrome.storage.local.set(items);
+
+  return { storage, emit, request, answerPrompt, write, openedTabs };
+}
+
+afterEach(() => {
+  timers.splice(0).forEach(clearTimeout);
+});
+
+describe('background dApp permissions', () => {
+  it('gives connections saved before permissions existed only the read permissions', async () => {
+    const legacy = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address'], connectedAt: 1 };
+    const { storage, emit, request } = loadBackground({ connectedDApps: JSON.stringify([legacy]) });
+
+    emit('onInstalled', { reason: 'update' });
+    await settle();
+
+    const [migrated] = JSON.parse(storage.connectedDApps as string);
+    expect(migrated).toMatchObject({ origin: ORIGIN, permissions: ['view_address', 'view_balance'], permissionsVersion: 1 });
+    await expect(request('octra_getBalance', { address: ADDRESS })).resolves.toMatchObject({ success: true });
+
+    request('octra_signMessage', { message: 'hello' });
+    await settle();
+    expect(storage.pendingConnectionRequest).toMatchObject({ permissions: ['view_address', 'view_balance', 'sign_message'] });
+  });
+
+  it('keeps what legacy call_methods connections were using', async () => {
+    const legacy = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address', 'call_methods'], connectedAt: 1 };
+    const { storage, emit } = loadBackground({ connectedDApps: [legacy] });
+
+    emit('onInstalled', { reason: 'update' });
+    await settle();
+
+    expect(storage.connectedDApps).toEqual([
+      expect.objectContaining({ permissions: ['view_address', 'view_balance', 'contract_view', 'contract_call'], permissionsVersion: 1 })
+    ]);
+  });
+
+  it('does not migrate connections again when they are written', async () => {
+    const { storage, write } = loadBackground({ connectedDApps: '[]' });
+
+    // e.g. a page saving a stale copy without the version
+    const stale = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address'], connectedAt: 1 };
+    write({ connectedDApps: JSON.stringify([stale]) });
+    await settle();
+
+    expect(storage.connectedDApps).toBe(JSON.stringify([stale]));
+  });
+
+  it('leaves connections saved with a permissions version alone', async () => {
+    const current = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address'], permissionsVersion: 1, connectedAt: 1 };
+    const { storage, emit } = loadBackground({ connectedDApps: [current] });
+
+    emit('onInstalled', { reason: 'update' });
+    await settle();
+
+    expect(storage.connectedDApps).toEqual([current]);
+  });
+
+  it('asks for a missing permission instead of refusing the request', async () => {
+    const current = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address'], permissionsVersion: 1, connectedAt: 1 };
+    const { storage, request, answerPrompt } = loadBackground({ connectedDApps: [current] });
+
+    const pending = request('octra_getBalance', { address: ADDRESS });
+    await settle();
+
+    expect(storage.pendingConnectionRequest).toMatchObject({
+      origin: ORIGIN,
+      permissions: ['view_address', 'view_balance'],
+      grantedPermissions: ['view_address']
+    });
+
+    answerPrompt(true, ['view_address', 'view_balance']);
+    await expect(pending).resolves.toMatchObject({ type: 'BALANCE_RESPONSE', success: true });
+    expect(storage.connectedDApps).toEqual([
+      expect.objectContaining({ origin: ORIGIN, permissions: ['view_address', 'view_balance'], permissionsVersion: 1 })
+    ]);
+  });
+
+  it('refuses the request when the user leaves the permission off or cancels', async () => {
+    const current = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address'], permissionsVersion: 1, connectedAt: 1 };
+    const { request, answerPrompt } = loadBackground({ connectedDApps: [current] });
+
+    const switchedOff = request('octra_getBalance', { address: ADDRESS });
+    await settle();
+    answerPrompt(true, ['view_address']);
+    await expect(switchedOff).resolves.toMatchObject({ success: false, code: 4100 });
+
+    const cancelled = request('octra_getBalance', { address: ADDRESS });
+    await settle();
+    answerPrompt(false, []);
+    await expect(cancelled).resolves.toMatchObject({ success: false, code: 4001 });
+  });
+
+  it('asks for private_transfer before a private transfer', async () => {
+    const current = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address', 'send_transaction'], permissionsVersion: 1, connectedAt: 1 };
+    const { storage, request, answerPrompt } = loadBackground({ connectedDApps: [current] });
+
+    const pending = request('octra_privateTransfer', { to: ADDRESS, amount: '1.5' });
+    await settle();
+
+    expect(storage.pendingConnectionRequest).toMatchObject({
+      permissions: ['view_address', 'send_transaction', 'private_transfer'],
+      grantedPermissions: ['view_address', 'send_transaction']
+    });
+
+    answerPrompt(true, ['view_address', 'send_transaction']);
+    await expect(pending).resolves.toMatchObject({ success: false, code: 4100, error: 'Permission not granted: private_transfer' });
+  });
+
+  it('sends a private transfer once the user approves it', async () => {
+    const current = { origin: ORIGIN, selectedAddress: ADDRESS, permissions: ['view_address', 'private_transfer'], permissionsVersion: 1, connectedAt: 1 };
+    const { request, emit, openedTabs } = loadBackground({ connectedDApps: [current] });
+
+    const pending = request('octra_privateTransfer', { to: ADDRESS, amount: '1.5' });
+    await settle();
+
+    const approval = new URL(openedTabs[0]);
+    expect(approval.searchParams.get('action')).toBe('private_transfer');
+    expect(approval.searchParams.get('amount')).toBe('1.5');
+    expect(approval.searchParams.get('connectedAddress')).toBe(ADDRESS);
+
+    emit('onMessage', { type: 'PRIVATE_TRANSFER_RESULT', origin: ORIGIN, approved: true, txHash: 'abc123' }, { id: EXTENSION_ID });
+    await expect(pending).resolves.toMatchObject({ type: 'PRIVATE_TRANSFER_RESPONSE', success: true, result: { hash: 'abc123' } });
+  });
+
+  it('still refuses dApps that never connected', async () => {
+    const { request } = loadBackground({});
+
+    await expect(request('octra_getBalance', { address: ADDRESS })).resolves.toMatchObject({ success: false, code: 4100 });
+  });
+});
@@ -1,4 +1,48 @@
 (function() {
+  // content.js does not serve opaque origins (sandboxed frames, file:// pages)
+  if (!window.location.origin || window.location.origin === 'null') return;
+
+  // EIP-1193 style error codes, mirrored in background.js
+  const RPC_ERRORS = Object.freeze({
+    USER_REJECTED: 4001,
+    UNAUTHORIZED: 4100,
+    UNSUPPORTED_METHOD: 4200,
+    DISCONNECTED: 4900,
+    INVALID_PARAMS: -32602,
+    INTERNAL: -32603
+  });
+
+  // A method the dApp lacks permission for first shows the connection prompt,
+  // which the background script gives up on after a minute
+  const CONSENT_TIMEOUT = 60000;
+
+  // Methods forwarded to the extension, with how long the user has to answer
+  const RPC_METHODS = {
+    octra_connect: { timeout: 60000 },
+    octra_disconnect: { timeout: 30000 },
+    octra_getBalance: { timeout: CONSENT_TIMEOUT + 30000 },
+    octra_sendTransaction: { timeout: CONSENT_TIMEOUT + 300000, requiresConnection: true },
+    octra_signMessage: { timeout: CONSENT_TIMEOUT + 60000, requiresConnection: true },
+    octra_signTypedData: { timeout: CONSENT_TIMEOUT + 60000, requiresConnection: true },
+    octra_callContract: { timeout: CONSENT_TIMEOUT + 60000, requiresConnection: true },
+    octra_invokeContract: { timeout: CONSENT_TIMEOUT + 300000, requiresConnection: true },
+    octra_privateTransfer: { timeout: CONSENT_TIMEOUT + 300000, requiresConnection: true }
+  };
+
+  // Lets the background script's own timeout response arrive first
+  const RESPONSE_GRACE_MS = 5000;
+
+  class ProviderRpcError extends Error {
+    constructor(code, message, data) {
+      super(message);
+      this.name = 'ProviderRpcError';
+      this.code = code;
+      if (data !== undefined) {
+        this.data = data;
+      }
+    }
+  }
+
   // Octra Provider API
   class OctraProvider {
     constructor() {
@@ -8,17 +52,54 @@
       this.networkId = 'octra-mainnet';
       this.chainId = '0x1'; // Octra chain ID
       this._eventListeners = {};
+      this._pendingRequests = {};
+      this.errorCodes = RPC_ERRORS;
+      this._port = null;
+      this._outbox = [];
       
-      // Setup message listener untuk response dari extension
-      window.addEventListener('message', (event) => {
-        if (event.source !== window) return;
-        if (event.data.source !== 'octra-content-script') return;
+      // content.js hands over its channel port in the first message it posts.
+      // This script runs at document_start, so that handover is queued before
+      // any page script could post a fake one; later handovers are ignored
+      const onHandover = (event) => {
+        if (event.source !== window || event.origin !== window.location.origin) return;
+        if (!event.data || event.data.source !== 'octra-content-script' || event.data.type !== 'OCTRA_CHANNEL_PORT') return;
+        if (!event.ports || !event.ports[0]) return;
         
-        this._handleResponse(event.data);
-      });
+        window.removeEventListener('message', onHandover);
+        this._connectPort(event.ports[0]);
+      };
+      window.addEventListener('message', onHandover);
+    }
+
+    // Replies and events from the extension only ever arrive on this port
+    _connectPort(port) {
+      this._port = port;
+      port.onmessage = (event) => {
+        if (!event.data || event.data.source !== 'octra-content-script') return;
+        
+        if (event.data.type === 'PROVIDER_EVENT') {
+          this._handleProviderEvent(event.data.event, event.data.data);
+        } else {
+          this._handleResponse(event.data);
+        }
+      };
+      
+      // Requests a dApp made before the handover arrived
+      this._outbox.forEach(message => port.postMessage(message));
+      this._outbox = [];
+    }
+
+    _postToExtension(message) {
+      if (this._port) {
+        this._port.postMessage(message);
+      } else {
+        this._outbox.push(message);
+      }
     }
 
-    // Event listener management
+    // Event listener management. Events: connect, disconnect, accountsChanged,
+    // networkChanged, permissionsChanged, locked, unlocked, transaction,
+    // contractCall, userRejectedRequest
     on(event, callback) {
       if (!this._eventListeners[event]) {
         this._eventListeners[event] = [];
@@ -34,167 +115,268 @@
       }
     }
 
+    // EventEmitter-style alias used by most dApp libraries
+    removeListener(event, callback) {
+      this.off(event, callback);
+    }
+
     _emit(event, data) {
       if (this._eventListeners[event]) {
-        this._eventListeners[event].forEach(callback => callback(data));
+        this._eventListeners[event].forEach(callback => {
+          try {
+            callback(data);
+          } catch (error) {
+            console.error(`Octra provider ${event} listener failed:`, error);
+          }
+        });
       }
     }
 
-    // Request connection to wallet
-    async connect(permissions = ['view_address', 'view_balance']) {
+    // Track the connected account; connect/accountsChanged/disconnect only fire
+    // on an actual change, so the background echo of our own connect() is silent
+    _setAccount(address) {
+      if (!address) {
+        if (!this.isConnected) return;
+        this.isConnected = false;
+        this.selectedAddress = null;
+        this._emit('disconnect', {});
+        this._emit('accountsChanged', []);
+        return;
+      }
+
+      if (!this.isConnected) {
+        this.isConnected = true;
+        this.selectedAddress = address;
+        this._emit('connect', { address });
+        this._emit('accountsChanged', [address]);
+      } else if (this.selectedAddress !== address) {
+        this.selectedAddress = address;
+        this._emit('accountsChanged', [address]);
+      }
+    }
+
+    // Events pushed from the background script when the wallet changes
+    _handleProviderEvent(event, data) {
+      switch (event) {
+        case 'connect':
+          this._setAccount(data && data.address);
+          break;
+
+        case 'accountsChanged':
+          this._setAccount(Array.isArray(data) ? data[0] : null);
+          break;
+
+        case 'disconnect':
+          this._setAccount(null);
+          break;
+
+        case 'networkChanged':
+        case 'permissionsChanged':
+        case 'locked':
+        case 'unlocked':
+          this._emit(event, data);
+          break;
+      }
+    }
+
+    // Single entry point for every wallet method, JSON-RPC style:
+    //   await window.octra.request({ method: 'octra_signMessage', params: { message } })
+    // Rejects with a ProviderRpcError carrying one of RPC_ERRORS as `code`
+    async request(args) {
+      const { method, params } = args || {};
+
+      if (typeof method !== 'string' || method.length === 0) {
+        throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'request() expects { method, params }');
+      }
+      if (params !== undefined && (params === null || typeof params !== 'object' || Array.isArray(params))) {
+        throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'params must be an object');
+      }
+
+      // Answered from provider state, no round-trip needed
+      switch (method) {
+        case 'octra_accounts':
+          return this.isConnected && this.selectedAddress ? [this.selectedAddress] : [];
+        case 'octra_chainId':
+          return this.chainId;
+        case 'octra_getNetwork':
+          return this.getNetwork();
+      }
+
+      if (!Object.prototype.hasOwnProperty.call(RPC_METHODS, method)) {
+        throw new ProviderRpcError(RPC_ERRORS.UNSUPPORTED_METHOD, `Unsupported method: ${method}`);
+      }
+      const spec = RPC_METHODS[method];
+
+      const preparedParams = this._prepareParams(method, params || {});
+      if (spec.requiresConnection && !this.isConnected) {
+        throw new ProviderRpcError(RPC_ERRORS.UNAUTHORIZED, 'Not connected to wallet');
+      }
+
+      if (method === 'octra_disconnect') {
+        this._setAccount(null);
+      }
+
       return new Promise((resolve, reject) => {
         const requestId = this._generateRequestId();
-        
-        // Store resolver untuk response
-        this._pendingRequests = this._pendingRequests || {};
         this._pendingRequests[requestId] = { resolve, reject };
-        
-        // Send request ke content script
-        window.postMessage({
+
+        // No origin in the payload: the background script takes it from the sender
+        this._postToExtension({
           source: 'octra-provider',
-          type: 'CONNECTION_REQUEST',
+          type: 'RPC_REQUEST',
           requestId,
           data: {
-            origin: window.location.origin,
+            method,
+            params: preparedParams,
             appName: document.title || window.location.hostname,
-            appIcon: this._getAppIcon(),
-            permissions
+            appIcon: this._getAppIcon()
           }
-        }, '*');
-        
-        // Timeout setelah 60 detik
+        });
+
+        // The background script answers its own approval timeouts; this only
+        // fires when the extension never responds at all
         setTimeout(() => {
           if (this._pendingRequests[requestId]) {
             delete this._pendingRequests[requestId];
-            reject(new Error('Connection request timeout'));
+            reject(new ProviderRpcError(RPC_ERRORS.DISCONNECTED, `${method} request timeout`));
           }
-        }, 60000);
+        }, spec.timeout + RESPONSE_GRACE_MS);
       });
     }
 
+    // Validate params and fill in defaults that depend on page or provider state
+    _prepareParams(method, params) {
+      switch (method) {
+        case 'octra_getBalance': {
+          const address = params.address || this.selectedAddress;
+          if (!address) {
+            throw new ProviderRpcError(RPC_ERRORS.UNAUTHORIZED, 'Not connected to wallet');
+          }
+          return { address };
+        }
+
+        case 'octra_sendTransaction':
+          if (!params.to || !params.amount) {
+            throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid transaction request: missing to or amount');
+          }
+          return { to: params.to, amount: params.amount.toString(), message: params.message || '' };
+
+        case 'octra_privateTransfer':
+          if (!params.to || !params.amount) {
+            throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid private transfer request: missing to or amount');
+          }
+          return { to: params.to, amount: params.amount.toString() };
+
+        case 'octra_signMessage':
+          if (typeof params.message !== 'string' || params.message.length === 0) {
+            throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid sign request: message must be a non-empty string');
+          }
+          return { message: params.message };
+
+        case 'octra_signTypedData': {
+          const { typedData } = params;
+          if (!typedData || !Array.isArray(typedData.types) || !typedData.message) {
+            throw new ProviderRpcError(RPC_ERRORS.INVALID_PARAMS, 'Invalid sign request: typedData must include types and message');
+          }
+
+          const domain = typedData.domain || {};
+          return {
+            typedData: {
+              domain: {
+                name: domain.name || document.title || window.location.hostname,
+                origin: domain.origin || window.location.origin,
+                chainId: domain.chainId || this.chainId
+              },
+              primaryType: typedData.primaryType || 'Message',
+              types: typedData.types,
+              message: typedData.message
+            }
+          };
+        }
+
+        case 'octra_callContract':
+        case 'octra_invokeContract':
+          return { ...params, params: this._convertParamsToArray(params.params || []) };
+
+        default:
+          return params;
+      }
+    }
+
+    // Request connection to wallet
+    async connect(permissions = ['view_address', 'view_balance']) {
+      return this.request({ method: 'octra_connect', params: { permissions } });
+    }
+
     // Disconnect from wallet
     async disconnect() {
-      this.isConnected = false;
-      this.selectedAddress = null;
-      this._emit('disconnect', {});
-      
-      window.postMessage({
-        source: 'octra-provider',
-        type: 'DISCONNECT_REQUEST',
-        data: {
-          origin: window.location.origin
-        }
-      }, '*');
+      return this.request({ method: 'octra_disconnect' });
     }
 
     // Get current connected account
     async getAccount() {
-      if (!this.isConnected) {
-        throw new Error('Not connected to wallet');
+      const [address] = await this.request({ method: 'octra_accounts' });
+      if (!address) {
+        throw new ProviderRpcError(RPC_ERRORS.UNAUTHORIZED, 'Not connected to wallet');
       }
-      return this.selectedAddress;
+      return address;
     }
 
     // Get account balance
     async getBalance(address = null) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected && !address) {
-          reject(new Error('Not connected to wallet'));
-          return;
-        }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'GET_BALANCE',
-          requestId,
-          data: {
-            address: address || this.selectedAddress
-          }
-        }, '*');
-        
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Get balance request timeout'));
-          }
-        }, 30000);
-      });
+      return this.request({ method: 'octra_getBalance', params: address ? { address } : {} });
     }
 
     // Send transaction
     async sendTransaction(transactionRequest) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected) {
-          reject(new Error('Not connected to wallet'));
-          return;
-        }
-        
-        // Validate transaction request
-        if (!transactionRequest.to || !transactionRequest.amount) {
-          reject(new Error('Invalid transaction request: missing to or amount'));
-          return;
-        }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'TRANSACTION_REQUEST',
-          requestId,
-          data: {
-            origin: window.location.origin,
-            appName: document.title || window.location.hostname,
-            appIcon: this._getAppIcon(),
-            to: transactionRequest.to,
-            amount: transactionRequest.amount.toString(),
-            message: transactionRequest.message || ''
-          }
-        }, '*');
-        
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Transaction request timeout'));
-          }
-        }, 300000); // 5 minutes timeout untuk transaction
-      });
+      return this.request({ method: 'octra_sendTransaction', params: transactionRequest || {} });
+    }
+
+    // Send OCT from the connected wallet's encrypted balance
+    // Resolves with { hash } once the transfer is submitted
+    async sendPrivateTransfer(transferRequest) {
+      return this.request({ method: 'octra_privateTransfer', params: transferRequest || {} });
     }
 
-    // Sign message (for future implementation)
+    // Sign an arbitrary message with the connected wallet's Ed25519 key
+    // Resolves with { message, signature, publicKey, address } (signature and publicKey in base64)
     async signMessage(message) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected) {
-          reject(new Error('Not connected to wallet'));
-          return;
+      return this.request({ method: 'octra_signMessage', params: { message } });
+    }
+
+    // Sign structured data bound to this site's domain
+    // typedData: { domain: { name, chainId }, primaryType, types: [{ name, type }], message: { ... } }
+    // Resolves with { typedData, hash, signature, publicKey, address }
+    async signTypedData(typedData) {
+      return this.request({ method: 'octra_signTypedData', params: { typedData } });
+    }
+
+    // Verify a signed message offline, without a round-trip to the extension
+    // Accepts (message, signature, publicKey, address) or the object returned by signMessage
+    async verifyMessage(message, signature, publicKey, address) {
+      if (message && typeof message === 'object') {
+        ({ message, signature, publicKey, address } = message);
+      }
+
+      try {
+        const publicKeyBytes = this._decodePublicKey(publicKey);
+        const signatureBytes = this._base64ToBytes(signature);
+        if (publicKeyBytes.length !== 32 || signatureBytes.length !== 64) {
+          return false;
         }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'SIGN_MESSAGE',
-          requestId,
-          data: {
-            message,
-            origin: window.location.origin
-          }
-        }, '*');
-        
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Sign message request timeout'));
-          }
-        }, 60000);
-      });
+
+        // Public key must hash to the claimed address
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKeyBytes));
+        if ('oct' + this._base58Encode(hash) !== address) {
+          return false;
+        }
+
+        const key = await crypto.subtle.importKey('raw', publicKeyBytes, { name: 'Ed25519' }, false, ['verify']);
+        return await crypto.subtle.verify({ name: 'Ed25519' }, key, signatureBytes, this._encodeSignedMessage(message));
+      } catch (error) {
+        console.warn('Octra signature verification failed:', error);
+        return false;
+      }
     }
 
     // Check if wallet is installed
@@ -213,170 +395,81 @@
 
     // Call smart contract view method
     async callContract(contractAddress, methodName, params = {}) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected) {
-          reject(new Error('Not connected to wallet'));
-          return;
-        }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'CONTRACT_REQUEST',
-          requestId,
-          data: {
-            origin: window.location.origin,
-            appName: document.title || window.location.hostname,
-            appIcon: this._getAppIcon(),
-            contractAddress,
-            methodName,
-            methodType: 'view',
-            params: this._convertParamsToArray(params),
-            description: `Call view method ${methodName} on contract ${contractAddress}`
-          }
-        }, '*');
-        
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Contract call request timeout'));
-          }
-        }, 60000);
+      return this.request({
+        method: 'octra_callContract',
+        params: { contractAddress, methodName, params }
       });
     }
 
     // Invoke smart contract transaction method
     async invokeContract(contractAddress, methodName, params = {}, options = {}) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected) {
-          reject(new Error('Not connected to wallet'));
-          return;
+      return this.request({
+        method: 'octra_invokeContract',
+        params: {
+          contractAddress,
+          methodName,
+          params,
+          gasLimit: options.gasLimit,
+          gasPrice: options.gasPrice,
+          value: options.value
         }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'CONTRACT_REQUEST',
-          requestId,
-          data: {
-            origin: window.location.origin,
-            appName: document.title || window.location.hostname,
-            appIcon: this._getAppIcon(),
-            contractAddress,
-            methodName,
-            methodType: 'call',
-            params: this._convertParamsToArray(params),
-            gasLimit: options.gasLimit,
-            gasPrice: options.gasPrice,
-            value: options.value,
-            description: `Execute transaction method ${methodName} on contract ${contractAddress}`
-          }
-        }, '*');
-        
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Contract invocation request timeout'));
-          }
-        }, 300000); // 5 minutes timeout
       });
     }
 
     // Enhanced contract method call with full parameter specification
     async callContractMethod(contractAddress, methodName, methodType, parameters = [], options = {}) {
-      return new Promise((resolve, reject) => {
-        if (!this.isConnected) {
-          reject(new Error('Not connected to wallet'));
-          return;
+      return this.request({
+        method: methodType === 'view' ? 'octra_callContract' : 'octra_invokeContract',
+        params: {
+          contractAddress,
+          methodName,
+          params: parameters,
+          gasLimit: options.gasLimit,
+          gasPrice: options.gasPrice,
+          value: options.value,
+          description: options.description
         }
-        
-        const requestId = this._generateRequestId();
-        this._pendingRequests = this._pendingRequests || {};
-        this._pendingRequests[requestId] = { resolve, reject };
-        
-        window.postMessage({
-          source: 'octra-provider',
-          type: 'CONTRACT_REQUEST',
-          requestId,
-          data: {
-            origin: window.location.origin,
-            appName: document.title || window.location.hostname,
-            appIcon: this._getAppIcon(),
-            contractAddress,
-            methodName,
-            methodType,
-            params: parameters,
-            gasLimit: options.gasLimit,
-            gasPrice: options.gasPrice,
-            value: options.value,
-            description: options.description || `${methodType === 'view' ? 'Call' : 'Execute'} method ${methodName} on contract ${contractAddress}`
-          }
-        }, '*');
-        
-        const timeout = methodType === 'view' ? 60000 : 300000;
-        setTimeout(() => {
-          if (this._pendingRequests[requestId]) {
-            delete this._pendingRequests[requestId];
-            reject(new Error('Enhanced contract call request timeout'));
-          }
-        }, timeout);
       });
     }
 
     // Handle responses dari extension
     _handleResponse(data) {
-      const { requestId, type, success, result, error } = data;
-      
-      if (!this._pendingRequests || !this._pendingRequests[requestId]) {
+      const { requestId, type, success, result, error, code } = data;
+
+      if (!this._pendingRequests[requestId]) {
         return;
       }
-      
+
       const { resolve, reject } = this._pendingRequests[requestId];
       delete this._pendingRequests[requestId];
-      
+
       if (success) {
         // Handle different response types
         switch (type) {
           case 'CONNECTION_RESPONSE':
-            this.isConnected = true;
-            this.selectedAddress = result.address;
-            this._emit('connect', { address: result.address });
+            this._setAccount(result.address);
             resolve(result);
             break;
-            
+
           case 'TRANSACTION_RESPONSE':
             this._emit('transaction', { hash: result.hash });
             resolve(result);
             break;
-            
-          case 'BALANCE_RESPONSE':
-            resolve(result);
-            break;
-            
-          case 'SIGN_RESPONSE':
-            resolve(result);
-            break;
-            
+
           case 'CONTRACT_RESPONSE':
             this._emit('contractCall', { result });
             resolve(result);
             break;
-            
+
           default:
             resolve(result);
         }
       } else {
         // Handle errors
-        if (error === 'User rejected request') {
+        if (code === RPC_ERRORS.USER_REJECTED) {
           this._emit('userRejectedRequest', { requestId });
         }
-        reject(new Error(error || 'Unknown error'));
+        reject(new ProviderRpcError(code || RPC_ERRORS.INTERNAL, error || 'Unknown error'));
       }
     }
 
@@ -385,6 +478,51 @@
       return 'req_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
     }
 
+    // Same bytes the wallet signs: 0x19 || "Octra Signed Message:\n" || byte length || message
+    _encodeSignedMessage(message) {
+      const body = new TextEncoder().encode(message);
+      const header = new TextEncoder().encode('\x19Octra Signed Message:\n' + body.length);
+      const payload = new Uint8Array(header.length + body.length);
+      payload.set(header, 0);
+      payload.set(body, header.length);
+      return payload;
+    }
+
+    _base64ToBytes(base64) {
+      const binary = atob(base64.trim());
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return bytes;
+    }
+
+    _decodePublicKey(publicKey) {
+      // Wallet keeps public keys as hex, signatures carry them as base64
+      const trimmed = publicKey.trim();
+      if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+        return new Uint8Array(trimmed.match(/../g).map(byte => parseInt(byte, 16)));
+      }
+      return this._base64ToBytes(trimmed);
+    }
+
+    _base58Encode(bytes) {
+      const alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+      let num = BigInt('0x' + (Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('') || '0'));
+      let encoded = '';
+      
+      while (num > 0n) {
+        encoded = alphabet[Number(num % 58n)] + encoded;
+        num = num / 58n;
+      }
+      
+      for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+        encoded = '1' + encoded;
+      }
+      
+      return encoded;
+    }
+
     _convertParamsToArray(params) {
       // Convert object params to array format expected by contract handler
       if (Array.isArray(params)) {
@@ -432,47 +570,91 @@
     }
   }
 
+  // Wallet discovery, modelled on EIP-6963. Several Octra-compatible wallets
+  // can be installed at once; instead of reading whichever one owns window.octra,
+  // a dApp listens for announcements and asks every wallet to announce itself:
+  //
+  //   window.addEventListener('octra:announceProvider', (event) => {
+  //     const { info, provider } = event.detail; // info: { uuid, name, icon, rdns }
+  //   });
+  //   window.dispatchEvent(new Event('octra:requestProvider'));
+  const ANNOUNCE_EVENT = 'octra:announceProvider';
+  const REQUEST_EVENT = 'octra:requestProvider';
+
+  const PROVIDER_INFO = Object.freeze({
+    // Fresh per page load, so it identifies this injection rather than the user
+    uuid: crypto.randomUUID(),
+    name: 'Octra Wallet',
+    icon: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAMAAABEpIrGAAABBVBMVEUAAAAAAAEAAQABAAAAAQEBAQAAAOEAANsAANsAANwAAdsAANsAANsAANsBANsAANkAANoAANsAANoAAOEAANQAANsAANsAAN0AANoAANsAANkAANsAANsBANkBAN0AANsAANsAANsAANsAANoAANoAANwAAN0AANoAAdoAAdQAANsAANcAANYAANsAANsAANsAANoAANsAAdoAAeAAAdwAANwBANsAAN0AANoAAdYBANsBANsAAN0AANoAANsBANoAANoAAdsAAd0AANsAAd4BANsBAOEAAN0AANgAAdsAANoAAd0AANoAANoAAOAAANsAAdgAANsAAdsBANsAANoBANoAAdoYWnQZAAAAUXRSTlMAAAAAAAARW5zM7P3szZwnnvSfKQyN+SbT0zbq6TYm+LNqOSIjOmmy+AydIB+e7ktL7Y0pMzPuSvQg+M3M7CMi7Wppsh9bEUsn0/0m+Y0pnycGQXlJAAAAAW9yTlQBz6J3mgAAAgdJREFUOMtlUwt/EjEMT1vH3Sy4gx2cPPR4DKaAc6gMH3uo08239ih+/49ikrYHavj9aC5J0+T/TwCCiEoU79/Vulq7F1UkKLTgz/sA5EFSN8YUZo3/63rjUJARypC02UIn+YyTVjOFHcnuew8GWTysNZt2BpwD5U6na4IUawq1G1R7D9xtBQ97zpn3B8PR0Xhy/Mjl6mZcgXzcJq/V05nyNc2faC6onbKhyddPnvKTrnY4XXDEM+r2eYvUxQvFz3mRyzPu5QBtDdL0KXlFiJEgV5rsyR5U6qxIX7As0ZmS/WUFIq5/HlIH7AS8ek2eCGI6juEfERjZL7DXGN4QOBMB/8uArp7DBR1jUdIiIFQ6tNhqFahYeylht0knVxZB1xhgjR151CUGKqEYLzji/uEtHUPfgVQuDUMyJtqqsE8B70J+yYrkj/dEfA1iAr3PBKhQhOBhu6bHY4gwzuYzKDPzU6h/yInzjx7qqSqhDpIY7KJ+gwq9oVdbEAUnuuX+G2j41MIxMydLbtPDoWC5YLoP6bvJ87y4ldv0cnXGw9t0I/+Zxr3Qydx3ombTLzyV7dQRl/mhzq8n48vRcNDP3RL0sjD3nV7BGXmWzW+vdztbXr7yYBfOYTZ88uJ4dEHR6oW143n+9j3dJRdb//GTEXNR9eTX39QzR7j+tarWF+dxdINI7Qkm7Q/esH9BqF0JnQAAAABJRU5ErkJggg==',
+    rdns: 'network.octra.wallet'
+  });
+
+  function announceProvider(provider) {
+    window.dispatchEvent(new CustomEvent(ANNOUNCE_EVENT, {
+      detail: Object.freeze({ info: PROVIDER_INFO, provider })
+    }));
+  }
+
   // Inject provider ke window
   if (typeof window !== 'undefined') {
-    window.octra = new OctraProvider();
+    const provider = new OctraProvider();
     
-    // Dispatch event untuk notify bahwa provider sudah ready
-    window.dispatchEvent(new Event('octraLoaded'));
-    
-    // Untuk compatibility dengan dApp yang expect ethereum-like interface
-    if (!window.ethereum) {
-      window.ethereum = window.octra;
-    }
-  }
-    
-    // Make the provider globally detectable
-    // Similar to how MetaMask makes window.ethereum available
-    Object.defineProperty(window, 'isOctra', {
-      value: true,
+    // Add extension ID for SDK compatibility
+    Object.defineProperty(provider, 'extensionId', {
+      // Pages only see chrome.runtime when some extension is externally connectable
+      value: (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.id) || 'unknown',
       writable: false,
       configurable: false
     });
     
-    // Add extension ID for SDK compatibility
-    Object.defineProperty(window.octra, 'extensionId', {
-      value: chrome.runtime.id || 'unknown',
+    // Add version info
+    Object.defineProperty(provider, 'version', {
+      value: '1.0.0',
       writable: false,
       configurable: false
     });
     
-    // Add version info
-    Object.defineProperty(window.octra, 'version', {
-      value: '1.0.0',
+    Object.defineProperty(provider, 'info', {
+      value: PROVIDER_INFO,
       writable: false,
       configurable: false
     });
     
+    // Another wallet may already own window.octra. Leave it in place, dApps
+    // can still reach this one through discovery
+    if (!window.octra) {
+      window.octra = provider;
+    }
+    
+    // Untuk compatibility dengan dApp yang expect ethereum-like interface
+    if (!window.ethereum) {
+      window.ethereum = provider;
+    }
+    
+    // Make the provider globally detectable
+    // Similar to how MetaMask makes window.ethereum available
+    if (!Object.prototype.hasOwnProperty.call(window, 'isOctra')) {
+      Object.defineProperty(window, 'isOctra', {
+        value: true,
+        writable: false,
+        configurable: false
+      });
+    }
+    
+    window.addEventListener(REQUEST_EVENT, () => announceProvider(provider));
+    announceProvider(provider);
+    
+    // Dispatch event untuk notify bahwa provider sudah ready
+    window.dispatchEvent(new Event('octraLoaded'));
+    
     // Announce provider availability to any listening scripts
     window.postMessage({
       type: 'OCTRA_EXTENSION_AVAILABLE',
-      extensionId: chrome.runtime.id || 'unknown',
-      version: '1.0.0'
+      extensionId: provider.extensionId,
+      version: provider.version,
+      info: PROVIDER_INFO
     }, '*');
     
     console.log('Octra Wallet Provider injected successfully');
+  }
 })();
\ No newline at end of file
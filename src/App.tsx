@@ -6,8 +6,11 @@ import { ConnectionApproval } from './components/ConnectionApproval';
 import { ThemeProvider } from './components/ThemeProvider';
 import { WalletManager } from './utils/walletManager';
 import { ExtensionStorageManager } from './utils/extensionStorage';
-import { Wallet } from './types/wallet';
+import { reportWalletActivity } from './utils/autoLock';
+import { SessionKeyring } from './utils/sessionKeyring';
+import { Wallet, DAppPermission } from './types/wallet';
 import { Toaster } from '@/components/ui/toaster';
+import { toast } from '@/hooks/use-toast';
 
 function App() {
   const [wallet, setWallet] = useState<Wallet | null>(null);
@@ -25,13 +28,15 @@ function App() {
       const appName = urlParams.get('appName');
       const appIcon = urlParams.get('appIcon');
       const permissions = urlParams.get('permissions');
+      const granted = urlParams.get('granted');
       
       if (origin && permissions) {
         setConnectionRequest({
           origin: decodeURIComponent(origin),
           appName: decodeURIComponent(appName || ''),
           appIcon: decodeURIComponent(appIcon || ''),
-          permissions: JSON.parse(decodeURIComponent(permissions))
+          permissions: JSON.parse(decodeURIComponent(permissions)),
+          grantedPermissions: granted ? JSON.parse(decodeURIComponent(granted)) : undefined
         });
       }
     }
@@ -50,14 +55,13 @@ function App() {
           setWallet(null);
           setWallets([]);
         } else {
-          // If wallet is unlocked, reload wallet data with a small delay
-          // to ensure localStorage is fully updated
-          setTimeout(() => {
-            const storedWallets = localStorage.getItem('wallets');
+          // If wallet is unlocked, reload wallet data from the session keyring with a
+          // small delay to ensure storage is fully updated
+          setTimeout(async () => {
+            const parsedWallets = await SessionKeyring.getPublicWallets();
             const activeWalletId = localStorage.getItem('activeWalletId');
             
-            if (storedWallets) {
-              const parsedWallets = JSON.parse(storedWallets);
+            if (parsedWallets.length > 0) {
               setWallets(parsedWallets);
               
               if (parsedWallets.length > 0) {
@@ -77,31 +81,31 @@ function App() {
       
       // Handle wallet data changes
       if (e.key === 'wallets' && !isLocked) {
-        // Only update if we don't have wallets or if the data actually changed
+        // Stored wallets are public records only; keys come from the session keyring
         if (e.newValue) {
-          const newWallets = JSON.parse(e.newValue);
-          setWallets(newWallets);
-          
-          // Update active wallet if needed
-          const activeWalletId = localStorage.getItem('activeWalletId');
-          if (activeWalletId && newWallets.length > 0) {
-            const foundWallet = newWallets.find((w: Wallet) => w.address === activeWalletId);
-            if (foundWallet) {
-              setWallet(foundWallet);
+          SessionKeyring.getPublicWallets().then(newWallets => {
+            setWallets(newWallets);
+            
+            // Update active wallet if needed
+            const activeWalletId = localStorage.getItem('activeWalletId');
+            if (activeWalletId && newWallets.length > 0) {
+              const foundWallet = newWallets.find((w: Wallet) => w.address === activeWalletId);
+              if (foundWallet) {
+                setWallet(foundWallet);
+              }
+            } else if (newWallets.length > 0 && !wallet) {
+              // If no active wallet is set but we have wallets, set the first one
+              setWallet(newWallets[0]);
             }
-          } else if (newWallets.length > 0 && !wallet) {
-            // If no active wallet is set but we have wallets, set the first one
-            setWallet(newWallets[0]);
-          }
+          });
         }
       }
       
       // Handle active wallet changes
       if (e.key === 'activeWalletId' && !isLocked) {
         const newActiveWalletId = e.newValue;
-        const currentWallets = wallets.length > 0 ? wallets : JSON.parse(localStorage.getItem('wallets') || '[]');
-        if (newActiveWalletId && currentWallets.length > 0) {
-          const foundWallet = currentWallets.find((w: Wallet) => w.address === newActiveWalletId);
+        if (newActiveWalletId && wallets.length > 0) {
+          const foundWallet = wallets.find((w: Wallet) => w.address === newActiveWalletId);
           if (foundWallet) {
             setWallet(foundWallet);
           }
@@ -111,14 +115,55 @@ function App() {
 
     window.addEventListener('storage', handleStorageChange);
     
+    // Locks made by the background worker (auto-lock) only show up in chrome.storage
+    let chromeStorageListener: ((changes: { [key: string]: chrome.storage.StorageChange }) => void) | null = null;
+    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.onChanged) {
+      chromeStorageListener = (changes) => {
+        if (changes.isWalletLocked && changes.isWalletLocked.newValue === 'true' && !isLocked) {
+          localStorage.setItem('isWalletLocked', 'true');
+          localStorage.removeItem('wallets');
+          setIsLocked(true);
+          setWallet(null);
+          setWallets([]);
+        }
+      };
+      
+      chrome.storage.onChanged.addListener(chromeStorageListener);
+    }
+    
     return () => {
       window.removeEventListener('storage', handleStorageChange);
+      if (chromeStorageListener && chrome.storage && chrome.storage.onChanged) {
+        chrome.storage.onChanged.removeListener(chromeStorageListener);
+      }
     };
   }, [isLocked, wallets, wallet]);
 
+  // Keep the background auto-lock timer alive while the user interacts with the wallet
+  useEffect(() => {
+    if (isLocked) return;
+
+    reportWalletActivity();
+    window.addEventListener('pointerdown', reportWalletActivity);
+    window.addEventListener('keydown', reportWalletActivity);
+
+    return () => {
+      window.removeEventListener('pointerdown', reportWalletActivity);
+      window.removeEventListener('keydown', reportWalletActivity);
+    };
+  }, [isLocked]);
+
   useEffect(() => {
     const checkWalletStatus = async () => {
       try {
+        // The background worker may have auto-locked while no page was open
+        if (await WalletManager.isWalletLocked()) {
+          localStorage.setItem('isWalletLocked', 'true');
+          localStorage.removeItem('wallets');
+          setIsLocked(true);
+          return;
+        }
+        
         // Check if wallet is locked
         const walletLocked = localStorage.getItem('isWalletLocked');
         const hasPassword = localStorage.getItem('walletPasswordHash');
@@ -130,11 +175,10 @@ function App() {
         }
         
         // Only load wallets if not locked
-        const storedWallets = localStorage.getItem('wallets');
+        const parsedWallets = await SessionKeyring.getPublicWallets();
         const activeWalletId = localStorage.getItem('activeWalletId');
         
-        if (storedWallets) {
-          const parsedWallets = JSON.parse(storedWallets);
+        if (parsedWallets.length > 0) {
           setWallets(parsedWallets);
           
           // Set active wallet based on stored ID or default to first wallet
@@ -199,75 +243,44 @@ function App() {
     try {
       console.log('📝 App: Adding new wallet:', newWallet.address.slice(0, 8) + '...');
       
-      // CRITICAL: Read current wallets from storage to avoid overwriting
-      const currentWalletsData = await ExtensionStorageManager.get('wallets');
-      let currentWallets: Wallet[] = [];
-      
-      if (currentWalletsData) {
-        try {
-          currentWallets = JSON.parse(currentWalletsData);
-        } catch (error) {
-          console.error('Failed to parse current wallets:', error);
-          currentWallets = wallets; // fallback to state
-        }
-      } else {
-        currentWallets = wallets; // fallback to state
-      }
+      // CRITICAL: Read current wallets from the session keyring to avoid overwriting
+      const currentWallets = await SessionKeyring.getPublicWallets();
       
       // Check if wallet already exists in current data
       const existingWallet = currentWallets.find(w => w.address === newWallet.address);
       if (existingWallet) {
-        // If wallet exists, just switch to it
+        // If wallet exists (e.g. stored by PasswordSetup), just switch to it
+        setWallets(currentWallets);
         setWallet(existingWallet);
         await ExtensionStorageManager.set('activeWalletId', existingWallet.address);
         console.log('ℹ️ App: Wallet already exists, switched to existing wallet');
         return;
       }
       
-      // Add new wallet to current data
-      const updatedWallets = [...currentWallets, newWallet];
+      // Update state immediately for UI responsiveness. UI state only holds the
+      // public record; the keys go straight to the keyring
+      const publicWallet = SessionKeyring.toPublicWallet(newWallet);
+      setWallets([...currentWallets, publicWallet]);
+      setWallet(publicWallet);
       
-      // Update state immediately for UI responsiveness
+      // The keyring keeps the decrypted wallet in the session and encrypts it into the vault
+      const updatedWallets = await SessionKeyring.addWallet(newWallet);
       setWallets(updatedWallets);
-      setWallet(newWallet);
-      
-      // Save to storage using ExtensionStorageManager for consistency
-      await ExtensionStorageManager.set('wallets', JSON.stringify(updatedWallets));
       await ExtensionStorageManager.set('activeWalletId', newWallet.address);
       
-      console.log('✅ App: Wallet added to unencrypted storage. Total wallets:', updatedWallets.length);
-      
-      // CRITICAL: Also save to encrypted storage if password protection is enabled
-      const hasPassword = await ExtensionStorageManager.get('walletPasswordHash');
-      if (hasPassword) {
-        console.log('🔐 App: Password protection enabled, encrypting new wallet...');
-        
-        // Get the current password from user (we need this to encrypt)
-        // For now, we'll add it to encrypted storage but it needs proper encryption
-        const existingEncryptedWallets = JSON.parse(await ExtensionStorageManager.get('encryptedWallets') || '[]');
-        const walletExists = existingEncryptedWallets.some((w: any) => w.address === newWallet.address);
-        
-        if (!walletExists) {
-          // Import the encryption function
-          const { encryptWalletData } = await import('./utils/password');
-          
-          // We need to get the password from somewhere - this is a limitation
-          // For now, we'll store unencrypted but mark it for encryption
-          const newEncryptedWallet = {
-            address: newWallet.address,
-            encryptedData: JSON.stringify(newWallet), // TODO: Proper encryption needed
-            createdAt: Date.now(),
-            needsEncryption: true // Flag to indicate this needs proper encryption during lock/unlock
-          };
-          
-          const updatedEncryptedWallets = [...existingEncryptedWallets, newEncryptedWallet];
-          await ExtensionStorageManager.set('encryptedWallets', JSON.stringify(updatedEncryptedWallets));
-          
-          console.log('📦 App: Added wallet to encrypted storage (needs proper encryption). Total encrypted wallets:', updatedEncryptedWallets.length);
-        }
-      }
+      console.log('✅ App: Wallet added. Total wallets:', updatedWallets.length);
     } catch (error) {
       console.error('❌ App: Failed to add wallet:', error);
+      // The keyring refused the wallet, so drop it from the UI again
+      const storedWallets = await SessionKeyring.getPublicWallets();
+      const activeWalletId = localStorage.getItem('activeWalletId');
+      setWallets(storedWallets);
+      setWallet(storedWallets.find(w => w.address === activeWalletId) || storedWallets[0] || null);
+      toast({
+        title: "Wallet Not Added",
+        description: error instanceof Error ? error.message : "Failed to save wallet",
+        variant: "destructive",
+      });
     }
   };
 
@@ -279,7 +292,9 @@ function App() {
   const removeWallet = (walletToRemove: Wallet) => {
     const updatedWallets = wallets.filter(w => w.address !== walletToRemove.address);
     setWallets(updatedWallets);
-    localStorage.setItem('wallets', JSON.stringify(updatedWallets));
+    SessionKeyring.removeWallet(walletToRemove.address).catch(error => {
+      console.error('Failed to remove wallet:', error);
+    });
     
     // Only update wallet state if we're removing the currently active wallet
     // and there are no remaining wallets
@@ -310,13 +325,14 @@ function App() {
           <ConnectionApproval 
             request={connectionRequest}
             wallets={wallets}
-            onApprove={(approved: boolean, selectedAddress?: string) => {
+            onApprove={(approved: boolean, selectedAddress?: string, permissions?: DAppPermission[]) => {
               // Send response to background script
               chrome.runtime.sendMessage({
                 type: 'CONNECTION_RESULT',
                 origin: connectionRequest.origin,
                 approved,
-                address: selectedAddress
+                address: selectedAddress,
+                permissions
               });
               
               // Close the tab
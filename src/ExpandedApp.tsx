@@ -6,8 +6,10 @@ import { DAppRequestHandler } from './components/DAppRequestHandler';
 import { ThemeProvider } from './components/ThemeProvider';
 import { Wallet } from './types/wallet';
 import { Toaster } from '@/components/ui/toaster';
+import { toast } from '@/hooks/use-toast';
 import { ExtensionStorageManager } from './utils/extensionStorage';
 import { WalletManager } from './utils/walletManager';
+import { SessionKeyring } from './utils/sessionKeyring';
 
 function ExpandedApp() {
   const [wallet, setWallet] = useState<Wallet | null>(null);
@@ -20,7 +22,7 @@ function ExpandedApp() {
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const action = urlParams.get('action');
-    setIsDAppRequest(action === 'connect' || action === 'transaction' || action === 'contract');
+    setIsDAppRequest(action === 'connect' || action === 'transaction' || action === 'contract' || action === 'sign' || action === 'private_transfer');
   }, []);
 
   // ONLY load data once on mount - NO dependencies to prevent loops
@@ -41,36 +43,21 @@ function ExpandedApp() {
           return;
         }
 
-        // Only load wallets if not locked
-        const [storedWallets, activeWalletId] = await Promise.all([
-          ExtensionStorageManager.get('wallets'),
+        // Only load wallets if not locked - decrypted wallets come from the session keyring
+        const [loadedWallets, activeWalletId] = await Promise.all([
+          SessionKeyring.getPublicWallets(),
           ExtensionStorageManager.get('activeWalletId')
         ]);
 
-        let loadedWallets: Wallet[] = [];
-        if (storedWallets) {
-          try {
-            const parsedWallets = typeof storedWallets === 'string' 
-              ? JSON.parse(storedWallets) 
-              : storedWallets;
-            
-            if (Array.isArray(parsedWallets)) {
-              loadedWallets = parsedWallets;
-              
-              if (loadedWallets.length > 0) {
-                let activeWallet = loadedWallets[0];
-                if (activeWalletId) {
-                  const foundWallet = loadedWallets.find((w: Wallet) => w.address === activeWalletId);
-                  if (foundWallet) {
-                    activeWallet = foundWallet;
-                  }
-                }
-                setWallet(activeWallet);
-              }
+        if (loadedWallets.length > 0) {
+          let activeWallet = loadedWallets[0];
+          if (activeWalletId) {
+            const foundWallet = loadedWallets.find((w: Wallet) => w.address === activeWalletId);
+            if (foundWallet) {
+              activeWallet = foundWallet;
             }
-          } catch (error) {
-            console.error('Failed to parse wallets:', error);
           }
+          setWallet(activeWallet);
         }
         
         setWallets(loadedWallets);
@@ -127,15 +114,26 @@ function ExpandedApp() {
   };
 
   const addWallet = async (newWallet: Wallet) => {
-    const updatedWallets = [...wallets, newWallet];
-    setWallets(updatedWallets);
-    setWallet(newWallet);
+    // UI state only holds the public record; the keys go straight to the keyring
+    const publicWallet = SessionKeyring.toPublicWallet(newWallet);
+    setWallets(current => current.some(w => w.address === newWallet.address) ? current : [...current, publicWallet]);
+    setWallet(publicWallet);
     
     try {
-      await ExtensionStorageManager.set('wallets', JSON.stringify(updatedWallets));
+      setWallets(await SessionKeyring.addWallet(newWallet));
       await ExtensionStorageManager.set('activeWalletId', newWallet.address);
     } catch (error) {
       console.error('Failed to save wallet:', error);
+      // The keyring refused the wallet, so drop it from the UI again
+      const storedWallets = await SessionKeyring.getPublicWallets();
+      const activeWalletId = localStorage.getItem('activeWalletId');
+      setWallets(storedWallets);
+      setWallet(storedWallets.find(w => w.address === activeWalletId) || storedWallets[0] || null);
+      toast({
+        title: "Wallet Not Added",
+        description: error instanceof Error ? error.message : "Failed to save wallet",
+        variant: "destructive",
+      });
     }
   };
 
@@ -158,7 +156,7 @@ function ExpandedApp() {
     }
     
     try {
-      await ExtensionStorageManager.set('wallets', JSON.stringify(updatedWallets));
+      await SessionKeyring.removeWallet(walletToRemove.address);
       if (wallet?.address === walletToRemove.address && updatedWallets.length === 0) {
         await ExtensionStorageManager.remove('activeWalletId');
       }
@@ -5,10 +5,13 @@ import { UnlockWallet } from './components/UnlockWallet';
 import { DAppConnection } from './components/DAppConnection';
 import { DAppRequestHandler } from './components/DAppRequestHandler';
 import { ThemeProvider } from './components/ThemeProvider';
-import { Wallet, DAppConnectionRequest } from './types/wallet';
+import { Wallet, DAppConnectionRequest, DAppSignMessageRequest, SignedMessage, SignedTypedData, DAppPermission } from './types/wallet';
 import { Toaster } from '@/components/ui/toaster';
+import { toast } from '@/hooks/use-toast';
 import { ExtensionStorageManager } from './utils/extensionStorage';
 import { WalletManager } from './utils/walletManager';
+import { reportWalletActivity } from './utils/autoLock';
+import { SessionKeyring } from './utils/sessionKeyring';
 
 function PopupApp() {
   const [wallet, setWallet] = useState<Wallet | null>(null);
@@ -18,6 +21,7 @@ function PopupApp() {
   const [isPopupMode, setIsPopupMode] = useState(true);
   const [connectionRequest, setConnectionRequest] = useState<DAppConnectionRequest | null>(null);
   const [contractRequest, setContractRequest] = useState<any>(null);
+  const [signRequest, setSignRequest] = useState<DAppSignMessageRequest | null>(null);
 
   // ONLY load data once on mount - NO dependencies to prevent loops
   useEffect(() => {
@@ -59,6 +63,20 @@ function PopupApp() {
           }
         }
         
+        // Check for pending sign message request
+        const pendingSignRequest = await ExtensionStorageManager.get('pendingSignRequest');
+        if (pendingSignRequest) {
+          try {
+            const signReq = typeof pendingSignRequest === 'string' 
+              ? JSON.parse(pendingSignRequest) 
+              : pendingSignRequest;
+            setSignRequest(signReq);
+          } catch (error) {
+            console.error('Failed to parse sign request:', error);
+            await ExtensionStorageManager.remove('pendingSignRequest');
+          }
+        }
+        
         // Use WalletManager to check if should show unlock screen
         const shouldShowUnlock = await WalletManager.shouldShowUnlockScreen();
         
@@ -71,39 +89,24 @@ function PopupApp() {
           return;
         }
         
-        // Only load wallets if not locked
-        const [storedWallets, activeWalletId] = await Promise.all([
-          ExtensionStorageManager.get('wallets'),
+        // Only load wallets if not locked - decrypted wallets come from the session keyring
+        const [loadedWallets, activeWalletId] = await Promise.all([
+          SessionKeyring.getPublicWallets(),
           ExtensionStorageManager.get('activeWalletId')
         ]);
         
-        let loadedWallets: Wallet[] = [];
         let activeWallet: Wallet | null = null;
+        console.log('✅ PopupApp: Loaded wallets:', loadedWallets.length);
         
-        if (storedWallets) {
-          try {
-            const parsedWallets = typeof storedWallets === 'string' 
-              ? JSON.parse(storedWallets) 
-              : storedWallets;
-            
-            if (Array.isArray(parsedWallets)) {
-              loadedWallets = parsedWallets;
-              console.log('✅ PopupApp: Loaded wallets:', loadedWallets.length);
-              
-              if (loadedWallets.length > 0) {
-                activeWallet = loadedWallets[0];
-                if (activeWalletId) {
-                  const foundWallet = loadedWallets.find((w: Wallet) => w.address === activeWalletId);
-                  if (foundWallet) {
-                    activeWallet = foundWallet;
-                  }
-                }
-                console.log('🎯 PopupApp: Selected active wallet:', activeWallet?.address);
-              }
+        if (loadedWallets.length > 0) {
+          activeWallet = loadedWallets[0];
+          if (activeWalletId) {
+            const foundWallet = loadedWallets.find((w: Wallet) => w.address === activeWalletId);
+            if (foundWallet) {
+              activeWallet = foundWallet;
             }
-          } catch (error) {
-            console.error('Failed to parse wallets:', error);
           }
+          console.log('🎯 PopupApp: Selected active wallet:', activeWallet?.address);
         }
         
         // Set states
@@ -130,8 +133,8 @@ function PopupApp() {
       
       // Handle wallet data changes
       if (e.key === 'wallets' && e.newValue) {
-        try {
-          const newWallets = JSON.parse(e.newValue);
+        // Stored wallets are public records only; keys come from the session keyring
+        SessionKeyring.getPublicWallets().then(newWallets => {
           console.log('📦 PopupApp: Storage change detected - wallets updated:', newWallets.length);
           setWallets(newWallets);
           
@@ -145,9 +148,9 @@ function PopupApp() {
           } else if (newWallets.length > 0 && !wallet) {
             setWallet(newWallets[0]);
           }
-        } catch (error) {
-          console.error('Failed to parse wallets from storage change:', error);
-        }
+        }).catch(error => {
+          console.error('Failed to load wallets after storage change:', error);
+        });
       }
       
       // Handle active wallet changes
@@ -182,14 +185,13 @@ function PopupApp() {
         
         // Handle wallets change
         if (changes.wallets && changes.wallets.newValue) {
-          try {
-            const newWallets = JSON.parse(changes.wallets.newValue);
+          // Update localStorage for consistency
+          localStorage.setItem('wallets', changes.wallets.newValue);
+          
+          SessionKeyring.getPublicWallets().then(newWallets => {
             console.log('🔧 PopupApp: Chrome storage change - wallets updated:', newWallets.length);
             setWallets(newWallets);
             
-            // Update localStorage for consistency
-            localStorage.setItem('wallets', changes.wallets.newValue);
-            
             // Update active wallet
             const activeWalletId = localStorage.getItem('activeWalletId');
             if (activeWalletId && newWallets.length > 0) {
@@ -200,9 +202,9 @@ function PopupApp() {
             } else if (newWallets.length > 0 && !wallet) {
               setWallet(newWallets[0]);
             }
-          } catch (error) {
-            console.error('Failed to parse wallets from chrome storage change:', error);
-          }
+          }).catch(error => {
+            console.error('Failed to load wallets after chrome storage change:', error);
+          });
         }
         
         // Handle activeWalletId change
@@ -238,6 +240,20 @@ function PopupApp() {
     };
   }, [isLocked, wallets, wallet]);
 
+  // Keep the background auto-lock timer alive while the user interacts with the wallet
+  useEffect(() => {
+    if (isLocked) return;
+
+    reportWalletActivity();
+    window.addEventListener('pointerdown', reportWalletActivity);
+    window.addEventListener('keydown', reportWalletActivity);
+
+    return () => {
+      window.removeEventListener('pointerdown', reportWalletActivity);
+      window.removeEventListener('keydown', reportWalletActivity);
+    };
+  }, [isLocked]);
+
   // Add keyboard navigation for popup mode
   useEffect(() => {
     if (isPopupMode) {
@@ -355,6 +371,21 @@ function PopupApp() {
             }
           }
           
+          // Check for pending sign message request
+          const pendingSignRequest = await ExtensionStorageManager.get('pendingSignRequest');
+          if (pendingSignRequest) {
+            try {
+              const signReq = typeof pendingSignRequest === 'string' 
+                ? JSON.parse(pendingSignRequest) 
+                : pendingSignRequest;
+              console.log('🔗 PopupApp: Found pending sign request, continuing flow for:', signReq.origin);
+              setSignRequest(signReq);
+            } catch (error) {
+              console.error('Failed to parse pending sign request after unlock:', error);
+              await ExtensionStorageManager.remove('pendingSignRequest');
+            }
+          }
+          
           console.log('✅ PopupApp: Unlock handling completed successfully');
         } catch (error) {
           console.error('❌ PopupApp: Error in async unlock handler:', error);
@@ -370,15 +401,26 @@ function PopupApp() {
   };
 
   const addWallet = async (newWallet: Wallet) => {
-    const updatedWallets = [...wallets, newWallet];
-    setWallets(updatedWallets);
-    setWallet(newWallet);
+    // UI state only holds the public record; the keys go straight to the keyring
+    const publicWallet = SessionKeyring.toPublicWallet(newWallet);
+    setWallets(current => current.some(w => w.address === newWallet.address) ? current : [...current, publicWallet]);
+    setWallet(publicWallet);
     
     try {
-      await ExtensionStorageManager.set('wallets', JSON.stringify(updatedWallets));
+      setWallets(await SessionKeyring.addWallet(newWallet));
       await ExtensionStorageManager.set('activeWalletId', newWallet.address);
     } catch (error) {
       console.error('Failed to save wallet:', error);
+      // The keyring refused the wallet, so drop it from the UI again
+      const storedWallets = await SessionKeyring.getPublicWallets();
+      const activeWalletId = localStorage.getItem('activeWalletId');
+      setWallets(storedWallets);
+      setWallet(storedWallets.find(w => w.address === activeWalletId) || storedWallets[0] || null);
+      toast({
+        title: "Wallet Not Added",
+        description: error instanceof Error ? error.message : "Failed to save wallet",
+        variant: "destructive",
+      });
     }
   };
 
@@ -401,7 +443,7 @@ function PopupApp() {
     }
     
     try {
-      await ExtensionStorageManager.set('wallets', JSON.stringify(updatedWallets));
+      await SessionKeyring.removeWallet(walletToRemove.address);
       if (wallet?.address === walletToRemove.address && updatedWallets.length === 0) {
         await ExtensionStorageManager.remove('activeWalletId');
       }
@@ -434,7 +476,7 @@ function PopupApp() {
     }
   };
 
-  const handleConnectionApprove = async (selectedWallet: Wallet) => {
+  const handleConnectionApprove = async (selectedWallet: Wallet, permissions: DAppPermission[]) => {
     if (!connectionRequest) return;
     
     // Send approval message to background script
@@ -442,7 +484,8 @@ function PopupApp() {
       type: 'CONNECTION_RESULT',
       origin: connectionRequest.origin,
       approved: true,
-      address: selectedWallet.address
+      address: selectedWallet.address,
+      permissions
     });
     
     // Clear pending request and close popup
@@ -497,6 +540,38 @@ function PopupApp() {
     window.close();
   };
 
+  const handleSignApprove = async (result: SignedMessage | SignedTypedData) => {
+    if (!signRequest) return;
+    
+    // Send signature back to background script
+    chrome.runtime.sendMessage({
+      type: 'SIGN_RESULT',
+      origin: signRequest.origin,
+      approved: true,
+      result: result
+    });
+    
+    // Clear pending request and close popup
+    await ExtensionStorageManager.remove('pendingSignRequest');
+    window.close();
+  };
+
+  const handleSignReject = async (error?: string) => {
+    if (!signRequest) return;
+    
+    // Send rejection response
+    chrome.runtime.sendMessage({
+      type: 'SIGN_RESULT',
+      origin: signRequest.origin,
+      approved: false,
+      error: error
+    });
+    
+    // Clear pending request and close popup
+    await ExtensionStorageManager.remove('pendingSignRequest');
+    window.close();
+  };
+
   if (isLoading) {
     return (
       <ThemeProvider defaultTheme="dark" storageKey="octra-wallet-theme">
@@ -572,6 +647,26 @@ function PopupApp() {
     );
   }
 
+  // Handle sign message request
+  if (signRequest) {
+    console.log('🔗 PopupApp: Showing sign message request screen');
+    return (
+      <ThemeProvider defaultTheme="dark" storageKey="octra-wallet-theme">
+        <div className="w-[400px] h-[600px] bg-background popup-view">
+          <div className="popup-container h-full overflow-y-auto">
+            <DAppRequestHandler 
+              wallets={wallets}
+              signRequest={signRequest}
+              onApprove={handleSignApprove}
+              onReject={handleSignReject}
+            />
+          </div>
+          <Toaster />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   // Show welcome screen if no wallets
   if (wallets.length === 0) {
     console.log('📝 PopupApp: No wallets found, showing welcome screen');
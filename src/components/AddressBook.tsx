@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { BookUser, Plus, Pencil, Trash2, Search, Copy } from 'lucide-react';
+import { AddressBookEntry } from '../types/wallet';
+import {
+  AddressBookManager,
+  searchAddressBook,
+  parseTags,
+  shortenAddress,
+  MAX_LABEL_LENGTH,
+  MAX_NOTE_LENGTH
+} from '../utils/addressBook';
+import { isValidOctraAddress } from '../utils/wallet';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_FORM = { address: '', label: '', note: '', tags: '' };
+
+export function AddressBook() {
+  const { entries } = useAddressBook();
+  const [query, setQuery] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  // Address of the entry being edited, null while adding a new one
+  const [editingAddress, setEditingAddress] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const visibleEntries = searchAddressBook(entries, query);
+  const addressInvalid = formData.address.trim() !== '' && !isValidOctraAddress(formData.address);
+
+  const openForm = (entry?: AddressBookEntry) => {
+    setEditingAddress(entry?.address ?? null);
+    setFormData(entry
+      ? { address: entry.address, label: entry.label, note: entry.note || '', tags: (entry.tags || []).join(', ') }
+      : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingAddress(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const entry = await AddressBookManager.saveEntry({
+        address: formData.address,
+        label: formData.label,
+        note: formData.note,
+        tags: parseTags(formData.tags)
+      }, editingAddress ?? undefined);
+
+      toast({
+        title: editingAddress ? "Contact Updated" : "Contact Added",
+        description: `${entry.label} saved to your address book`,
+      });
+      closeForm();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save contact",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: AddressBookEntry) => {
+    try {
+      await AddressBookManager.removeEntry(entry.address);
+      toast({
+        title: "Contact Removed",
+        description: `${entry.label} removed from your address book`,
+      });
+    } catch (error) {
+      console.error('Failed to remove contact:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove contact",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyAddress = async (address: string) => {
+    try {
+      await navigator.clipboard.writeText(address);
+      toast({
+        title: "Copied!",
+        description: "Address copied to clipboard",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (showForm) {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="contact-label">Label</Label>
+          <Input
+            id="contact-label"
+            placeholder="e.g., Alice"
+            value={formData.label}
+            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+            maxLength={MAX_LABEL_LENGTH}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="contact-address">Address</Label>
+          <Input
+            id="contact-address"
+            placeholder="oct..."
+            value={formData.address}
+            onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+            className="font-mono"
+          />
+          {addressInvalid && (
+            <p className="text-sm text-red-600">Not a valid Octra address</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="contact-tags">Tags (optional)</Label>
+          <Input
+            id="contact-tags"
+            placeholder="e.g., team, exchange"
+            value={formData.tags}
+            onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="contact-note">Note (optional)</Label>
+          <Textarea
+            id="contact-note"
+            placeholder="Anything to remember about this address"
+            value={formData.note}
+            onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+            maxLength={MAX_NOTE_LENGTH}
+            rows={3}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={closeForm} className="flex-1" disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="flex-1"
+            disabled={isSaving || !formData.label.trim() || !formData.address.trim() || addressInvalid}
+          >
+            {isSaving ? 'Saving...' : editingAddress ? 'Save Changes' : 'Add Contact'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by label, address or tag"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <BookUser className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No saved contacts yet</p>
+          <p className="text-xs mt-1">Saved contacts show up as suggestions on every send screen</p>
+        </div>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-center py-6 text-sm text-muted-foreground">No contacts match "{query}"</p>
+      ) : (
+        <div className="space-y-2">
+          {visibleEntries.map(entry => (
+            <div key={entry.address} className="p-3 border rounded-lg space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.label}</div>
+                  <div className="text-xs font-mono text-muted-foreground">{shortenAddress(entry.address)}</div>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => copyAddress(entry.address)}>
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openForm(entry)}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(entry)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {entry.tags && entry.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {entry.tags.map(tag => (
+                    <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                  ))}
+                </div>
+              )}
+              {entry.note && (
+                <p className="text-xs text-muted-foreground break-words">{entry.note}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {entry.lastUsedAt ? `Last used ${new Date(entry.lastUsedAt).toLocaleDateString()}` : 'Never used'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
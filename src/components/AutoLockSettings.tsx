@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Timer } from 'lucide-react';
+import { AUTO_LOCK_OPTIONS, getAutoLockMinutes, setAutoLockMinutes } from '../utils/autoLock';
+import { useToast } from '@/hooks/use-toast';
+
+export function AutoLockSettings() {
+  const [minutes, setMinutes] = useState<string>('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getAutoLockMinutes().then(value => setMinutes(String(value)));
+  }, []);
+
+  const handleChange = async (value: string) => {
+    setMinutes(value);
+    try {
+      await setAutoLockMinutes(parseInt(value, 10));
+      const option = AUTO_LOCK_OPTIONS.find(o => String(o.minutes) === value);
+      toast({
+        title: "Auto-lock Updated",
+        description: value === '0'
+          ? "Your wallet will stay unlocked until you lock it"
+          : `Your wallet will lock after ${option?.label} of inactivity`,
+      });
+    } catch (error) {
+      console.error('Failed to save auto-lock setting:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save auto-lock setting",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="auto-lock" className="flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          Lock after inactivity
+        </Label>
+        <Select value={minutes} onValueChange={handleChange}>
+          <SelectTrigger id="auto-lock">
+            <SelectValue placeholder="Select timeout" />
+          </SelectTrigger>
+          <SelectContent>
+            {AUTO_LOCK_OPTIONS.map(option => (
+              <SelectItem key={option.minutes} value={String(option.minutes)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        The timer restarts whenever you use the wallet. Locking clears decrypted keys from storage until you enter your password again.
+      </p>
+    </div>
+  );
+}
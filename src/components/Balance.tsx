@@ -6,18 +6,22 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Copy, RefreshCw, Wallet, Eye, EyeOff, Lock, Unlock, ArrowUpDown, PieChart } from 'lucide-react';
 import { Wallet as WalletType } from '../types/wallet';
-import { fetchBalance, fetchEncryptedBalance, encryptBalance, decryptBalance, getPendingPrivateTransfers } from '../utils/api';
+import { fetchBalance } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
 import { useToast } from '@/hooks/use-toast';
 import { EncryptBalanceDialog } from './EncryptBalanceDialog';
 import { DecryptBalanceDialog } from './DecryptBalanceDialog';
 import { ExportPrivateKeys } from './ExportPrivateKeys';
+import { WatchOnlyNotice } from './WatchOnlyNotice';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { OctAmount, ZERO_OCT, octFromMicroUnits, octToNumber, formatOct } from '../utils/octAmount';
 
 interface BalanceProps {
   wallet: WalletType | null;
-  balance: number | null;
+  balance: OctAmount | null;
   encryptedBalance?: any;
   onEncryptedBalanceUpdate?: (encryptedBalance: any) => void;
-  onBalanceUpdate: (balance: number) => void;
+  onBalanceUpdate: (balance: OctAmount) => void;
   isLoading?: boolean;
 }
 
@@ -29,6 +33,7 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
   const [showEncryptDialog, setShowEncryptDialog] = useState(false);
   const [showDecryptDialog, setShowDecryptDialog] = useState(false);
   const { toast } = useToast();
+  const isWatchOnly = isWatchOnlyWallet(wallet);
 
   // Use prop encrypted balance if provided, otherwise use local state
   const encryptedBalance = propEncryptedBalance || localEncryptedBalance;
@@ -44,35 +49,35 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
       // Handle balance response (0 is valid for new addresses)
       onBalanceUpdate(balanceData.balance);
       
-      // Fetch encrypted balance
+      // Fetch encrypted balance (watch-only wallets have no key to view it with)
       try {
-        const encData = await fetchEncryptedBalance(wallet.address, wallet.privateKey);
+        const encData = isWatchOnly ? null : await SessionKeyring.fetchEncryptedBalance(wallet.address);
         if (encData) {
           setEncryptedBalance(encData);
         } else {
           // Reset encrypted balance to default values when fetch fails
           setEncryptedBalance({
-            public: balanceData.balance,
-            public_raw: Math.floor(balanceData.balance * 1_000_000),
+            public: octToNumber(balanceData.balance),
+            public_raw: Number(balanceData.balance),
             encrypted: 0,
             encrypted_raw: 0,
-            total: balanceData.balance
+            total: octToNumber(balanceData.balance)
           });
         }
       } catch (encError) {
         console.error('Failed to fetch encrypted balance:', encError);
         setEncryptedBalance({
-          public: balanceData.balance,
-          public_raw: Math.floor(balanceData.balance * 1_000_000),
+          public: octToNumber(balanceData.balance),
+          public_raw: Number(balanceData.balance),
           encrypted: 0,
           encrypted_raw: 0,
-          total: balanceData.balance
+          total: octToNumber(balanceData.balance)
         });
       }
       
       // Fetch pending private transfers
       try {
-        const pending = await getPendingPrivateTransfers(wallet.address, wallet.privateKey);
+        const pending = isWatchOnly ? [] : await SessionKeyring.getPendingPrivateTransfers(wallet.address);
         setPendingTransfers(pending);
       } catch (error) {
         console.error('Failed to fetch pending transfers:', error);
@@ -97,28 +102,39 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
 
   // Initial fetch of encrypted balance
   useEffect(() => {
-    if (wallet) {
+    if (wallet && isWatchOnlyWallet(wallet)) {
+      fetchBalance(wallet.address)
+        .then(balanceData => setEncryptedBalance({
+          public: octToNumber(balanceData.balance),
+          public_raw: Number(balanceData.balance),
+          encrypted: 0,
+          encrypted_raw: 0,
+          total: octToNumber(balanceData.balance)
+        }))
+        .catch(error => console.error('Failed to fetch balance on mount:', error));
+      setPendingTransfers([]);
+    } else if (wallet) {
       // Fetch balance first to check RPC connectivity
       fetchBalance(wallet.address)
         .then(balanceData => {
           // Fetch encrypted balance
-          return fetchEncryptedBalance(wallet.address, wallet.privateKey)
+          return SessionKeyring.fetchEncryptedBalance(wallet.address)
             .then(encData => {
               if (encData) {
                 setEncryptedBalance(encData);
               } else {
                 setEncryptedBalance({
-                  public: balanceData.balance,
-                  public_raw: Math.floor(balanceData.balance * 1_000_000),
+                  public: octToNumber(balanceData.balance),
+                  public_raw: Number(balanceData.balance),
                   encrypted: 0,
                   encrypted_raw: 0,
-                  total: balanceData.balance
+                  total: octToNumber(balanceData.balance)
                 });
               }
             })
             .then(() => {
               // Fetch pending transfers
-              return getPendingPrivateTransfers(wallet.address, wallet.privateKey)
+              return SessionKeyring.getPendingPrivateTransfers(wallet.address)
                 .then(setPendingTransfers)
                 .catch(error => {
                   console.error('Failed to fetch pending transfers on mount:', error);
@@ -212,7 +228,7 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
               ) : (
                 <div className="flex items-center gap-x-2">
                   <div className="text-2xl font-bold text-blue-600">
-                    {balance !== null ? `${balance.toFixed(8)}` : '0.00000000'}
+                    {formatOct(balance ?? ZERO_OCT)}
                   </div>
                   <Badge variant="secondary" className="text-xs font-bold mt-0.5">
                     OCT
@@ -232,7 +248,7 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
               ) : (
                 <div className="flex items-center gap-x-2">
                   <div className="text-2xl font-bold text-yellow-600">
-                    {encryptedBalance ? `${encryptedBalance.encrypted.toFixed(8)}` : '0.00000000'}
+                    {formatOct(encryptedBalance ? octFromMicroUnits(encryptedBalance.encrypted_raw) : 0n)}
                   </div>
                   <Badge variant="secondary" className="text-xs font-bold mt-0.5">
                     OCT
@@ -248,7 +264,7 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-muted-foreground">Total Balance</span>
                 <div className="text-lg font-bold text-green-600">
-                  {encryptedBalance.total.toFixed(8)} OCT
+                  {formatOct(octFromMicroUnits(encryptedBalance.public_raw) + octFromMicroUnits(encryptedBalance.encrypted_raw))} OCT
                 </div>
               </div>
             </div>
@@ -267,40 +283,42 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
           )}
 
           {/* Balance Actions */}
-          <div className="flex flex-wrap justify-center gap-2 pt-5 border-t">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowEncryptDialog(true)}
-              disabled={!balance || balance <= 1}
-              className="flex items-center gap-2"
-            >
-              <Lock className="h-4 w-4" />
-              Encrypt Balance
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowDecryptDialog(true)}
-              disabled={!encryptedBalance || encryptedBalance.encrypted <= 0}
-              className="flex items-center gap-2"
-            >
-              <Unlock className="h-4 w-4" />
-              Decrypt Balance
-            </Button>
-          </div>
+          {!isWatchOnly && (
+            <div className="flex flex-wrap justify-center gap-2 pt-5 border-t">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEncryptDialog(true)}
+                disabled={!balance || balance <= 1}
+                className="flex items-center gap-2"
+              >
+                <Lock className="h-4 w-4" />
+                Encrypt Balance
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowDecryptDialog(true)}
+                disabled={!encryptedBalance || encryptedBalance.encrypted <= 0}
+                className="flex items-center gap-2"
+              >
+                <Unlock className="h-4 w-4" />
+                Decrypt Balance
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Export Private Keys */}
-      <ExportPrivateKeys wallet={wallet} />
+      {isWatchOnly ? <WatchOnlyNotice /> : <ExportPrivateKeys wallet={wallet} />}
 
       {/* Dialogs */}
       <EncryptBalanceDialog
         open={showEncryptDialog}
         onOpenChange={setShowEncryptDialog}
         wallet={wallet}
-        publicBalance={balance || 0}
+        publicBalance={balance ?? ZERO_OCT}
         onSuccess={handleEncryptSuccess}
       />
 
@@ -308,7 +326,7 @@ export function Balance({ wallet, balance, encryptedBalance: propEncryptedBalanc
         open={showDecryptDialog}
         onOpenChange={setShowDecryptDialog}
         wallet={wallet}
-        encryptedBalance={encryptedBalance?.encrypted || 0}
+        encryptedBalance={encryptedBalance ? octFromMicroUnits(encryptedBalance.encrypted_raw) : ZERO_OCT}
         onSuccess={handleDecryptSuccess}
       />
     </div>
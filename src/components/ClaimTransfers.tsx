@@ -6,8 +6,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Gift, RefreshCw, Wallet as WalletIcon, CheckCircle, AlertTriangle, Loader2, Package } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { getPendingPrivateTransfers, claimPrivateTransfer, fetchEncryptedBalance } from '../utils/api';
-import { deriveSharedSecretForClaim, decryptPrivateAmount } from '../utils/crypto';
+import { decryptPrivateAmount } from '../utils/crypto';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { ZERO_OCT, tryParseOct, formatOct } from '../utils/octAmount';
 import { useToast } from '@/hooks/use-toast';
 
 function julianToDate(jd: number): Date {
@@ -33,7 +34,7 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
     
     setIsLoading(true);
     try {
-      const pendingTransfers = await getPendingPrivateTransfers(wallet.address, wallet.privateKey);
+      const pendingTransfers = await SessionKeyring.getPendingPrivateTransfers(wallet.address);
       
       // Decrypt amounts for display
       const transfersWithAmounts = await Promise.all(
@@ -42,7 +43,7 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
           
           if (transfer.encrypted_data && transfer.ephemeral_key) {
             try {
-              const sharedSecret = await deriveSharedSecretForClaim(wallet.privateKey, transfer.ephemeral_key);
+              const sharedSecret = await SessionKeyring.deriveSharedSecretForClaim(wallet.address, transfer.ephemeral_key);
               const amount = await decryptPrivateAmount(transfer.encrypted_data, sharedSecret);
               if (amount !== null) {
                 decryptedAmount = amount / 1_000_000; // Convert from micro units
@@ -91,7 +92,7 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
     setClaimingId(transferId);
     
     try {
-      const result = await claimPrivateTransfer(wallet.address, wallet.privateKey, transferId);
+      const result = await SessionKeyring.claimPrivateTransfer(wallet.address, transferId);
       
       if (result.success) {
         toast({
@@ -130,18 +131,18 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
     
     try {
       let successCount = 0;
-      let totalAmount = 0;
+      let totalAmount = ZERO_OCT;
       const errors: string[] = [];
       
       // Process transfers sequentially to avoid overwhelming the server
       for (const transfer of transfers) {
         try {
-          const result = await claimPrivateTransfer(wallet.address, wallet.privateKey, transfer.id);
+          const result = await SessionKeyring.claimPrivateTransfer(wallet.address, transfer.id);
           
           if (result.success) {
             successCount++;
             if (result.amount) {
-              totalAmount += parseFloat(result.amount);
+              totalAmount += tryParseOct(result.amount) ?? ZERO_OCT;
             }
           } else {
             errors.push(`Transfer ${transfer.id}: ${result.error || 'Unknown error'}`);
@@ -158,7 +159,7 @@ export function ClaimTransfers({ wallet, onTransactionSuccess }: ClaimTransfersP
       if (successCount > 0) {
         toast({
           title: "Claim All Completed!",
-          description: `Successfully claimed ${successCount} out of ${transfers.length} transfers${totalAmount > 0 ? ` (Total: ${totalAmount.toFixed(8)} OCT)` : ''}`,
+          description: `Successfully claimed ${successCount} out of ${transfers.length} transfers${totalAmount > ZERO_OCT ? ` (Total: ${formatOct(totalAmount)} OCT)` : ''}`,
         });
         
         // Refresh transfers list
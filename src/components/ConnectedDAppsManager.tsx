@@ -14,15 +14,16 @@ import {
   Trash2, 
   ExternalLink, 
   Shield, 
-  Eye, 
-  Send, 
   RefreshCw,
   Settings,
   Unplug,
-  Users
+  Users,
+  X
 } from 'lucide-react';
-import { Wallet, ConnectedDApp } from '../types/wallet';
+import { Wallet, ConnectedDApp, DAppPermission } from '../types/wallet';
 import { useToast } from '@/hooks/use-toast';
+import { DAPP_PERMISSIONS, normalizePermissions, isRequiredPermission, getConnectedDApps, saveConnectedDApps } from '../utils/dappPermissions';
+import { DAppPermissionIcon } from './DAppPermissionIcon';
 
 interface ConnectedDAppsManagerProps {
   wallets: Wallet[];
@@ -40,8 +41,8 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
     loadConnectedDApps();
   }, []);
 
-  const loadConnectedDApps = () => {
-    const connections = JSON.parse(localStorage.getItem('connectedDApps') || '[]');
+  const loadConnectedDApps = async () => {
+    const connections = await getConnectedDApps();
     
     // Remove duplicates based on origin
     const uniqueConnections = connections.reduce((acc: ConnectedDApp[], current: ConnectedDApp) => {
@@ -57,22 +58,31 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
       return acc;
     }, []);
     
-    // Save cleaned connections back to localStorage
+    // Save cleaned connections back
     if (uniqueConnections.length !== connections.length) {
-      localStorage.setItem('connectedDApps', JSON.stringify(uniqueConnections));
+      await saveConnectedDApps(uniqueConnections);
     }
     
     setConnectedDApps(uniqueConnections);
   };
 
-  const saveConnectedDApps = (updatedDApps: ConnectedDApp[]) => {
-    localStorage.setItem('connectedDApps', JSON.stringify(updatedDApps));
+  // The background script enforces connections from this same storage and
+  // notifies the affected dApps of wallet changes and disconnects
+  const persistConnectedDApps = (updatedDApps: ConnectedDApp[]) => {
     setConnectedDApps(updatedDApps);
+    saveConnectedDApps(updatedDApps).catch(error => {
+      console.error('Failed to save connected dApps:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save dApp connections",
+        variant: "destructive",
+      });
+    });
   };
 
   const handleDisconnect = (dapp: ConnectedDApp) => {
     const updatedDApps = connectedDApps.filter(d => d.origin !== dapp.origin);
-    saveConnectedDApps(updatedDApps);
+    persistConnectedDApps(updatedDApps);
     
     toast({
       title: "dApp Disconnected",
@@ -80,6 +90,22 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
     });
   };
 
+  const handleRevokePermission = (dapp: ConnectedDApp, permission: DAppPermission) => {
+    if (isRequiredPermission(permission)) return;
+
+    const updatedDApps = connectedDApps.map(d =>
+      d.origin === dapp.origin
+        ? { ...d, permissions: normalizePermissions(d.permissions).filter(p => p !== permission) }
+        : d
+    );
+    persistConnectedDApps(updatedDApps);
+
+    toast({
+      title: "Permission Revoked",
+      description: `${dapp.appName} can no longer ${DAPP_PERMISSIONS[permission].title.toLowerCase()}`,
+    });
+  };
+
   const handleChangeWallet = () => {
     if (!selectedDApp || !selectedWalletAddress) return;
     
@@ -93,7 +119,7 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
         : dapp
     );
     
-    saveConnectedDApps(updatedDApps);
+    persistConnectedDApps(updatedDApps);
     setShowChangeWalletDialog(false);
     setSelectedDApp(null);
     setSelectedWalletAddress('');
@@ -105,7 +131,7 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
   };
 
   const handleDisconnectAll = () => {
-    saveConnectedDApps([]);
+    persistConnectedDApps([]);
     toast({
       title: "All dApps Disconnected",
       description: "All connected dApps have been disconnected",
@@ -132,19 +158,6 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
     });
   };
 
-  const getPermissionIcon = (permission: string) => {
-    switch (permission) {
-      case 'view_address':
-        return <Eye className="h-3 w-3" />;
-      case 'view_balance':
-        return <Eye className="h-3 w-3" />;
-      case 'call_methods':
-        return <Send className="h-3 w-3" />;
-      default:
-        return <Shield className="h-3 w-3" />;
-    }
-  };
-
   const getWalletDisplayName = (address: string) => {
     const walletIndex = wallets.findIndex(w => w.address === address);
     return walletIndex >= 0 ? `Account ${walletIndex + 1}` : 'Unknown Wallet';
@@ -246,13 +259,24 @@ export function ConnectedDAppsManager({ wallets, onClose }: ConnectedDAppsManage
                           </div>
                         </div>
                         
-                        <div className="flex items-center gap-2 mt-1 sm:mt-2">
-                          <span className="text-xs text-muted-foreground">Permissions:</span>
-                          <div className="flex items-center gap-1">
-                            {dapp.permissions.map((permission, index) => (
-                              <div key={index} className="flex items-center gap-1">
-                                {getPermissionIcon(permission)}
-                              </div>
+                        <div className="flex items-start gap-2 mt-1 sm:mt-2">
+                          <span className="text-xs text-muted-foreground mt-0.5">Permissions:</span>
+                          <div className="flex flex-wrap items-center gap-1">
+                            {normalizePermissions(dapp.permissions).map((permission) => (
+                              <Badge key={permission} variant="secondary" className="text-xs gap-1 font-normal">
+                                <DAppPermissionIcon permission={permission} className="h-3 w-3" />
+                                {DAPP_PERMISSIONS[permission].title}
+                                {!isRequiredPermission(permission) && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRevokePermission(dapp, permission)}
+                                    title={`Revoke ${DAPP_PERMISSIONS[permission].title.toLowerCase()}`}
+                                    className="ml-0.5 rounded-full hover:text-red-600"
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </Badge>
                             ))}
                           </div>
                         </div>
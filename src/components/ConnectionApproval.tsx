@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { DAppConnection } from './DAppConnection';
-import { Wallet } from '../types/wallet';
+import { Wallet, DAppPermission } from '../types/wallet';
 
 interface ConnectionApprovalProps {
   request: {
@@ -10,7 +10,7 @@ interface ConnectionApprovalProps {
     permissions: string[];
   };
   wallets: Wallet[];  // Changed to support multiple wallets
-  onApprove: (approved: boolean, selectedAddress?: string) => void;
+  onApprove: (approved: boolean, selectedAddress?: string, permissions?: DAppPermission[]) => void;
 }
 
 export function ConnectionApproval({ request, wallets, onApprove }: ConnectionApprovalProps) {
@@ -25,8 +25,8 @@ export function ConnectionApproval({ request, wallets, onApprove }: ConnectionAp
     permissions: request.permissions
   };
 
-  const handleApprove = (wallet: Wallet) => {
-    onApprove(true, wallet.address);
+  const handleApprove = (wallet: Wallet, permissions: DAppPermission[]) => {
+    onApprove(true, wallet.address, permissions);
   };
 
   const handleReject = () => {
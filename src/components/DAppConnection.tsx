@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -6,16 +6,20 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ExternalLink, Shield, Eye, Send, X, Check } from 'lucide-react';
-import { Wallet, DAppConnectionRequest } from '../types/wallet';
+import { Switch } from '@/components/ui/switch';
+import { ExternalLink, Shield, X, Check } from 'lucide-react';
+import { Wallet, DAppConnectionRequest, DAppPermission } from '../types/wallet';
 import { useToast } from '@/hooks/use-toast';
+import { DAppPermissionIcon } from './DAppPermissionIcon';
+import { DAPP_PERMISSIONS, DAPP_PERMISSIONS_VERSION, normalizePermissions, isRequiredPermission } from '../utils/dappPermissions';
 
 interface DAppConnectionProps {
   connectionRequest: DAppConnectionRequest;
   wallets: Wallet[];
   selectedWallet: Wallet | null;
   onWalletSelect: (wallet: Wallet) => void;
-  onApprove: (wallet: Wallet) => void;
+  // Receives the permissions the user left switched on
+  onApprove: (wallet: Wallet, permissions: DAppPermission[]) => void;
   onReject: () => void;
 }
 
@@ -29,8 +33,29 @@ export function DAppConnection({
 }: DAppConnectionProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [existingConnection, setExistingConnection] = useState<any>(null);
+  const requestedPermissions = useMemo(
+    () => normalizePermissions(connectionRequest.permissions),
+    [connectionRequest.permissions]
+  );
+  // Set when a connected dApp asks for more than it was granted
+  const alreadyGranted = useMemo(
+    () => connectionRequest.grantedPermissions ? normalizePermissions(connectionRequest.grantedPermissions) : null,
+    [connectionRequest.grantedPermissions]
+  );
+  const [grantedPermissions, setGrantedPermissions] = useState<DAppPermission[]>(requestedPermissions);
   const { toast } = useToast();
 
+  useEffect(() => {
+    setGrantedPermissions(requestedPermissions);
+  }, [requestedPermissions]);
+
+  const togglePermission = (permission: DAppPermission, granted: boolean) => {
+    if (isRequiredPermission(permission)) return;
+    setGrantedPermissions(current => granted
+      ? requestedPermissions.filter(p => p === permission || current.includes(p))
+      : current.filter(p => p !== permission));
+  };
+
   useEffect(() => {
     // Check if this dApp is already connected
     const connections = JSON.parse(localStorage.getItem('connectedDApps') || '[]');
@@ -60,7 +85,8 @@ export function DAppConnection({
         origin: connectionRequest.origin,
         appName: connectionRequest.appName || connectionRequest.origin,
         connectedAt: Date.now(),
-        permissions: connectionRequest.permissions,
+        permissions: grantedPermissions,
+        permissionsVersion: DAPP_PERMISSIONS_VERSION,
         selectedAddress: selectedWallet.address
       };
       
@@ -75,7 +101,7 @@ export function DAppConnection({
         description: `${connectionRequest.appName || 'dApp'} is now connected to ${selectedWallet.address.slice(0, 8)}...${selectedWallet.address.slice(-6)}`,
       });
       
-      onApprove(selectedWallet);
+      onApprove(selectedWallet, grantedPermissions);
     } catch (error) {
       console.error('Connection approval error:', error);
       toast({
@@ -98,33 +124,6 @@ export function DAppConnection({
     return `${address.slice(0, 8)}...${address.slice(-6)}`;
   };
 
-  const getPermissionIcon = (permission: string) => {
-    switch (permission) {
-      case 'view_address':
-        return <Eye className="h-4 w-4" />;
-      case 'view_balance':
-        return <Eye className="h-4 w-4" />;
-      case 'call_methods':
-        return <Send className="h-4 w-4" />;
-      default:
-        console.warn(`Unknown permission: ${permission}`);
-        return <Shield className="h-4 w-4" />;
-    }
-  };
-
-  const getPermissionDescription = (permission: string) => {
-    switch (permission) {
-      case 'view_address':
-        return 'View the address of your permitted account';
-      case 'view_balance':
-        return 'View the balance of your permitted account';
-      case 'call_methods':
-        return 'Call methods on the smart contract on behalf of your permitted account';
-      default:
-        return permission;
-    }
-  };
-
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -194,25 +193,52 @@ export function DAppConnection({
             {/* Permissions */}
             <div className="space-y-3">
               <h3 className="font-medium">This app will be able to:</h3>
+              <p className="text-xs text-muted-foreground">
+                Switch off anything you do not want to allow. You can revoke permissions later in Connected dApps.
+              </p>
               <div className="space-y-2">
-                {connectionRequest.permissions.map((permission, index) => (
-                  <div key={index} className="flex items-start gap-3">
-                    <div className="mt-0.5">
-                      {getPermissionIcon(permission)}
-                    </div>
+                {requestedPermissions.map((permission) => {
+                  const info = DAPP_PERMISSIONS[permission];
+                  const required = isRequiredPermission(permission);
+                  return (
+                    <label key={permission} className="flex items-start gap-3 cursor-pointer">
+                      <div className="mt-0.5">
+                        <DAppPermissionIcon permission={permission} />
+                      </div>
+                      <div className="flex-1">
+                        <div className="text-sm font-medium flex items-center gap-2">
+                          {info.title}
+                          {info.sensitive && (
+                            <Badge variant="outline" className="text-xs text-yellow-600">Sensitive</Badge>
+                          )}
+                          {required && (
+                            <Badge variant="secondary" className="text-xs">Required</Badge>
+                          )}
+                          {alreadyGranted && !alreadyGranted.includes(permission) && (
+                            <Badge className="text-xs">New</Badge>
+                          )}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {info.description}
+                        </span>
+                      </div>
+                      <Switch
+                        checked={grantedPermissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(permission, checked)}
+                        disabled={required || isProcessing}
+                      />
+                    </label>
+                  );
+                })}
+                
+                {!grantedPermissions.includes('send_transaction') && (
+                  <div className="flex items-start gap-3 text-muted-foreground">
+                    <X className="h-4 w-4 mt-0.5" />
                     <span className="text-sm">
-                      {getPermissionDescription(permission)}
+                      This does not allow the app to transfer tokens
                     </span>
                   </div>
-                ))}
-                
-                {/* Always show this restriction */}
-                <div className="flex items-start gap-3 text-muted-foreground">
-                  <X className="h-4 w-4 mt-0.5" />
-                  <span className="text-sm">
-                    This does not allow the app to transfer tokens
-                  </span>
-                </div>
+                )}
               </div>
             </div>
 
@@ -220,7 +246,9 @@ export function DAppConnection({
               <div className="flex items-start space-x-3">
                 <Shield className="h-4 w-4 mt-0.5 flex-shrink-0" />
                 <AlertDescription>
-                  {existingConnection 
+                  {alreadyGranted
+                    ? 'This app needs the permissions marked New to continue. Switch them off or cancel to decline.'
+                    : existingConnection 
                     ? 'Updating this connection will change which wallet this dApp can access.'
                     : 'Only connect to websites you trust. This connection will allow the app to view your account information and request transactions.'
                   }
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Eye, Wallet, PenLine, Send, FileSearch, FileCode, Lock } from 'lucide-react';
+import { DAppPermission } from '../types/wallet';
+
+interface DAppPermissionIconProps {
+  permission: DAppPermission;
+  className?: string;
+}
+
+export function DAppPermissionIcon({ permission, className = 'h-4 w-4' }: DAppPermissionIconProps) {
+  switch (permission) {
+    case 'view_address':
+      return <Eye className={className} />;
+    case 'view_balance':
+      return <Wallet className={className} />;
+    case 'sign_message':
+      return <PenLine className={className} />;
+    case 'send_transaction':
+      return <Send className={className} />;
+    case 'contract_view':
+      return <FileSearch className={className} />;
+    case 'contract_call':
+      return <FileCode className={className} />;
+    case 'private_transfer':
+      return <Lock className={className} />;
+  }
+}
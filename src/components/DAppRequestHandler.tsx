@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { DAppConnection } from './DAppConnection';
 import { UnifiedContractHandler } from './UnifiedContractHandler';
-import { Wallet, DAppConnectionRequest } from '../types/wallet';
+import { SignMessageRequest } from './SignMessageRequest';
+import { SignTypedDataRequest } from './SignTypedDataRequest';
+import { PrivateTransferRequest } from './PrivateTransferRequest';
+import { Wallet, DAppConnectionRequest, DAppSignMessageRequest, DAppPrivateTransferRequest, SignedMessage, SignedTypedData, DAppPermission } from '../types/wallet';
+import { DAPP_PERMISSIONS_VERSION } from '../utils/dappPermissions';
 
 // Updated contract request interface
 export interface DAppContractRequest {
@@ -35,6 +39,7 @@ export interface ContractParameter {
 interface DAppRequestHandlerProps {
   wallets: Wallet[];
   contractRequest?: any;
+  signRequest?: DAppSignMessageRequest | null;
   selectedWallet?: Wallet | null;
   onWalletSelect?: (wallet: Wallet) => void;
   onApprove?: (result: any) => void;
@@ -44,6 +49,7 @@ interface DAppRequestHandlerProps {
 export function DAppRequestHandler({ 
   wallets, 
   contractRequest: propContractRequest,
+  signRequest: propSignRequest,
   selectedWallet: propSelectedWallet,
   onWalletSelect: propOnWalletSelect,
   onApprove: propOnApprove,
@@ -51,10 +57,18 @@ export function DAppRequestHandler({
 }: DAppRequestHandlerProps) {
   const [connectionRequest, setConnectionRequest] = useState<DAppConnectionRequest | null>(null);
   const [contractRequest, setContractRequest] = useState<DAppContractRequest | null>(null);
+  const [signRequest, setSignRequest] = useState<DAppSignMessageRequest | null>(null);
+  const [privateTransferRequest, setPrivateTransferRequest] = useState<DAppPrivateTransferRequest | null>(null);
   const [selectedWallet, setSelectedWallet] = useState<Wallet | null>(null);
   const [connectedWallet, setConnectedWallet] = useState<Wallet | null>(null);
 
   useEffect(() => {
+    // If sign request is passed as prop (from popup), use it directly
+    if (propSignRequest) {
+      setSignRequest(propSignRequest);
+      return;
+    }
+
     // If contract request is passed as prop (from popup), use it directly
     if (propContractRequest) {
       const unifiedRequest = {
@@ -97,13 +111,15 @@ export function DAppRequestHandler({
       const appName = urlParams.get('appName');
       const appIcon = urlParams.get('appIcon');
       const permissions = urlParams.get('permissions');
+      const granted = urlParams.get('granted');
       
       if (origin) {
         setConnectionRequest({
           origin: decodeURIComponent(origin),
           appName: appName ? decodeURIComponent(appName) : undefined,
           appIcon: appIcon ? decodeURIComponent(appIcon) : undefined,
-          permissions: permissions ? JSON.parse(decodeURIComponent(permissions)) : ['view_address']
+          permissions: permissions ? JSON.parse(decodeURIComponent(permissions)) : ['view_address'],
+          grantedPermissions: granted ? JSON.parse(decodeURIComponent(granted)) : undefined
         });
       }
     } else if (action === 'contract') {
@@ -192,10 +208,52 @@ export function DAppRequestHandler({
           }
         }
       }
+    } else if (action === 'sign') {
+      // Handle message signing requests
+      const origin = urlParams.get('origin');
+      const appName = urlParams.get('appName');
+      const appIcon = urlParams.get('appIcon');
+      const message = urlParams.get('message');
+      const typedData = urlParams.get('typedData');
+      const connectedAddress = urlParams.get('connectedAddress');
+      
+      if (origin && (message !== null || typedData) && connectedAddress) {
+        try {
+          setSignRequest({
+            origin: decodeURIComponent(origin),
+            appName: appName ? decodeURIComponent(appName) : undefined,
+            appIcon: appIcon ? decodeURIComponent(appIcon) : undefined,
+            message: message ? decodeURIComponent(message) : '',
+            typedData: typedData ? JSON.parse(decodeURIComponent(typedData)) : undefined,
+            connectedAddress: decodeURIComponent(connectedAddress)
+          });
+        } catch (error) {
+          console.error('Failed to parse sign request parameters:', error);
+        }
+      }
+    } else if (action === 'private_transfer') {
+      // Handle private transfers from the encrypted balance
+      const origin = urlParams.get('origin');
+      const appName = urlParams.get('appName');
+      const appIcon = urlParams.get('appIcon');
+      const to = urlParams.get('to');
+      const amount = urlParams.get('amount');
+      const connectedAddress = urlParams.get('connectedAddress');
+      
+      if (origin && to && amount && connectedAddress) {
+        setPrivateTransferRequest({
+          origin: decodeURIComponent(origin),
+          appName: appName ? decodeURIComponent(appName) : undefined,
+          appIcon: appIcon ? decodeURIComponent(appIcon) : undefined,
+          to: decodeURIComponent(to),
+          amount: decodeURIComponent(amount),
+          connectedAddress: decodeURIComponent(connectedAddress)
+        });
+      }
     }
-  }, [wallets]);
+  }, [wallets, propSignRequest]);
 
-  const handleConnectionApprove = async (wallet: Wallet) => {
+  const handleConnectionApprove = async (wallet: Wallet, permissions: DAppPermission[]) => {
     if (!connectionRequest) return;
     
     try {
@@ -209,7 +267,8 @@ export function DAppRequestHandler({
         origin: connectionRequest.origin,
         appName: connectionRequest.appName || connectionRequest.origin,
         connectedAt: Date.now(),
-        permissions: connectionRequest.permissions,
+        permissions,
+        permissionsVersion: DAPP_PERMISSIONS_VERSION,
         selectedAddress: wallet.address
       };
       
@@ -221,7 +280,8 @@ export function DAppRequestHandler({
         type: 'CONNECTION_RESULT',
         origin: connectionRequest.origin,
         approved: true,
-        address: wallet.address
+        address: wallet.address,
+        permissions
       });
       
       // Close tab
@@ -285,6 +345,114 @@ export function DAppRequestHandler({
     }
   };
 
+  const handleSignApprove = (result: SignedMessage | SignedTypedData) => {
+    if (!signRequest) return;
+    
+    if (propOnApprove) {
+      // Use prop callback (popup mode)
+      propOnApprove(result);
+    } else {
+      // Send signature back (tab mode)
+      chrome.runtime.sendMessage({
+        type: 'SIGN_RESULT',
+        origin: signRequest.origin,
+        approved: true,
+        result: result
+      });
+      
+      // Close tab
+      window.close();
+    }
+  };
+
+  const handleSignReject = (error?: string) => {
+    if (!signRequest) return;
+    
+    if (propOnReject) {
+      // Use prop callback (popup mode)
+      propOnReject(error);
+    } else {
+      // Send rejection response (tab mode)
+      chrome.runtime.sendMessage({
+        type: 'SIGN_RESULT',
+        origin: signRequest.origin,
+        approved: false,
+        error: error
+      });
+      
+      // Close tab
+      window.close();
+    }
+  };
+
+  const handlePrivateTransferApprove = (txHash: string) => {
+    if (!privateTransferRequest) return;
+    
+    chrome.runtime.sendMessage({
+      type: 'PRIVATE_TRANSFER_RESULT',
+      origin: privateTransferRequest.origin,
+      approved: true,
+      txHash
+    });
+    
+    // Close tab
+    window.close();
+  };
+
+  const handlePrivateTransferReject = (error?: string) => {
+    if (!privateTransferRequest) return;
+    
+    chrome.runtime.sendMessage({
+      type: 'PRIVATE_TRANSFER_RESULT',
+      origin: privateTransferRequest.origin,
+      approved: false,
+      error: error
+    });
+    
+    // Close tab
+    window.close();
+  };
+
+  // Render private transfer request - always sent from the wallet connected to the dApp
+  if (privateTransferRequest) {
+    return (
+      <PrivateTransferRequest
+        transferRequest={privateTransferRequest}
+        wallet={wallets.find(w => w.address === privateTransferRequest.connectedAddress) || null}
+        onApprove={handlePrivateTransferApprove}
+        onReject={handlePrivateTransferReject}
+      />
+    );
+  }
+
+  // Render sign message request - always signed by the wallet connected to the dApp
+  if (signRequest) {
+    const signingWallet = wallets.find(w => w.address === signRequest.connectedAddress) || null;
+    
+    if (signRequest.typedData) {
+      return (
+        <SignTypedDataRequest
+          origin={signRequest.origin}
+          appName={signRequest.appName}
+          appIcon={signRequest.appIcon}
+          typedData={signRequest.typedData}
+          wallet={signingWallet}
+          onApprove={handleSignApprove}
+          onReject={handleSignReject}
+        />
+      );
+    }
+    
+    return (
+      <SignMessageRequest
+        signRequest={signRequest}
+        wallet={signingWallet}
+        onApprove={handleSignApprove}
+        onReject={handleSignReject}
+      />
+    );
+  }
+
   // Render connection request
   if (connectionRequest) {
     return (
@@ -6,14 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Unlock, Loader2, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { decryptBalance } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { OctAmount, ZERO_OCT, tryParseOct, formatOct } from '../utils/octAmount';
 import { useToast } from '@/hooks/use-toast';
 
 interface DecryptBalanceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   wallet: Wallet;
-  encryptedBalance: number;
+  encryptedBalance: OctAmount;
   onSuccess: () => void;
 }
 
@@ -28,10 +29,11 @@ export function DecryptBalanceDialog({
   const [isDecrypting, setIsDecrypting] = useState(false);
   const { toast } = useToast();
 
+  const maxDecryptable = encryptedBalance;
+  const amountMu = tryParseOct(amount);
+
   const handleDecrypt = async () => {
-    const amountNum = parseFloat(amount);
-    
-    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+    if (amountMu === null || amountMu <= ZERO_OCT) {
       toast({
         title: "Error",
         description: "Please enter a valid amount",
@@ -40,10 +42,10 @@ export function DecryptBalanceDialog({
       return;
     }
 
-    if (amountNum > encryptedBalance) {
+    if (amountMu > maxDecryptable) {
       toast({
         title: "Error",
-        description: `Amount too large. Maximum: ${encryptedBalance.toFixed(6)} OCT`,
+        description: `Amount too large. Maximum: ${formatOct(maxDecryptable, 6)} OCT`,
         variant: "destructive",
       });
       return;
@@ -52,7 +54,7 @@ export function DecryptBalanceDialog({
     setIsDecrypting(true);
     
     try {
-      const result = await decryptBalance(wallet.address, amountNum, wallet.privateKey);
+      const result = await SessionKeyring.decryptBalance(wallet.address, amountMu);
       
       if (result.success) {
         toast({
@@ -100,7 +102,7 @@ export function DecryptBalanceDialog({
           <div className="space-y-2">
             <Label>Current Private Balance</Label>
             <div className="p-3 bg-muted rounded-md font-mono text-yellow-600">
-              {encryptedBalance.toFixed(8)} OCT
+              {formatOct(maxDecryptable)} OCT
             </div>
           </div>
 
@@ -114,7 +116,7 @@ export function DecryptBalanceDialog({
               onChange={(e) => setAmount(e.target.value)}
               step="0.1"
               min="0"
-              max={encryptedBalance}
+              max={formatOct(maxDecryptable, 6)}
               disabled={isDecrypting}
             />
           </div>
@@ -130,7 +132,7 @@ export function DecryptBalanceDialog({
             </Button>
             <Button
               onClick={handleDecrypt}
-              disabled={isDecrypting || !amount || parseFloat(amount) <= 0 || parseFloat(amount) > encryptedBalance}
+              disabled={isDecrypting || amountMu === null || amountMu <= ZERO_OCT || amountMu > maxDecryptable}
               className="flex-1"
             >
               {isDecrypting ? (
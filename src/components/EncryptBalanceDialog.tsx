@@ -6,14 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Lock, Loader2, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { encryptBalance } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { OctAmount, ZERO_OCT, tryParseOct, formatOct } from '../utils/octAmount';
 import { useToast } from '@/hooks/use-toast';
 
 interface EncryptBalanceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   wallet: Wallet;
-  publicBalance: number;
+  publicBalance: OctAmount;
   onSuccess: () => void;
 }
 
@@ -28,12 +29,14 @@ export function EncryptBalanceDialog({
   const [isEncrypting, setIsEncrypting] = useState(false);
   const { toast } = useToast();
 
-  const maxEncryptable = Math.max(0, publicBalance - 0.5); // Reserve 0.5 OCT for fees
+  // Reserve 0.5 OCT for fees
+  const feeReserve: OctAmount = 500_000n;
+  const available = publicBalance - feeReserve;
+  const maxEncryptable = available > ZERO_OCT ? available : ZERO_OCT;
+  const amountMu = tryParseOct(amount);
 
   const handleEncrypt = async () => {
-    const amountNum = parseFloat(amount);
-    
-    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+    if (amountMu === null || amountMu <= ZERO_OCT) {
       toast({
         title: "Error",
         description: "Please enter a valid amount",
@@ -42,10 +45,10 @@ export function EncryptBalanceDialog({
       return;
     }
 
-    if (amountNum > maxEncryptable) {
+    if (amountMu > maxEncryptable) {
       toast({
         title: "Error",
-        description: `Amount too large. Maximum: ${maxEncryptable.toFixed(6)} OCT`,
+        description: `Amount too large. Maximum: ${formatOct(maxEncryptable, 6)} OCT`,
         variant: "destructive",
       });
       return;
@@ -54,7 +57,7 @@ export function EncryptBalanceDialog({
     setIsEncrypting(true);
     
     try {
-      const result = await encryptBalance(wallet.address, amountNum, wallet.privateKey);
+      const result = await SessionKeyring.encryptBalance(wallet.address, amountMu);
       
       if (result.success) {
         toast({
@@ -102,14 +105,14 @@ export function EncryptBalanceDialog({
           <div className="space-y-2">
             <Label>Current Public Balance</Label>
             <div className="p-3 bg-muted rounded-md font-mono">
-              {publicBalance.toFixed(8)} OCT
+              {formatOct(publicBalance)} OCT
             </div>
           </div>
 
           <div className="space-y-2">
             <Label>Maximum Encryptable</Label>
             <div className="p-3 bg-muted rounded-md font-mono text-yellow-600">
-              {maxEncryptable.toFixed(8)} OCT
+              {formatOct(maxEncryptable)} OCT
             </div>
             <p className="text-xs text-muted-foreground">
               (1 OCT reserved for transaction fees)
@@ -126,7 +129,7 @@ export function EncryptBalanceDialog({
               onChange={(e) => setAmount(e.target.value)}
               step="0.1"
               min="0"
-              max={maxEncryptable}
+              max={formatOct(maxEncryptable, 6)}
               disabled={isEncrypting}
             />
           </div>
@@ -142,7 +145,7 @@ export function EncryptBalanceDialog({
             </Button>
             <Button
               onClick={handleEncrypt}
-              disabled={isEncrypting || !amount || parseFloat(amount) <= 0 || parseFloat(amount) > maxEncryptable}
+              disabled={isEncrypting || amountMu === null || amountMu <= ZERO_OCT || amountMu > maxEncryptable}
               className="flex-1"
             >
               {isEncrypting ? (
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Archive, Loader2 } from 'lucide-react';
+import { createBackup, downloadBackup } from '../utils/backup';
+import { useToast } from '@/hooks/use-toast';
+
+export function EncryptedBackupExport() {
+  const [backupPassword, setBackupPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const validationError = backupPassword && backupPassword.length < 8
+    ? 'Password must be at least 8 characters long'
+    : confirmPassword && backupPassword !== confirmPassword
+      ? 'Passwords do not match'
+      : null;
+
+  const handleExport = async () => {
+    if (validationError || !backupPassword || !confirmPassword) return;
+
+    setIsExporting(true);
+    try {
+      const backup = await createBackup(backupPassword);
+      const filename = downloadBackup(backup);
+      setBackupPassword('');
+      setConfirmPassword('');
+
+      toast({
+        title: "Backup Created",
+        description: `${filename} has been downloaded`,
+      });
+    } catch (error) {
+      console.error('Backup export failed:', error);
+      toast({
+        title: "Backup Failed",
+        description: error instanceof Error ? error.message : "Failed to create backup",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-base font-medium">Encrypted Backup</Label>
+      <p className="text-sm text-muted-foreground">
+        Download one password-encrypted file with all wallets, labels, address book, RPC providers and connected dApps.
+        You can restore it from the import screen.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input
+          type="password"
+          placeholder="Backup password"
+          value={backupPassword}
+          onChange={(e) => setBackupPassword(e.target.value)}
+          disabled={isExporting}
+        />
+        <Input
+          type="password"
+          placeholder="Confirm backup password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={isExporting}
+        />
+      </div>
+      {validationError && (
+        <p className="text-sm text-red-600">{validationError}</p>
+      )}
+      <Button
+        onClick={handleExport}
+        disabled={isExporting || !backupPassword || !confirmPassword || !!validationError}
+        className="w-full"
+      >
+        {isExporting ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Encrypting...
+          </>
+        ) : (
+          <>
+            <Archive className="h-4 w-4 mr-2" />
+            Download Encrypted Backup
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
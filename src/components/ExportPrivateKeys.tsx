@@ -10,7 +10,11 @@ import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Copy, Download, Eye, EyeOff, AlertTriangle, Shield, Key, FileText, Lock } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { verifyPassword } from '../utils/password';
+import { WalletManager } from '../utils/walletManager';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { EncryptedBackupExport } from './EncryptedBackupExport';
+import { MnemonicShares } from './MnemonicShares';
+import { MASTER_KEY_PATH } from '../utils/crypto';
 import { useToast } from '@/hooks/use-toast';
 
 interface ExportPrivateKeysProps {
@@ -22,11 +26,17 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
-  const [isUnlocked, setIsUnlocked] = useState(false);
+  // The wallet prop is a public record; keys are fetched from the keyring only after the password check
+  const [revealedWallet, setRevealedWallet] = useState<Wallet | null>(null);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [showMnemonic, setShowMnemonic] = useState(false);
   const { toast } = useToast();
 
+  // Derived accounts share their base wallet's mnemonic, which only restores
+  // this address together with the path it was derived at
+  const derivationPath = revealedWallet?.derivationPath || MASTER_KEY_PATH;
+  const isDerivedAccount = derivationPath !== MASTER_KEY_PATH;
+
   const handleVerifyPassword = async () => {
     if (!password) {
       toast({
@@ -41,9 +51,8 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
 
     try {
       const hashedPassword = localStorage.getItem('walletPasswordHash');
-      const salt = localStorage.getItem('walletPasswordSalt');
       
-      if (!hashedPassword || !salt) {
+      if (!hashedPassword) {
         toast({
           title: "No Password Set",
           description: "No wallet password found. Please set up password protection first.",
@@ -52,10 +61,10 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
         return;
       }
 
-      const isValid = await verifyPassword(password, hashedPassword, salt);
+      const isValid = await WalletManager.verifyPassword(password);
       
-      if (isValid) {
-        setIsUnlocked(true);
+      if (isValid && wallet) {
+        setRevealedWallet(await SessionKeyring.revealWallet(wallet.address));
         toast({
           title: "Access Granted",
           description: "Password verified successfully",
@@ -121,14 +130,14 @@ export function ExportPrivateKeys({ wallet }: ExportPrivateKeysProps) {
   };
 
   const exportPrivateKey = () => {
-    if (!wallet) return;
+    if (!revealedWallet) return;
     
     const content = `Octra Wallet Private Key Export
 Generated: ${new Date().toISOString()}
-Address: ${wallet.address}
+Address: ${revealedWallet.address}
 
 PRIVATE KEY (Base64):
-${wallet.privateKey}
+${revealedWallet.privateKey}
 
 ⚠️  SECURITY WARNING:
 - Keep this private key secure and never share it with anyone
@@ -137,19 +146,25 @@ ${wallet.privateKey}
 - Consider encrypting this file with additional password protection
 `;
 
-    exportToFile(content, `octra-private-key-${wallet.address.slice(0, 8)}.txt`);
+    exportToFile(content, `octra-private-key-${revealedWallet.address.slice(0, 8)}.txt`);
   };
 
   const exportMnemonic = () => {
-    if (!wallet || !wallet.mnemonic) return;
+    if (!revealedWallet || !revealedWallet.mnemonic) return;
     
     const content = `Octra Wallet Mnemonic Export
 Generated: ${new Date().toISOString()}
-Address: ${wallet.address}
+Address: ${revealedWallet.address}
 
 MNEMONIC PHRASE:
-${wallet.mnemonic}
-
+${revealedWallet.mnemonic}
+
+DERIVATION PATH:
+${derivationPath}
+${isDerivedAccount ? `
+This mnemonic belongs to the wallet this account was derived from. Restore it
+and derive the account at the path above to get this address back.
+` : ''}
 ⚠️  SECURITY WARNING:
 - Keep this mnemonic phrase secure and never share it with anyone
 - Anyone with access to this mnemonic can control your wallet
@@ -158,26 +173,29 @@ ${wallet.mnemonic}
 - This mnemonic can be used to restore your wallet on any compatible wallet
 `;
 
-    exportToFile(content, `octra-mnemonic-${wallet.address.slice(0, 8)}.txt`);
+    exportToFile(content, `octra-mnemonic-${revealedWallet.address.slice(0, 8)}.txt`);
   };
 
   const exportWalletInfo = () => {
-    if (!wallet) return;
+    if (!revealedWallet) return;
     
     const content = `Octra Wallet Complete Export
 Generated: ${new Date().toISOString()}
 
 WALLET ADDRESS:
-${wallet.address}
+${revealedWallet.address}
 
 PRIVATE KEY (Base64):
-${wallet.privateKey}
+${revealedWallet.privateKey}
+
+${revealedWallet.publicKey ? `PUBLIC KEY (Hex):
+${revealedWallet.publicKey}
 
-${wallet.publicKey ? `PUBLIC KEY (Hex):
-${wallet.publicKey}
+` : ''}${revealedWallet.mnemonic ? `MNEMONIC PHRASE:
+${revealedWallet.mnemonic}
 
-` : ''}${wallet.mnemonic ? `MNEMONIC PHRASE:
-${wallet.mnemonic}
+DERIVATION PATH:
+${derivationPath}
 
 ` : ''}⚠️  CRITICAL SECURITY WARNING:
 - This file contains ALL sensitive information needed to control your wallet
@@ -188,13 +206,13 @@ ${wallet.mnemonic}
 - Consider using hardware security keys or encrypted storage solutions
 `;
 
-    exportToFile(content, `octra-wallet-complete-${wallet.address.slice(0, 8)}.txt`);
+    exportToFile(content, `octra-wallet-complete-${revealedWallet.address.slice(0, 8)}.txt`);
   };
 
   const handleClose = () => {
     setIsOpen(false);
     setPassword('');
-    setIsUnlocked(false);
+    setRevealedWallet(null);
     setShowPrivateKey(false);
     setShowMnemonic(false);
     setShowPassword(false);
@@ -247,7 +265,7 @@ ${wallet.mnemonic}
             </DialogHeader>
             <ScrollArea className="max-h-[calc(90vh-100px)] pr-2">
               <div className="pr-2">
-                {!isUnlocked ? (
+                {!revealedWallet ? (
                   <div className="space-y-4">
                     <Alert>
                       <div className="flex items-start space-x-3">
@@ -340,7 +358,7 @@ ${wallet.mnemonic}
                       <Label className="text-sm font-medium">Private Key (Base64)</Label>
                       <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
                         <div className="flex-1 p-3 bg-muted rounded-md font-mono text-xs sm:text-sm break-all">
-                          {showPrivateKey ? wallet.privateKey : '•'.repeat(44)}
+                          {showPrivateKey ? revealedWallet.privateKey : '•'.repeat(44)}
                         </div>
                         <div className="flex space-x-2 self-start sm:self-auto">
                           <Button
@@ -354,7 +372,7 @@ ${wallet.mnemonic}
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => copyToClipboard(wallet.privateKey, 'Private Key')}
+                              onClick={() => copyToClipboard(revealedWallet.privateKey, 'Private Key')}
                             >
                               <Copy className="h-4 w-4" />
                             </Button>
@@ -384,13 +402,23 @@ ${wallet.mnemonic}
                     )}
 
                     {/* Mnemonic */}
-                    {wallet.mnemonic && (
+                    {revealedWallet.mnemonic && (
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium">Mnemonic Phrase</Label>
+                        <div className="flex items-center justify-between gap-2">
+                          <Label className="text-sm font-medium">Mnemonic Phrase</Label>
+                          <Badge variant="outline" className="font-mono text-xs">
+                            {derivationPath}
+                          </Badge>
+                        </div>
+                        {isDerivedAccount && (
+                          <p className="text-xs text-muted-foreground">
+                            This is the seed phrase of the wallet this account was derived from. It restores this address only when derived at {derivationPath}.
+                          </p>
+                        )}
                         <div className="p-3 bg-muted rounded-md">
                           {showMnemonic ? (
                             <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                              {wallet.mnemonic.split(' ').map((word, index) => (
+                              {revealedWallet.mnemonic.split(' ').map((word, index) => (
                                 <div key={index} className="flex items-center space-x-2">
                                   <span className="text-xs text-muted-foreground w-6">
                                     {index + 1}.
@@ -419,7 +447,7 @@ ${wallet.mnemonic}
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => copyToClipboard(wallet.mnemonic!, 'Mnemonic')}
+                              onClick={() => copyToClipboard(revealedWallet.mnemonic!, 'Mnemonic')}
                               className="flex-1"
                             >
                               <Copy className="h-4 w-4 mr-2" />
@@ -461,7 +489,7 @@ ${wallet.mnemonic}
                           </div>
                         </Button>
 
-                        {wallet.mnemonic && (
+                        {revealedWallet.mnemonic && (
                           <Button
                             variant="outline"
                             onClick={exportMnemonic}
@@ -493,6 +521,21 @@ ${wallet.mnemonic}
                       </div>
                     </div>
 
+                    {revealedWallet.mnemonic && (
+                      <>
+                        <Separator />
+
+                        <div className="space-y-3">
+                          <Label className="text-base font-medium">Shamir Shares</Label>
+                          <MnemonicShares mnemonic={revealedWallet.mnemonic} address={wallet.address} />
+                        </div>
+                      </>
+                    )}
+
+                    <Separator />
+
+                    <EncryptedBackupExport />
+
                     <div className="flex justify-end">
                       <Button variant="outline" onClick={handleClose}>
                         Close
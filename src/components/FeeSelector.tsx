@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Gauge, RefreshCw } from 'lucide-react';
+import {
+  FeeSelection,
+  FeeTier,
+  estimateFees,
+  resolveOu,
+  ouToFee,
+  isValidCustomOu,
+  MAX_CUSTOM_OU
+} from '../utils/feeEstimator';
+import { OctAmount, formatOct } from '../utils/octAmount';
+
+interface FeeSelectorProps {
+  // Amount used to preview the fee of each tier (the largest transfer for multi-sends)
+  amount: OctAmount;
+  selection: FeeSelection;
+  onSelectionChange: React.Dispatch<React.SetStateAction<FeeSelection>>;
+  disabled?: boolean;
+}
+
+const tiers: { tier: FeeTier; label: string }[] = [
+  { tier: 'slow', label: 'Slow' },
+  { tier: 'normal', label: 'Normal' },
+  { tier: 'fast', label: 'Fast' },
+  { tier: 'custom', label: 'Custom' }
+];
+
+export function FeeSelector({ amount, selection, onSelectionChange, disabled = false }: FeeSelectorProps) {
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const loadEstimate = useCallback(async (forceRefresh: boolean = false) => {
+    setIsEstimating(true);
+    try {
+      const estimate = await estimateFees(forceRefresh);
+      onSelectionChange(previous => ({ ...previous, estimate }));
+    } catch (error) {
+      console.error('Fee estimation failed:', error);
+    } finally {
+      setIsEstimating(false);
+    }
+  }, [onSelectionChange]);
+
+  useEffect(() => {
+    // Estimate when the form opens (onSelectionChange is a state setter, so this
+    // runs once); the refresh button re-estimates
+    loadEstimate();
+  }, [loadEstimate]);
+
+  const estimate = selection.estimate;
+  const customInvalid = selection.tier === 'custom' && selection.customOu !== '' && !isValidCustomOu(selection.customOu);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Gauge className="h-4 w-4" />
+          Network Fee
+        </Label>
+        <div className="flex items-center gap-2">
+          {estimate && (
+            <Badge
+              variant={estimate.congestion === 'high' ? 'destructive' : 'secondary'}
+              className="text-xs capitalize"
+            >
+              {estimate.congestion} congestion
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => loadEstimate(true)}
+            disabled={isEstimating || disabled}
+          >
+            <RefreshCw className={`h-3 w-3 ${isEstimating ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {tiers.map(({ tier, label }) => {
+          const ou = resolveOu({ ...selection, tier }, amount);
+          return (
+            <Button
+              key={tier}
+              type="button"
+              variant={selection.tier === tier ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onSelectionChange(previous => ({ ...previous, tier }))}
+              disabled={disabled}
+              className="flex flex-col h-auto py-2"
+            >
+              <span>{label}</span>
+              {tier !== 'custom' && (
+                <span className="text-xs opacity-80 font-mono">{formatOct(ouToFee(ou), 3)}</span>
+              )}
+            </Button>
+          );
+        })}
+      </div>
+
+      {selection.tier === 'custom' && (
+        <div className="space-y-1">
+          <Input
+            type="number"
+            placeholder="ou (e.g. 5)"
+            value={selection.customOu}
+            onChange={(e) => {
+              const customOu = e.target.value;
+              onSelectionChange(previous => ({ ...previous, customOu }));
+            }}
+            min="1"
+            max={MAX_CUSTOM_OU}
+            step="1"
+            disabled={disabled}
+          />
+          {customInvalid && (
+            <p className="text-sm text-red-600">Custom ou must be a whole number from 1 to {MAX_CUSTOM_OU}</p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {estimate
+          ? `${estimate.stagingCount} transaction${estimate.stagingCount !== 1 ? 's' : ''} in staging (${estimate.highPriorityCount} high priority). `
+          : 'Estimating network load... '}
+        Each ou costs 0.001 OCT.
+      </p>
+    </div>
+  );
+}
@@ -9,9 +9,19 @@ import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
-import { Upload, FileText, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Zap, Trash2 } from 'lucide-react';
+import { Upload, FileText, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Zap, Trash2, Plus } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { fetchBalance, buildUnsignedTransaction } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { NonceManager } from '../utils/nonceManager';
+import { FeeSelection, DEFAULT_FEE_SELECTION, resolveOu, ouToFee, isValidCustomOu } from '../utils/feeEstimator';
+import { FeeSelector } from './FeeSelector';
+import { OctAmount, ZERO_OCT, tryParseOct, formatOct, sumOct, maxOct } from '../utils/octAmount';
+import { RecipientInput } from './RecipientInput';
+import { AddressBookManager, describeTypo } from '../utils/addressBook';
+import { findPoisonedRecipients, describePoisoning } from '../utils/addressPoisoning';
+import { useAddressBook } from '@/hooks/use-address-book';
+import { validateOctraAddress } from '../utils/crypto';
 import { useToast } from '@/hooks/use-toast';
 
 interface FileRecipient {
@@ -23,38 +33,13 @@ interface FileRecipient {
 
 interface FileMultiSendProps {
   wallet: Wallet | null;
-  balance: number | null;
+  balance: OctAmount | null;
   nonce: number;
-  onBalanceUpdate: (balance: number) => void;
+  onBalanceUpdate: (balance: OctAmount) => void;
   onNonceUpdate: (nonce: number) => void;
   onTransactionSuccess: () => void;
 }
 
-// Simple address validation function
-function isOctraAddress(input: string): boolean {
-  // Check if it's a valid Octra address: exactly 47 characters starting with "oct"
-  const addressRegex = /^oct[123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz]{44}$/;
-  return addressRegex.test(input);
-}
-
-function validateRecipientInput(input: string): { isValid: boolean; error?: string } {
-  if (!input || input.trim().length === 0) {
-    return { isValid: false, error: 'Address is required' };
-  }
-
-  const trimmedInput = input.trim();
-
-  // Check if it's a valid Octra address
-  if (isOctraAddress(trimmedInput)) {
-    return { isValid: true };
-  }
-
-  return { 
-    isValid: false, 
-    error: 'Invalid address format. Must be exactly 47 characters starting with "oct"'
-  };
-}
-
 export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess }: FileMultiSendProps) {
   const [recipients, setRecipients] = useState<FileRecipient[]>([]);
   const [amountMode, setAmountMode] = useState<'same' | 'different'>('same');
@@ -63,10 +48,15 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [results, setResults] = useState<Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }>>([]);
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  // A flagged recipient blocks the first send, sending again with the same recipients goes ahead
+  const [acknowledgedWarnings, setAcknowledgedWarnings] = useState('');
+  const [manualAddress, setManualAddress] = useState('');
+  const { labelFor } = useAddressBook();
   const { toast } = useToast();
 
-  const calculateFee = (amount: number) => {
-    return amount < 1000 ? 0.001 : 0.003;
+  const calculateFee = (amount: OctAmount) => {
+    return ouToFee(resolveOu(feeSelection, amount));
   };
 
   const copyToClipboard = async (text: string, label: string) => {
@@ -86,10 +76,12 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
   };
 
   const validateAmount = (amountStr: string) => {
-    const num = parseFloat(amountStr);
-    return !isNaN(num) && num > 0;
+    const parsed = tryParseOct(amountStr);
+    return parsed !== null && parsed > ZERO_OCT;
   };
 
+  const parseAmount = (amountStr: string): OctAmount => tryParseOct(amountStr) ?? ZERO_OCT;
+
   const processFileContent = async (content: string) => {
     setIsProcessing(true);
     
@@ -131,7 +123,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
         }
 
         if (!error) {
-          const validation = validateRecipientInput(address);
+          const validation = validateOctraAddress(address);
           if (!validation.isValid) {
             error = validation.error || 'Invalid address';
           } else if (!validateAmount(amount)) {
@@ -236,6 +228,37 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     setIsDragOver(false);
   }, []);
 
+  // Single recipients picked from the address book, added next to any uploaded ones
+  const addManualRecipient = () => {
+    const validation = validateOctraAddress(manualAddress);
+    if (!validation.isValid) {
+      toast({
+        title: "Error",
+        description: validation.error || "Invalid recipient address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (amountMode === 'same' && !validateAmount(sameAmount)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount for all recipients",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = amountMode === 'same' ? sameAmount : '';
+    setRecipients([...recipients, {
+      address: manualAddress.trim(),
+      amount,
+      isValid: amountMode === 'same',
+      error: amountMode === 'same' ? undefined : 'Invalid amount'
+    }]);
+    setManualAddress('');
+  };
+
   const removeRecipient = (index: number) => {
     setRecipients(recipients.filter((_, i) => i !== index));
   };
@@ -245,20 +268,19 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     updated[index] = { 
       ...updated[index], 
       amount,
-      isValid: validateRecipientInput(updated[index].address).isValid && validateAmount(amount),
+      isValid: validateOctraAddress(updated[index].address).isValid && validateAmount(amount),
       error: !validateAmount(amount) ? 'Invalid amount' : undefined
     };
     setRecipients(updated);
   };
 
   const calculateTotalCost = () => {
-    return recipients
+    return sumOct(recipients
       .filter(r => r.isValid)
-      .reduce((total, recipient) => {
-        const amount = parseFloat(recipient.amount) || 0;
-        const fee = calculateFee(amount);
-        return total + amount + fee;
-      }, 0);
+      .map(recipient => {
+        const amount = parseAmount(recipient.amount);
+        return amount + calculateFee(amount);
+      }));
   };
 
   const clearAllRecipients = () => {
@@ -294,11 +316,36 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
       return;
     }
 
+    if (feeSelection.tier === 'custom' && !isValidCustomOu(feeSelection.customOu)) {
+      toast({
+        title: "Error",
+        description: "Invalid custom fee",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const totalCost = calculateTotalCost();
     if (balance !== null && totalCost > balance) {
       toast({
         title: "Error",
-        description: `Insufficient balance. Need ${totalCost.toFixed(8)} OCT total`,
+        description: `Insufficient balance. Need ${formatOct(totalCost)} OCT total`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const [typos, poisoned] = await Promise.all([
+      AddressBookManager.findTypos(validRecipients.map(recipient => recipient.address)),
+      findPoisonedRecipients(validRecipients.map(recipient => recipient.address))
+    ]);
+    const warnings = [...poisoned.map(describePoisoning), ...typos.map(describeTypo)];
+    const warningKey = [...poisoned, ...typos].map(match => match.address).join(',');
+    if (warnings.length > 0 && warningKey !== acknowledgedWarnings) {
+      setAcknowledgedWarnings(warningKey);
+      toast({
+        title: poisoned.length > 0 ? "Suspicious Recipient" : "Possible Typo",
+        description: `${warnings[0]}${warnings.length > 1 ? ` (and ${warnings.length - 1} more)` : ''}. Check the address and press send again to continue`,
         variant: "destructive",
       });
       return;
@@ -308,37 +355,27 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
     setResults([]);
 
     try {
-      // Refresh nonce before sending
-      const freshBalanceData = await fetchBalance(wallet.address);
-      let currentNonce = freshBalanceData.nonce;
-
       const sendResults: Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }> = [];
 
       for (const recipient of validRecipients) {
-        const amount = parseFloat(recipient.amount);
+        const amount = parseAmount(recipient.amount);
         
         try {
-          const transaction = createTransaction(
+          // Sends are serialized per address, so each recipient gets the next nonce
+          const sendResult = await NonceManager.sendTransaction(wallet.address, nonce => SessionKeyring.signTransaction(buildUnsignedTransaction(
             wallet.address,
             recipient.address.trim(),
             amount,
-            currentNonce + 1,
-            wallet.privateKey,
-            wallet.publicKey || '',
-            undefined // No message support in file multi-send
-          );
-
-          const sendResult = await sendTransaction(transaction);
+            nonce,
+            undefined, // No message support in file multi-send
+            resolveOu(feeSelection, amount)
+          )));
           
           sendResults.push({
             ...sendResult,
             recipient: recipient.address,
             amount: recipient.amount
           });
-
-          if (sendResult.success) {
-            currentNonce++;
-          }
         } catch (error) {
           sendResults.push({
             success: false,
@@ -360,8 +397,12 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           description: `${successCount} transaction(s) sent successfully${failCount > 0 ? `, ${failCount} failed` : ''}`,
         });
 
+        AddressBookManager.markUsed(sendResults.filter(r => r.success).map(r => r.recipient)).catch(error => {
+          console.error('Failed to update address book:', error);
+        });
+
         // Update nonce and balance
-        onNonceUpdate(currentNonce);
+        onNonceUpdate(NonceManager.getLastNonce(wallet.address) ?? nonce);
 
         setTimeout(async () => {
           try {
@@ -413,7 +454,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
   const validRecipients = recipients.filter(r => r.isValid);
   const invalidRecipients = recipients.filter(r => !r.isValid);
   const totalCost = calculateTotalCost();
-  const currentBalance = balance || 0;
+  const currentBalance = balance ?? ZERO_OCT;
 
   return (
     <Card>
@@ -444,7 +485,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           <div className="space-y-2">
             <Label>Current Balance</Label>
             <div className="p-3 bg-muted rounded-md font-mono text-sm">
-              {currentBalance.toFixed(8)} OCT
+              {formatOct(currentBalance)} OCT
             </div>
           </div>
         </div>
@@ -544,6 +585,29 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
               <div>• Empty lines are ignored</div>
             </div>
           </div>
+
+          {/* Manual Recipient */}
+          <div className="space-y-2">
+            <Label htmlFor="manualRecipient">Add a Recipient</Label>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <RecipientInput
+                  id="manualRecipient"
+                  value={manualAddress}
+                  onChange={setManualAddress}
+                  excludeAddress={wallet.address}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={addManualRecipient}
+                disabled={!manualAddress.trim()}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
         </div>
 
         {/* Recipients Preview */}
@@ -591,6 +655,9 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
                         ) : (
                           <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0" />
                         )}
+                        {labelFor(recipient.address) && (
+                          <span className="text-xs font-medium">{labelFor(recipient.address)}</span>
+                        )}
                         <span className="font-mono text-xs break-all">
                           {recipient.address}
                         </span>
@@ -601,7 +668,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
                     </div>
                     
                     <div className="flex items-center gap-2 ml-4">
-                      {amountMode === 'different' && recipient.isValid && (
+                      {amountMode === 'different' && validateOctraAddress(recipient.address).isValid && (
                         <Input
                           type="number"
                           value={recipient.amount}
@@ -630,6 +697,16 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           </div>
         )}
 
+        {/* Fee Tier */}
+        {validRecipients.length > 0 && (
+          <FeeSelector
+            amount={maxOct(validRecipients.map(r => parseAmount(r.amount)))}
+            selection={feeSelection}
+            onSelectionChange={setFeeSelection}
+            disabled={isSending}
+          />
+        )}
+
         {/* Total Summary */}
         {validRecipients.length > 0 && (
           <div className="p-4 bg-muted rounded-md space-y-2">
@@ -645,27 +722,28 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
               <div className="flex justify-between">
                 <span>Total Amount:</span>
                 <span className="font-mono">
-                  {validRecipients.reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0).toFixed(8)} OCT
+                  {formatOct(sumOct(validRecipients.map(r => parseAmount(r.amount))))} OCT
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span>Fee Tier:</span>
+                <span className="capitalize">{feeSelection.tier}</span>
+              </div>
               <div className="flex justify-between">
                 <span>Total Fees:</span>
                 <span className="font-mono">
-                  {validRecipients.reduce((sum, r) => {
-                    const amount = parseFloat(r.amount) || 0;
-                    return sum + calculateFee(amount);
-                  }, 0).toFixed(8)} OCT
+                  {formatOct(sumOct(validRecipients.map(r => calculateFee(parseAmount(r.amount)))))} OCT
                 </span>
               </div>
               <Separator />
               <div className="flex justify-between font-medium">
                 <span>Total Cost:</span>
-                <span className="font-mono">{totalCost.toFixed(8)} OCT</span>
+                <span className="font-mono">{formatOct(totalCost)} OCT</span>
               </div>
               <div className="flex justify-between">
                 <span>Remaining Balance:</span>
-                <span className={`font-mono ${currentBalance - totalCost >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {(currentBalance - totalCost).toFixed(8)} OCT
+                <span className={`font-mono ${currentBalance - totalCost >= ZERO_OCT ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatOct(currentBalance - totalCost)} OCT
                 </span>
               </div>
             </div>
@@ -748,7 +826,7 @@ export function FileMultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonce
           {isSending ? (
             `Sending ${validRecipients.length} Transaction(s)...`
           ) : (
-            `Send to ${validRecipients.length} Recipient(s) - ${totalCost.toFixed(8)} OCT Total`
+            `Send to ${validRecipients.length} Recipient(s) - ${formatOct(totalCost)} OCT Total`
           )}
         </Button>
       </CardContent>
@@ -5,10 +5,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Copy, Plus, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { Copy, Plus, AlertTriangle, CheckCircle, Loader2, Split } from 'lucide-react';
 import { Wallet } from '../types/wallet';
 import { generateWallet } from '../utils/wallet';
 import { useToast } from '@/hooks/use-toast';
+import { MnemonicShares } from './MnemonicShares';
 
 interface GenerateWalletProps {
   onWalletGenerated: (wallet: Wallet) => void;
@@ -18,6 +19,7 @@ export function GenerateWallet({ onWalletGenerated }: GenerateWalletProps) {
   const [generatedWallet, setGeneratedWallet] = useState<Wallet | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [hasBackedUp, setHasBackedUp] = useState(false);
+  const [showShares, setShowShares] = useState(false);
   const { toast } = useToast();
 
   const handleGenerateWallet = async () => {
@@ -26,6 +28,7 @@ export function GenerateWallet({ onWalletGenerated }: GenerateWalletProps) {
       const wallet = await generateWallet();
       setGeneratedWallet(wallet);
       setHasBackedUp(false);
+      setShowShares(false);
       toast({
         title: "Wallet Generated!",
         description: "Please backup your wallet information securely",
@@ -160,6 +163,20 @@ export function GenerateWallet({ onWalletGenerated }: GenerateWalletProps) {
             <Copy className="h-4 w-4 mr-2" />
             Copy Mnemonic Phrase
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowShares(!showShares)}
+            className="w-full"
+          >
+            <Split className="h-4 w-4 mr-2" />
+            {showShares ? 'Hide Shamir Shares' : 'Split into Shamir Shares'}
+          </Button>
+          {showShares && (
+            <div className="p-4 border rounded-md">
+              <MnemonicShares mnemonic={generatedWallet.mnemonic} address={generatedWallet.address} />
+            </div>
+          )}
         </div>
       )}
 
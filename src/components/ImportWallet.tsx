@@ -6,19 +6,25 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Key, FileText, AlertTriangle, Loader2 } from 'lucide-react';
+import { Key, FileText, AlertTriangle, Loader2, Eye, Archive, Split, Upload } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { importWalletFromPrivateKey, importWalletFromMnemonic } from '../utils/wallet';
+import { importWalletFromPrivateKey, importWalletFromMnemonic, discoverAccounts, createWatchOnlyWallet } from '../utils/wallet';
 import { useToast } from '@/hooks/use-toast';
+import { RestoreBackup } from './RestoreBackup';
+import { combineMnemonicShares, extractShareLines } from '../utils/shamir';
 
 interface ImportWalletProps {
-  onWalletImported: (wallet: Wallet) => void;
+  onWalletImported: (wallet: Wallet, discoveredAccounts?: Wallet[]) => void;
 }
 
 export function ImportWallet({ onWalletImported }: ImportWalletProps) {
   const [privateKey, setPrivateKey] = useState('');
   const [mnemonic, setMnemonic] = useState('');
+  const [watchAddress, setWatchAddress] = useState('');
+  const [useShares, setUseShares] = useState(false);
+  const [shareText, setShareText] = useState('');
   const [isImporting, setIsImporting] = useState(false);
+  const [scanProgress, setScanProgress] = useState<string | null>(null);
   const { toast } = useToast();
 
   const handleImportFromPrivateKey = async () => {
@@ -74,9 +80,38 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
       return;
     }
 
+    await importMnemonic(mnemonic.trim());
+  };
+
+  const handleImportFromShares = async () => {
+    let recovered: string;
+    try {
+      recovered = combineMnemonicShares(extractShareLines(shareText));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to combine shares",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await importMnemonic(recovered);
+  };
+
+  const handleShareFiles = async (files: FileList) => {
+    const contents = await Promise.all(Array.from(files).map(file => file.text()));
+    const lines = contents.flatMap(extractShareLines);
+    setShareText(prev => [...extractShareLines(prev), ...lines].join('\n'));
+    // Reset file input so the same file can be picked again
+    const fileInput = document.getElementById('shareFileInput') as HTMLInputElement;
+    if (fileInput) fileInput.value = '';
+  };
+
+  const importMnemonic = async (phrase: string) => {
     setIsImporting(true);
     try {
-      const wallet = await importWalletFromMnemonic(mnemonic.trim());
+      const wallet = await importWalletFromMnemonic(phrase);
       
       // Check if wallet already exists
       const existingWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
@@ -91,10 +126,20 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
         return;
       }
       
-      onWalletImported(wallet);
+      // Restore every derived account that has been used on chain
+      const discovered = await discoverAccounts(phrase, wallet.type, undefined, (index, found) => {
+        setScanProgress(`Scanning account ${index}${found > 0 ? ` (${found} found)` : ''}...`);
+      });
+      const discoveredAccounts = discovered.filter(
+        account => !existingWallets.some((w: Wallet) => w.address === account.address)
+      );
+      
+      onWalletImported(wallet, discoveredAccounts);
       toast({
         title: "Success!",
-        description: "Wallet imported successfully",
+        description: discoveredAccounts.length > 0
+          ? `Wallet imported with ${discoveredAccounts.length} additional account${discoveredAccounts.length !== 1 ? 's' : ''}`
+          : "Wallet imported successfully",
       });
     } catch (error) {
       toast({
@@ -104,6 +149,47 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
       });
     } finally {
       setIsImporting(false);
+      setScanProgress(null);
+    }
+  };
+
+  const handleAddWatchOnly = () => {
+    if (!watchAddress.trim()) {
+      toast({
+        title: "Error",
+        description: "Address required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const wallet = createWatchOnlyWallet(watchAddress);
+      
+      // Check if wallet already exists
+      const existingWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
+      const walletExists = existingWallets.some((w: Wallet) => w.address === wallet.address);
+      
+      if (walletExists) {
+        toast({
+          title: "Wallet Already Exists",
+          description: "This address is already in your collection",
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      onWalletImported(wallet);
+      toast({
+        title: "Success!",
+        description: "Watch-only address added",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add address",
+        variant: "destructive",
+      });
     }
   };
 
@@ -119,7 +205,7 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
       </Alert>
 
       <Tabs defaultValue="private-key" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="private-key" className="flex items-center gap-2">
             <Key className="h-4 w-4" />
             Private Key
@@ -128,6 +214,14 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
             <FileText className="h-4 w-4" />
             Mnemonic
           </TabsTrigger>
+          <TabsTrigger value="watch-only" className="flex items-center gap-2">
+            <Eye className="h-4 w-4" />
+            Watch
+          </TabsTrigger>
+          <TabsTrigger value="backup" className="flex items-center gap-2">
+            <Archive className="h-4 w-4" />
+            Backup
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="private-key" className="space-y-4 mt-6">
@@ -164,37 +258,110 @@ export function ImportWallet({ onWalletImported }: ImportWalletProps) {
         </TabsContent>
 
         <TabsContent value="mnemonic" className="space-y-4 mt-6">
-          <div className="space-y-2">
-            <Label htmlFor="mnemonic">Mnemonic Phrase</Label>
-            <Textarea
-              id="mnemonic"
-              placeholder="Enter your 12 or 24 word mnemonic phrase"
-              value={mnemonic}
-              onChange={(e) => setMnemonic(e.target.value)}
-              rows={4}
+          {useShares ? (
+            <div className="space-y-2">
+              <Label htmlFor="shares">Shamir Shares</Label>
+              <Textarea
+                id="shares"
+                placeholder="Paste each share on its own line"
+                value={shareText}
+                onChange={(e) => setShareText(e.target.value)}
+                rows={6}
                 className="font-mono text-sm"
-            />
-            <p className="text-sm text-muted-foreground">
-              Enter your mnemonic phrase separated by spaces (12 or 24 words)
-            </p>
-          </div>
+              />
+              <p className="text-sm text-muted-foreground">
+                {extractShareLines(shareText).length} share{extractShareLines(shareText).length !== 1 ? 's' : ''} entered. Paste shares or load share files until the required number is reached.
+              </p>
+              <Input
+                type="file"
+                accept=".txt"
+                multiple
+                onChange={(e) => e.target.files && handleShareFiles(e.target.files)}
+                className="hidden"
+                id="shareFileInput"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => document.getElementById('shareFileInput')?.click()}
+                className="w-full"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Load Share Files
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="mnemonic">Mnemonic Phrase</Label>
+              <Textarea
+                id="mnemonic"
+                placeholder="Enter your 12 or 24 word mnemonic phrase"
+                value={mnemonic}
+                onChange={(e) => setMnemonic(e.target.value)}
+                rows={4}
+                className="font-mono text-sm"
+              />
+              <p className="text-sm text-muted-foreground">
+                Enter your mnemonic phrase separated by spaces (12 or 24 words)
+              </p>
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setUseShares(!useShares)}
+            className="w-full"
+          >
+            <Split className="h-4 w-4 mr-2" />
+            {useShares ? 'Enter Mnemonic Phrase Instead' : 'Recover from Shamir Shares'}
+          </Button>
 
           <Button 
-            onClick={handleImportFromMnemonic}
-            disabled={isImporting || !mnemonic.trim()}
+            onClick={useShares ? handleImportFromShares : handleImportFromMnemonic}
+            disabled={isImporting || !(useShares ? shareText.trim() : mnemonic.trim())}
             className="w-full"
             size="lg"
           >
             {isImporting ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Importing...
+                {scanProgress || 'Importing...'}
               </>
             ) : (
               "Import Wallet"
             )}
           </Button>
         </TabsContent>
+
+        <TabsContent value="watch-only" className="space-y-4 mt-6">
+          <div className="space-y-2">
+            <Label htmlFor="watch-address">Address</Label>
+            <Input
+              id="watch-address"
+              placeholder="oct..."
+              value={watchAddress}
+              onChange={(e) => setWatchAddress(e.target.value)}
+              className="font-mono text-sm"
+            />
+            <p className="text-sm text-muted-foreground">
+              Track the balance and history of an address without storing its keys. Watch-only wallets cannot send or sign.
+            </p>
+          </div>
+
+          <Button 
+            onClick={handleAddWatchOnly}
+            disabled={!watchAddress.trim()}
+            className="w-full"
+            size="lg"
+          >
+            Add Watch-only Address
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="backup" className="mt-6">
+          <RestoreBackup onWalletImported={onWalletImported} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Download, Split, AlertTriangle } from 'lucide-react';
+import { splitMnemonic, formatShareFile, MnemonicShare, MAX_SHARES } from '../utils/shamir';
+import { useToast } from '@/hooks/use-toast';
+
+interface MnemonicSharesProps {
+  mnemonic: string;
+  address: string;
+}
+
+export function MnemonicShares({ mnemonic, address }: MnemonicSharesProps) {
+  const [threshold, setThreshold] = useState('2');
+  const [totalShares, setTotalShares] = useState('3');
+  const [shares, setShares] = useState<MnemonicShare[]>([]);
+  const { toast } = useToast();
+
+  const handleSplit = () => {
+    try {
+      setShares(splitMnemonic(mnemonic, parseInt(threshold, 10), parseInt(totalShares, 10)));
+    } catch (error) {
+      toast({
+        title: "Split Failed",
+        description: error instanceof Error ? error.message : "Failed to split recovery phrase",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTotalChange = (value: string) => {
+    setTotalShares(value);
+    if (parseInt(threshold, 10) > parseInt(value, 10)) {
+      setThreshold(value);
+    }
+    setShares([]);
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard`,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadShare = (share: MnemonicShare) => {
+    const blob = new Blob([formatShareFile(share, shares.length, address)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `octra-share-${share.index}-of-${shares.length}-${address.slice(0, 8)}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const shareCounts = Array.from({ length: MAX_SHARES - 1 }, (_, i) => String(i + 2));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Split the recovery phrase into shares so that any {threshold} of {totalShares} restore the wallet.
+        Fewer shares reveal nothing about the phrase.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Shares required</Label>
+          <Select value={threshold} onValueChange={(value) => { setThreshold(value); setShares([]); }}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {shareCounts.filter(n => parseInt(n, 10) <= parseInt(totalShares, 10)).map(n => (
+                <SelectItem key={n} value={n}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Total shares</Label>
+          <Select value={totalShares} onValueChange={handleTotalChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {shareCounts.map(n => (
+                <SelectItem key={n} value={n}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button variant="outline" onClick={handleSplit} className="w-full">
+        <Split className="h-4 w-4 mr-2" />
+        {shares.length > 0 ? 'Generate New Shares' : 'Split Recovery Phrase'}
+      </Button>
+
+      {shares.length > 0 && (
+        <div className="space-y-3">
+          <Alert>
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <AlertDescription>
+                Shares from different splits cannot be mixed. Give each share to a different holder or location.
+              </AlertDescription>
+            </div>
+          </Alert>
+
+          {shares.map(share => (
+            <div key={share.index} className="p-3 bg-muted rounded-md space-y-2">
+              <div className="flex items-center justify-between">
+                <Badge variant="outline">Share {share.index} of {shares.length}</Badge>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(share.words, `Share ${share.index}`)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadShare(share)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="font-mono text-xs break-words">{share.words}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,16 @@ import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Users, Plus, Trash2, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare, Loader2 } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { fetchBalance, buildUnsignedTransaction } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { NonceManager } from '../utils/nonceManager';
+import { FeeSelection, DEFAULT_FEE_SELECTION, resolveOu, ouToFee, isValidCustomOu } from '../utils/feeEstimator';
+import { FeeSelector } from './FeeSelector';
+import { OctAmount, ZERO_OCT, tryParseOct, formatOct, sumOct, maxOct } from '../utils/octAmount';
+import { RecipientInput } from './RecipientInput';
+import { AddressBookManager, describeTypo } from '../utils/addressBook';
+import { findPoisonedRecipients, describePoisoning } from '../utils/addressPoisoning';
+import { validateOctraAddress } from '../utils/crypto';
 import { useToast } from '@/hooks/use-toast';
 
 interface Recipient {
@@ -21,44 +30,22 @@ interface Recipient {
 
 interface MultiSendProps {
   wallet: Wallet | null;
-  balance: number | null;
+  balance: OctAmount | null;
   nonce: number;
-  onBalanceUpdate: (balance: number) => void;
+  onBalanceUpdate: (balance: OctAmount) => void;
   onNonceUpdate: (nonce: number) => void;
   onTransactionSuccess: () => void;
 }
 
-// Simple address validation function
-function isOctraAddress(input: string): boolean {
-  // Check if it's a valid Octra address: exactly 47 characters starting with "oct"
-  const addressRegex = /^oct[123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz]{44}$/;
-  return addressRegex.test(input);
-}
-
-function validateRecipientInput(input: string): { isValid: boolean; error?: string } {
-  if (!input || input.trim().length === 0) {
-    return { isValid: false, error: 'Address is required' };
-  }
-
-  const trimmedInput = input.trim();
-
-  // Check if it's a valid Octra address
-  if (isOctraAddress(trimmedInput)) {
-    return { isValid: true };
-  }
-
-  return { 
-    isValid: false, 
-    error: 'Invalid address format. Must be exactly 47 characters starting with "oct"'
-  };
-}
-
 export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess }: MultiSendProps) {
   const [recipients, setRecipients] = useState<Recipient[]>([
     { address: '', amount: '', message: '' }
   ]);
   const [isSending, setIsSending] = useState(false);
   const [results, setResults] = useState<Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }>>([]);
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  // A flagged recipient blocks the first send, sending again with the same recipients goes ahead
+  const [acknowledgedWarnings, setAcknowledgedWarnings] = useState('');
   const { toast } = useToast();
 
   // Validate addresses when recipient addresses change
@@ -71,7 +58,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
         };
       }
 
-      const validation = validateRecipientInput(recipient.address);
+      const validation = validateOctraAddress(recipient.address);
       return {
         ...recipient,
         addressValidation: validation
@@ -82,13 +69,14 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
   }, [recipients.map(r => r.address).join(',')]);
 
   const validateAmount = (amountStr: string) => {
-    const num = parseFloat(amountStr);
-    return !isNaN(num) && num > 0;
+    const parsed = tryParseOct(amountStr);
+    return parsed !== null && parsed > ZERO_OCT;
   };
 
-  const calculateFee = (amount: number) => {
-    // Fee calculation based on CLI logic: 0.001 for < 1000, 0.003 for >= 1000
-    return amount < 1000 ? 0.001 : 0.003;
+  const parseAmount = (amountStr: string): OctAmount => tryParseOct(amountStr) ?? ZERO_OCT;
+
+  const calculateFee = (amount: OctAmount) => {
+    return ouToFee(resolveOu(feeSelection, amount));
   };
 
   const copyToClipboard = async (text: string, label: string) => {
@@ -129,7 +117,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
         return { valid: false, error: 'All recipient addresses are required' };
       }
       
-      const validation = validateRecipientInput(recipient.address);
+      const validation = validateOctraAddress(recipient.address);
       if (!validation.isValid) {
         return { valid: false, error: `Invalid address: ${validation.error}` };
       }
@@ -142,15 +130,18 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
         return { valid: false, error: 'Message too long (max 1024 characters)' };
       }
     }
+
+    if (feeSelection.tier === 'custom' && !isValidCustomOu(feeSelection.customOu)) {
+      return { valid: false, error: 'Invalid custom fee' };
+    }
     return { valid: true };
   };
 
   const calculateTotalCost = () => {
-    return recipients.reduce((total, recipient) => {
-      const amount = parseFloat(recipient.amount) || 0;
-      const fee = calculateFee(amount);
-      return total + amount + fee;
-    }, 0);
+    return sumOct(recipients.map(recipient => {
+      const amount = parseAmount(recipient.amount);
+      return amount + calculateFee(amount);
+    }));
   };
 
   const handleSendAll = async () => {
@@ -177,7 +168,23 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
     if (balance !== null && totalCost > balance) {
       toast({
         title: "Error",
-        description: `Insufficient balance. Need ${totalCost.toFixed(8)} OCT total`,
+        description: `Insufficient balance. Need ${formatOct(totalCost)} OCT total`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const [typos, poisoned] = await Promise.all([
+      AddressBookManager.findTypos(recipients.map(recipient => recipient.address)),
+      findPoisonedRecipients(recipients.map(recipient => recipient.address))
+    ]);
+    const warnings = [...poisoned.map(describePoisoning), ...typos.map(describeTypo)];
+    const warningKey = [...poisoned, ...typos].map(match => match.address).join(',');
+    if (warnings.length > 0 && warningKey !== acknowledgedWarnings) {
+      setAcknowledgedWarnings(warningKey);
+      toast({
+        title: poisoned.length > 0 ? "Suspicious Recipient" : "Possible Typo",
+        description: `${warnings[0]}${warnings.length > 1 ? ` (and ${warnings.length - 1} more)` : ''}. Check the address and press send again to continue`,
         variant: "destructive",
       });
       return;
@@ -187,37 +194,27 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
     setResults([]);
 
     try {
-      // Refresh nonce before sending
-      const freshBalanceData = await fetchBalance(wallet.address);
-      let currentNonce = freshBalanceData.nonce;
-
       const sendResults: Array<{ success: boolean; hash?: string; error?: string; recipient: string; amount: string }> = [];
 
       for (const recipient of recipients) {
-        const amount = parseFloat(recipient.amount);
+        const amount = parseAmount(recipient.amount);
         
         try {
-          const transaction = createTransaction(
+          // Sends are serialized per address, so each recipient gets the next nonce
+          const sendResult = await NonceManager.sendTransaction(wallet.address, nonce => SessionKeyring.signTransaction(buildUnsignedTransaction(
             wallet.address,
             recipient.address.trim(),
             amount,
-            currentNonce + 1,
-            wallet.privateKey,
-            wallet.publicKey || '',
-            recipient.message || undefined
-          );
-
-          const sendResult = await sendTransaction(transaction);
+            nonce,
+            recipient.message || undefined,
+            resolveOu(feeSelection, amount)
+          )));
           
           sendResults.push({
             ...sendResult,
             recipient: recipient.address,
             amount: recipient.amount
           });
-
-          if (sendResult.success) {
-            currentNonce++;
-          }
         } catch (error) {
           sendResults.push({
             success: false,
@@ -239,8 +236,12 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
           description: `${successCount} transaction(s) sent successfully${failCount > 0 ? `, ${failCount} failed` : ''}`,
         });
 
+        AddressBookManager.markUsed(sendResults.filter(r => r.success).map(r => r.recipient)).catch(error => {
+          console.error('Failed to update address book:', error);
+        });
+
         // Update nonce and balance
-        onNonceUpdate(currentNonce);
+        onNonceUpdate(NonceManager.getLastNonce(wallet.address) ?? nonce);
 
         setTimeout(async () => {
           try {
@@ -290,7 +291,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
   }
 
   const totalCost = calculateTotalCost();
-  const currentBalance = balance || 0;
+  const currentBalance = balance ?? ZERO_OCT;
 
   return (
     <Card>
@@ -321,7 +322,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
           <div className="space-y-2">
             <Label>Current Balance</Label>
             <div className="p-3 bg-muted rounded-md font-mono text-sm">
-              {currentBalance.toFixed(8)} OCT
+              {formatOct(currentBalance)} OCT
             </div>
           </div>
         </div>
@@ -364,11 +365,10 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
                   {/* Address */}
                   <div className="space-y-2">
                     <Label>Address</Label>
-                    <Input
-                      placeholder="oct..."
+                    <RecipientInput
                       value={recipient.address}
-                      onChange={(e) => updateRecipient(index, 'address', e.target.value)}
-                      className="font-mono"
+                      onChange={(address) => updateRecipient(index, 'address', address)}
+                      excludeAddress={wallet.address}
                     />
                     
                     {/* Address Validation Status */}
@@ -427,15 +427,15 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
                   <div className="p-2 bg-muted/50 rounded text-xs">
                     <div className="flex justify-between">
                       <span>Amount:</span>
-                      <span className="font-mono">{parseFloat(recipient.amount).toFixed(8)} OCT</span>
+                      <span className="font-mono">{formatOct(parseAmount(recipient.amount))} OCT</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Fee:</span>
-                      <span className="font-mono">{calculateFee(parseFloat(recipient.amount)).toFixed(8)} OCT</span>
+                      <span className="font-mono">{formatOct(calculateFee(parseAmount(recipient.amount)))} OCT ({resolveOu(feeSelection, parseAmount(recipient.amount))} ou)</span>
                     </div>
                     <div className="flex justify-between font-medium">
                       <span>Total:</span>
-                      <span className="font-mono">{(parseFloat(recipient.amount) + calculateFee(parseFloat(recipient.amount))).toFixed(8)} OCT</span>
+                      <span className="font-mono">{formatOct(parseAmount(recipient.amount) + calculateFee(parseAmount(recipient.amount)))} OCT</span>
                     </div>
                   </div>
                 )}
@@ -444,6 +444,14 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
           ))}
         </div>
 
+        {/* Fee Tier */}
+        <FeeSelector
+          amount={maxOct(recipients.map(r => parseAmount(r.amount)))}
+          selection={feeSelection}
+          onSelectionChange={setFeeSelection}
+          disabled={isSending}
+        />
+
         {/* Total Summary */}
         {recipients.some(r => r.amount && validateAmount(r.amount)) && (
           <div className="p-4 bg-muted rounded-md space-y-2">
@@ -459,27 +467,31 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
               <div className="flex justify-between">
                 <span>Total Amount:</span>
                 <span className="font-mono">
-                  {recipients.reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0).toFixed(8)} OCT
+                  {formatOct(sumOct(recipients.map(r => parseAmount(r.amount))))} OCT
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span>Fee Tier:</span>
+                <span className="capitalize">{feeSelection.tier}</span>
+              </div>
               <div className="flex justify-between">
                 <span>Total Fees:</span>
                 <span className="font-mono">
-                  {recipients.reduce((sum, r) => {
-                    const amount = parseFloat(r.amount) || 0;
-                    return sum + (amount > 0 ? calculateFee(amount) : 0);
-                  }, 0).toFixed(8)} OCT
+                  {formatOct(sumOct(recipients.map(r => {
+                    const amount = parseAmount(r.amount);
+                    return amount > ZERO_OCT ? calculateFee(amount) : ZERO_OCT;
+                  })))} OCT
                 </span>
               </div>
               <Separator />
               <div className="flex justify-between font-medium">
                 <span>Total Cost:</span>
-                <span className="font-mono">{totalCost.toFixed(8)} OCT</span>
+                <span className="font-mono">{formatOct(totalCost)} OCT</span>
               </div>
               <div className="flex justify-between">
                 <span>Remaining Balance:</span>
-                <span className={`font-mono ${currentBalance - totalCost >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {(currentBalance - totalCost).toFixed(8)} OCT
+                <span className={`font-mono ${currentBalance - totalCost >= ZERO_OCT ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatOct(currentBalance - totalCost)} OCT
                 </span>
               </div>
             </div>
@@ -565,7 +577,7 @@ export function MultiSend({ wallet, balance, nonce, onBalanceUpdate, onNonceUpda
               Sending {recipients.length} Transaction(s)...
             </>
           ) : (
-            `Send to ${recipients.length} Recipient(s) - ${totalCost.toFixed(8)} OCT Total`
+            `Send to ${recipients.length} Recipient(s) - ${formatOct(totalCost)} OCT Total`
           )}
         </Button>
       </CardContent>
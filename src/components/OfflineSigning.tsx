@@ -0,0 +1,496 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileKey, PenLine, Radio, Download, Copy, Upload, CheckCircle, AlertTriangle, ExternalLink, Loader2 } from 'lucide-react';
+import { Wallet, Transaction, OfflineTransactionFile, OfflineTransactionFormat } from '../types/wallet';
+import {
+  UNSIGNED_TX_FORMAT,
+  SIGNED_TX_FORMAT,
+  createUnsignedTransfer,
+  parseOfflineTransaction,
+  signOfflineTransaction,
+  verifySignedTransaction,
+  broadcastSignedTransaction,
+  serializeOfflineTransaction,
+  downloadOfflineTransaction
+} from '../utils/offlineSigning';
+import { FeeSelection, DEFAULT_FEE_SELECTION, resolveOu, ouToFee, isValidCustomOu } from '../utils/feeEstimator';
+import { FeeSelector } from './FeeSelector';
+import { RecipientInput } from './RecipientInput';
+import { ZERO_OCT, tryParseOct, octFromMicroUnits, formatOct } from '../utils/octAmount';
+import { validateOctraAddress } from '../utils/crypto';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { useToast } from '@/hooks/use-toast';
+
+interface OfflineSigningProps {
+  wallet: Wallet;
+  onTransactionSuccess?: () => void;
+}
+
+function TransactionReview({ transaction }: { transaction: Transaction }) {
+  const amount = octFromMicroUnits(transaction.amount);
+  const fee = ouToFee(transaction.ou);
+
+  return (
+    <div className="p-3 bg-muted rounded-md space-y-2 text-sm">
+      <div>
+        <span className="text-muted-foreground">From:</span>
+        <div className="font-mono text-xs break-all">{transaction.from}</div>
+      </div>
+      <div>
+        <span className="text-muted-foreground">To:</span>
+        <div className="font-mono text-xs break-all">{transaction.to_}</div>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Amount:</span>
+        <span className="font-mono">{formatOct(amount)} OCT</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Fee:</span>
+        <span className="font-mono">{formatOct(fee)} OCT (ou {transaction.ou})</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Nonce:</span>
+        <span className="font-mono">{transaction.nonce}</span>
+      </div>
+      {transaction.message && (
+        <div>
+          <span className="text-muted-foreground">Message:</span>
+          <div className="text-xs break-all">{transaction.message}</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Load a transaction from a file or pasted text
+function OfflineFileInput({ id, format, onLoaded }: {
+  id: string;
+  format: OfflineTransactionFormat;
+  onLoaded: (file: OfflineTransactionFile | null) => void;
+}) {
+  const [pasted, setPasted] = useState('');
+  const { toast } = useToast();
+
+  const load = (content: string) => {
+    try {
+      onLoaded(parseOfflineTransaction(content, format));
+    } catch (error) {
+      onLoaded(null);
+      toast({
+        title: "Invalid Transaction",
+        description: error instanceof Error ? error.message : "Failed to read transaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        type="file"
+        accept=".json,application/json"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          if (file) load(await file.text());
+          e.target.value = '';
+        }}
+        className="hidden"
+        id={id}
+      />
+      <Button
+        variant="outline"
+        onClick={() => document.getElementById(id)?.click()}
+        className="w-full"
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        Choose {format === SIGNED_TX_FORMAT ? 'Signed' : 'Unsigned'} Transaction File
+      </Button>
+      <Textarea
+        placeholder="...or paste the transaction here"
+        value={pasted}
+        onChange={(e) => setPasted(e.target.value)}
+        rows={3}
+        className="font-mono text-xs"
+      />
+      {pasted.trim() && (
+        <Button variant="outline" size="sm" onClick={() => load(pasted)}>
+          Load Pasted Transaction
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Hand a transaction to the other machine as a file or copied text
+function OfflineFileOutput({ file }: { file: OfflineTransactionFile }) {
+  const { toast } = useToast();
+  const serialized = serializeOfflineTransaction(file);
+
+  const handleDownload = () => {
+    const filename = downloadOfflineTransaction(file);
+    toast({
+      title: "Transaction Exported",
+      description: `${filename} has been downloaded`,
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serialized);
+      toast({
+        title: "Copied!",
+        description: "Transaction copied to clipboard",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Copy failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea value={serialized} readOnly rows={6} className="font-mono text-xs" />
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleDownload} className="flex-1">
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button variant="outline" onClick={handleCopy} className="flex-1">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Air-gapped sending in three steps: the online wallet (watch-only is fine)
+ * creates an unsigned transfer, the offline wallet signs it, and the online
+ * wallet verifies and broadcasts the signed copy.
+ */
+export function OfflineSigning({ wallet, onTransactionSuccess }: OfflineSigningProps) {
+  const isWatchOnly = isWatchOnlyWallet(wallet);
+  const [activeTab, setActiveTab] = useState(isWatchOnly ? 'create' : 'sign');
+  const { toast } = useToast();
+
+  // Create (online)
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  const [isCreating, setIsCreating] = useState(false);
+  const [unsignedFile, setUnsignedFile] = useState<OfflineTransactionFile | null>(null);
+
+  // Sign (offline)
+  const [toSign, setToSign] = useState<OfflineTransactionFile | null>(null);
+  const [signedFile, setSignedFile] = useState<OfflineTransactionFile | null>(null);
+
+  // Broadcast (online)
+  const [toBroadcast, setToBroadcast] = useState<OfflineTransactionFile | null>(null);
+  const [signatureValid, setSignatureValid] = useState<boolean | null>(null);
+  const [isBroadcasting, setIsBroadcasting] = useState(false);
+  const [broadcastResult, setBroadcastResult] = useState<{ success: boolean; hash?: string; error?: string } | null>(null);
+
+  const amountMu = tryParseOct(amount) ?? ZERO_OCT;
+
+  const handleCreate = async () => {
+    const validation = validateOctraAddress(recipient);
+    if (!validation.isValid) {
+      toast({
+        title: "Error",
+        description: validation.error || "Invalid recipient address",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (amountMu <= ZERO_OCT) {
+      toast({
+        title: "Error",
+        description: "Invalid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (feeSelection.tier === 'custom' && !isValidCustomOu(feeSelection.customOu)) {
+      toast({
+        title: "Error",
+        description: "Invalid custom fee",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      setUnsignedFile(await createUnsignedTransfer({
+        from: wallet.address,
+        to: recipient,
+        amount: amountMu,
+        ou: resolveOu(feeSelection, amountMu),
+        message
+      }));
+    } catch (error) {
+      console.error('Failed to create unsigned transaction:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create transaction",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!toSign) return;
+    try {
+      setSignedFile(await signOfflineTransaction(toSign, wallet));
+      toast({
+        title: "Transaction Signed",
+        description: "Move the signed transaction to the online wallet to broadcast it",
+      });
+    } catch (error) {
+      toast({
+        title: "Signing Failed",
+        description: error instanceof Error ? error.message : "Failed to sign transaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSignedLoaded = async (file: OfflineTransactionFile | null) => {
+    setToBroadcast(file);
+    setBroadcastResult(null);
+    setSignatureValid(file ? await verifySignedTransaction(file.transaction) : null);
+  };
+
+  const handleBroadcast = async () => {
+    if (!toBroadcast) return;
+
+    setIsBroadcasting(true);
+    try {
+      const result = await broadcastSignedTransaction(toBroadcast);
+      setBroadcastResult(result);
+      if (result.success) {
+        toast({
+          title: "Transaction Sent!",
+          description: "Signed transaction has been broadcast",
+        });
+        setToBroadcast(null);
+        setUnsignedFile(null);
+        onTransactionSuccess?.();
+      }
+    } finally {
+      setIsBroadcasting(false);
+    }
+  };
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <TabsList className="grid w-full grid-cols-3">
+        <TabsTrigger value="create" className="flex items-center gap-1">
+          <FileKey className="h-4 w-4" />
+          Create
+        </TabsTrigger>
+        <TabsTrigger value="sign" className="flex items-center gap-1">
+          <PenLine className="h-4 w-4" />
+          Sign
+        </TabsTrigger>
+        <TabsTrigger value="broadcast" className="flex items-center gap-1">
+          <Radio className="h-4 w-4" />
+          Broadcast
+        </TabsTrigger>
+      </TabsList>
+
+      {/* Step 1: online machine */}
+      <TabsContent value="create" className="space-y-4 mt-4">
+        <p className="text-sm text-muted-foreground">
+          Build an unsigned transfer from {wallet.address.slice(0, 10)}... on this online machine. No keys are needed.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="offline-recipient">Recipient Address</Label>
+          <RecipientInput
+            id="offline-recipient"
+            value={recipient}
+            onChange={setRecipient}
+            excludeAddress={wallet.address}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="offline-amount">Amount (OCT)</Label>
+          <Input
+            id="offline-amount"
+            type="number"
+            placeholder="0.00000000"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            step="0.1"
+            min="0"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="offline-message">Message (Optional)</Label>
+          <Textarea
+            id="offline-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={1024}
+            rows={2}
+          />
+        </div>
+
+        <FeeSelector
+          amount={amountMu}
+          selection={feeSelection}
+          onSelectionChange={setFeeSelection}
+          disabled={isCreating}
+        />
+
+        <Button onClick={handleCreate} disabled={isCreating || !recipient.trim() || !amount} className="w-full">
+          {isCreating ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Creating...
+            </div>
+          ) : (
+            'Create Unsigned Transaction'
+          )}
+        </Button>
+
+        {unsignedFile && (
+          <div className="space-y-2">
+            <TransactionReview transaction={unsignedFile.transaction} />
+            <OfflineFileOutput file={unsignedFile} />
+            <p className="text-xs text-muted-foreground">
+              Nonce {unsignedFile.transaction.nonce} is not reserved. Sending anything else from this address first makes this transaction invalid.
+            </p>
+          </div>
+        )}
+      </TabsContent>
+
+      {/* Step 2: offline machine */}
+      <TabsContent value="sign" className="space-y-4 mt-4">
+        {isWatchOnly ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This is a watch-only wallet. Sign on the offline machine that holds the key for this address.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Load the unsigned transaction on this offline machine, check every field, then sign.
+            </p>
+            <OfflineFileInput
+              id="unsignedTxInput"
+              format={UNSIGNED_TX_FORMAT}
+              onLoaded={(file) => {
+                setToSign(file);
+                setSignedFile(null);
+              }}
+            />
+
+            {toSign && (
+              <div className="space-y-2">
+                <TransactionReview transaction={toSign.transaction} />
+                {toSign.transaction.from !== wallet.address && (
+                  <p className="text-sm text-red-600">
+                    This transaction is from a different address. Switch to that wallet to sign it.
+                  </p>
+                )}
+                <Button
+                  onClick={handleSign}
+                  disabled={toSign.transaction.from !== wallet.address || signedFile !== null}
+                  className="w-full"
+                >
+                  <PenLine className="h-4 w-4 mr-2" />
+                  Sign Transaction
+                </Button>
+              </div>
+            )}
+
+            {signedFile && <OfflineFileOutput file={signedFile} />}
+          </>
+        )}
+      </TabsContent>
+
+      {/* Step 3: online machine */}
+      <TabsContent value="broadcast" className="space-y-4 mt-4">
+        <p className="text-sm text-muted-foreground">
+          Load the signed transaction from the offline machine and broadcast it.
+        </p>
+        <OfflineFileInput id="signedTxInput" format={SIGNED_TX_FORMAT} onLoaded={handleSignedLoaded} />
+
+        {toBroadcast && (
+          <div className="space-y-2">
+            <TransactionReview transaction={toBroadcast.transaction} />
+            {signatureValid ? (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="h-4 w-4" />
+                Signature is valid for the sender address
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                Signature does not match this transaction or its sender
+              </div>
+            )}
+            <Button
+              onClick={handleBroadcast}
+              disabled={isBroadcasting || !signatureValid}
+              className="w-full"
+            >
+              {isBroadcasting ? (
+                <div className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Broadcasting...
+                </div>
+              ) : (
+                <>
+                  <Radio className="h-4 w-4 mr-2" />
+                  Broadcast Transaction
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {broadcastResult && (
+          <div className={`rounded-lg p-3 text-sm ${broadcastResult.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}>
+            {broadcastResult.success ? (
+              <div className="space-y-1">
+                <div className="font-medium text-green-800 dark:text-green-200">Transaction broadcast</div>
+                {broadcastResult.hash && (
+                  <a
+                    href={`https://octrascan.io/tx/${broadcastResult.hash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 font-mono text-xs break-all text-green-700 dark:text-green-300"
+                  >
+                    {broadcastResult.hash}
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                  </a>
+                )}
+              </div>
+            ) : (
+              <div className="text-red-800 dark:text-red-200 break-words">{broadcastResult.error}</div>
+            )}
+          </div>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -7,16 +7,19 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Shield, Eye, EyeOff, AlertTriangle } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { hashPassword, encryptWalletData } from '../utils/password';
+import { createVaultHeader, deriveVaultKey, encryptWithVaultKey } from '../utils/password';
+import { ExtensionStorageManager } from '../utils/extensionStorage';
+import { SessionKeyring } from '../utils/sessionKeyring';
 import { useToast } from '@/hooks/use-toast';
 
 interface PasswordSetupProps {
   wallet: Wallet;
+  additionalWallets?: Wallet[];
   onPasswordSet: (wallet: Wallet) => void;
   onBack: () => void;
 }
 
-export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupProps) {
+export function PasswordSetup({ wallet, additionalWallets = [], onPasswordSet, onBack }: PasswordSetupProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -61,12 +64,13 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
     try {
       console.log('🔐 PasswordSetup: Creating password protection...');
       
-      // Hash the password
-      const { hashedPassword, salt } = await hashPassword(password);
-      console.log('✅ PasswordSetup: Password hashed successfully');
+      // Derive the vault key and password verifier
+      const vaultHeader = createVaultHeader();
+      const { key, verifier } = await deriveVaultKey(password, vaultHeader);
+      console.log('✅ PasswordSetup: Vault key derived successfully');
       
       // Get ALL existing wallets that need to be encrypted
-      const existingWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
+      const existingWallets = await SessionKeyring.getWallets();
       console.log(`📦 PasswordSetup: Found ${existingWallets.length} existing wallets to encrypt`);
       
       // CRITICAL FIX: Encrypt ALL wallets (including the current one and any existing ones)
@@ -85,6 +89,13 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
         console.log(`📦 PasswordSetup: Adding current wallet to ${existingWallets.length} existing wallets`);
       }
       
+      // Accounts found by account discovery are stored alongside the imported wallet
+      for (const account of additionalWallets) {
+        if (!walletsToEncrypt.some(w => w.address === account.address)) {
+          walletsToEncrypt.push(account);
+        }
+      }
+      
       console.log(`🔐 PasswordSetup: Will encrypt ${walletsToEncrypt.length} wallets total`);
       
       const encryptedWallets = [];
@@ -92,7 +103,7 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
       for (const walletToEncrypt of walletsToEncrypt) {
         try {
           const walletData = JSON.stringify(walletToEncrypt);
-          const encryptedWalletData = await encryptWalletData(walletData, password);
+          const encryptedWalletData = await encryptWithVaultKey(walletData, key);
           
           encryptedWallets.push({
             address: walletToEncrypt.address,
@@ -109,26 +120,29 @@ export function PasswordSetup({ wallet, onPasswordSet, onBack }: PasswordSetupPr
       
       console.log(`✅ PasswordSetup: Successfully encrypted ${encryptedWallets.length} wallets`);
       
-      // Store password hash and set wallet as unlocked initially
-      localStorage.setItem('walletPasswordHash', hashedPassword);
-      localStorage.setItem('walletPasswordSalt', salt);
-      localStorage.setItem('isWalletLocked', 'false');
-      
-      // CRITICAL FIX: Store ALL encrypted wallets (this replaces any existing encrypted wallets)
-      if (encryptedWallets.length > 0) {
-        localStorage.setItem('encryptedWallets', JSON.stringify(encryptedWallets));
-        console.log(`📦 PasswordSetup: Stored ${encryptedWallets.length} encrypted wallets`);
-      } else {
+      // CRITICAL FIX: Encrypted wallets must exist before the password is stored
+      if (encryptedWallets.length === 0) {
         console.error('❌ PasswordSetup: No wallets were successfully encrypted!');
         throw new Error('Failed to encrypt any wallets');
       }
       
-      // Ensure all wallets are also available in unencrypted storage for immediate use
-      localStorage.setItem('wallets', JSON.stringify(walletsToEncrypt));
-      console.log(`💾 PasswordSetup: Maintained ${walletsToEncrypt.length} wallets in unencrypted storage`);
+      // Store the vault (this replaces any existing encrypted wallets) and set wallet as unlocked initially.
+      // One write for wallets, header and verifier, so an interruption never leaves wallets the header cannot open
+      await ExtensionStorageManager.setMany({
+        encryptedWallets: JSON.stringify(encryptedWallets),
+        walletVaultHeader: JSON.stringify(vaultHeader),
+        walletPasswordHash: verifier
+      });
+      await ExtensionStorageManager.remove('walletPasswordSalt');
+      await ExtensionStorageManager.set('isWalletLocked', 'false');
+      console.log(`📦 PasswordSetup: Stored ${encryptedWallets.length} encrypted wallets`);
+      
+      // Decrypted wallets stay in the session keyring for immediate use
+      await SessionKeyring.open(walletsToEncrypt, key);
+      console.log(`💾 PasswordSetup: Opened session with ${walletsToEncrypt.length} wallets`);
       
       // Set the current wallet as the active wallet
-      localStorage.setItem('activeWalletId', wallet.address);
+      await ExtensionStorageManager.set('activeWalletId', wallet.address);
       
       toast({
         title: "Password Created!",
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle, ClipboardCheck } from 'lucide-react';
+import { PreflightResult, PreflightStatus } from '../utils/preflight';
+
+interface PreflightChecklistProps {
+  result: PreflightResult;
+}
+
+function StatusIcon({ status }: { status: PreflightStatus }) {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'warn':
+      return <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />;
+    default:
+      return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+  }
+}
+
+export function PreflightChecklist({ result }: PreflightChecklistProps) {
+  const warnings = result.checks.filter(check => check.status === 'warn').length;
+
+  return (
+    <div className="p-3 bg-muted rounded-md space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ClipboardCheck className="h-4 w-4" />
+          Preflight Checks
+        </div>
+        <span className={`text-xs ${result.canProceed ? 'text-muted-foreground' : 'text-red-600'}`}>
+          {!result.canProceed
+            ? 'This transaction would fail'
+            : warnings > 0
+              ? `${warnings} warning${warnings !== 1 ? 's' : ''}`
+              : 'All checks passed'}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {result.checks.map(check => (
+          <li key={check.id} className="flex items-start gap-2 text-xs sm:text-sm">
+            <StatusIcon status={check.status} />
+            <div>
+              <div className="font-medium">{check.label}</div>
+              <div className="text-muted-foreground break-words">{check.detail}</div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
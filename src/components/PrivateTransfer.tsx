@@ -4,45 +4,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Shield, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Loader2 } from 'lucide-react';
+import { Shield, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, Loader2, Calculator } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { fetchEncryptedBalance, createPrivateTransfer, getAddressInfo } from '../utils/api';
+import { getAddressInfo } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { defaultOuForAmount, ouToFee } from '../utils/feeEstimator';
+import { OctAmount, ZERO_OCT, tryParseOct, octFromMicroUnits, formatOct } from '../utils/octAmount';
+import { RecipientInput } from './RecipientInput';
+import { AddressBookManager, describeTypo } from '../utils/addressBook';
+import { findPoisonedRecipients, describePoisoning } from '../utils/addressPoisoning';
+import { validateOctraAddress } from '../utils/crypto';
 import { useToast } from '@/hooks/use-toast';
 
 interface PrivateTransferProps {
   wallet: Wallet | null;
-  balance: number | null;
+  balance: OctAmount | null;
   nonce: number;
-  onBalanceUpdate: (newBalance: number) => void;
+  onBalanceUpdate: (newBalance: OctAmount) => void;
   onNonceUpdate: (newNonce: number) => void;
   onTransactionSuccess: () => void;
 }
 
-// Simple address validation function
-function isOctraAddress(input: string): boolean {
-  // Check if it's a valid Octra address: exactly 47 characters starting with "oct"
-  const addressRegex = /^oct[123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz]{44}$/;
-  return addressRegex.test(input);
-}
-
-function validateRecipientInput(input: string): { isValid: boolean; error?: string } {
-  if (!input || input.trim().length === 0) {
-    return { isValid: false, error: 'Address is required' };
-  }
-
-  const trimmedInput = input.trim();
-
-  // Check if it's a valid Octra address
-  if (isOctraAddress(trimmedInput)) {
-    return { isValid: true };
-  }
-
-  return { 
-    isValid: false, 
-    error: 'Invalid address format. Must be exactly 47 characters starting with "oct"'
-  };
-}
-
 export function PrivateTransfer({ 
   wallet, 
   balance, 
@@ -59,12 +41,16 @@ export function PrivateTransfer({
   const [encryptedBalance, setEncryptedBalance] = useState<any>(null);
   const [recipientInfo, setRecipientInfo] = useState<any>(null);
   const [result, setResult] = useState<{ success: boolean; tx_hash?: string; ephemeral_key?: string; error?: string } | null>(null);
+  // A flagged recipient blocks the first send, sending again with the same recipients goes ahead
+  const [acknowledgedWarnings, setAcknowledgedWarnings] = useState('');
   const { toast } = useToast();
 
   // Fetch encrypted balance when wallet changes
   useEffect(() => {
     if (wallet) {
-      fetchEncryptedBalance(wallet.address, wallet.privateKey).then(setEncryptedBalance);
+      SessionKeyring.fetchEncryptedBalance(wallet.address)
+        .then(setEncryptedBalance)
+        .catch(error => console.error('Failed to fetch encrypted balance:', error));
     }
   }, [wallet]);
 
@@ -76,7 +62,7 @@ export function PrivateTransfer({
       return;
     }
 
-    const validation = validateRecipientInput(recipientAddress);
+    const validation = validateOctraAddress(recipientAddress);
     setAddressValidation(validation);
   }, [recipientAddress]);
 
@@ -112,10 +98,15 @@ export function PrivateTransfer({
   }, [addressValidation, recipientAddress, wallet?.address]);
 
   const validateAmount = (amountStr: string) => {
-    const num = parseFloat(amountStr);
-    return !isNaN(num) && num > 0;
+    const parsed = tryParseOct(amountStr);
+    return parsed !== null && parsed > ZERO_OCT;
   };
 
+  const parseAmount = (amountStr: string): OctAmount => tryParseOct(amountStr) ?? ZERO_OCT;
+
+  // Compare against the raw micro-unit balance so the check is exact
+  const availablePrivate = (): OctAmount => encryptedBalance ? octFromMicroUnits(encryptedBalance.encrypted_raw) : ZERO_OCT;
+
   const copyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -180,8 +171,8 @@ export function PrivateTransfer({
       return;
     }
 
-    const amountNum = parseFloat(amount);
-    if (!encryptedBalance || amountNum > encryptedBalance.encrypted) {
+    const amountMu = parseAmount(amount);
+    if (!encryptedBalance || amountMu > availablePrivate()) {
       toast({
         title: "Error",
         description: "Insufficient encrypted balance",
@@ -190,15 +181,30 @@ export function PrivateTransfer({
       return;
     }
 
+    const [typos, poisoned] = await Promise.all([
+      AddressBookManager.findTypos([finalRecipientAddress]),
+      findPoisonedRecipients([finalRecipientAddress])
+    ]);
+    const warnings = [...poisoned.map(describePoisoning), ...typos.map(describeTypo)];
+    const warningKey = [...poisoned, ...typos].map(match => match.address).join(',');
+    if (warnings.length > 0 && warningKey !== acknowledgedWarnings) {
+      setAcknowledgedWarnings(warningKey);
+      toast({
+        title: poisoned.length > 0 ? "Suspicious Recipient" : "Possible Typo",
+        description: `${warnings[0]}${warnings.length > 1 ? ` (and ${warnings.length - 1} more)` : ''}. Check the address and press send again to continue`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
     setResult(null);
 
     try {
-      const transferResult = await createPrivateTransfer(
+      const transferResult = await SessionKeyring.createPrivateTransfer(
         wallet.address,
         finalRecipientAddress,
-        amountNum,
-        wallet.privateKey
+        amountMu
       );
 
       setResult(transferResult);
@@ -209,13 +215,19 @@ export function PrivateTransfer({
           description: "Private transfer has been submitted successfully",
         });
 
+        AddressBookManager.markUsed([recipientAddress]).catch(error => {
+          console.error('Failed to update address book:', error);
+        });
+
         // Reset form
         setRecipientAddress('');
         setAmount('');
         setRecipientInfo(null);
 
         // Refresh encrypted balance
-        fetchEncryptedBalance(wallet.address, wallet.privateKey).then(setEncryptedBalance);
+        SessionKeyring.fetchEncryptedBalance(wallet.address)
+          .then(setEncryptedBalance)
+          .catch(error => console.error('Failed to refresh encrypted balance:', error));
 
         onTransactionSuccess();
       } else {
@@ -300,7 +312,7 @@ export function PrivateTransfer({
           <div className="flex justify-between items-center">
             <span className="text-sm font-medium">Available Private Balance</span>
             <span className="font-mono text-lg font-bold text-yellow-600">
-              {encryptedBalance.encrypted.toFixed(8)} OCT
+              {formatOct(availablePrivate())} OCT
             </span>
           </div>
         </div>
@@ -308,12 +320,11 @@ export function PrivateTransfer({
         {/* Recipient Address */}
         <div className="space-y-2">
           <Label htmlFor="recipient">Recipient Address</Label>
-          <Input
+          <RecipientInput
             id="recipient"
-            placeholder="oct..."
             value={recipientAddress}
-            onChange={(e) => setRecipientAddress(e.target.value)}
-            className="font-mono"
+            onChange={setRecipientAddress}
+            excludeAddress={wallet.address}
           />
           
           {/* Recipient Status */}
@@ -369,11 +380,34 @@ export function PrivateTransfer({
             min="0"
             max={encryptedBalance.encrypted}
           />
-          {amount && validateAmount(amount) && parseFloat(amount) > encryptedBalance.encrypted && (
+          {amount && validateAmount(amount) && parseAmount(amount) > availablePrivate() && (
             <p className="text-sm text-red-600">Amount exceeds available encrypted balance</p>
           )}
         </div>
 
+        {/* Transfer Summary */}
+        {amount && validateAmount(amount) && (
+          <div className="p-3 bg-muted rounded-md space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Calculator className="h-4 w-4" />
+              Transfer Summary
+            </div>
+            <div className="space-y-1 text-xs sm:text-sm">
+              <div className="flex justify-between items-center">
+                <span>Private Amount:</span>
+                <span className="font-mono">{formatOct(parseAmount(amount))} OCT</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span>Network Fee:</span>
+                <span className="font-mono">~{formatOct(ouToFee(defaultOuForAmount(parseAmount(amount))))} OCT</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The node sets the fee of private transfers itself; this is its default for the amount.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Transaction Result */}
         {result && (
           <div className={`rounded-lg p-4 ${result.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}>
@@ -457,7 +491,7 @@ export function PrivateTransfer({
             !recipientInfo ||
             recipientInfo.error ||
             !recipientInfo.has_public_key ||
-            parseFloat(amount) > encryptedBalance.encrypted
+            parseAmount(amount) > availablePrivate()
           }
           className="w-full"
           size="lg"
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Lock, AlertTriangle, X, Check } from 'lucide-react';
+import { Wallet, DAppPrivateTransferRequest } from '../types/wallet';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { validateOctraAddress } from '../utils/crypto';
+import { formatOct, tryParseOct } from '../utils/octAmount';
+import { useToast } from '@/hooks/use-toast';
+
+interface PrivateTransferRequestProps {
+  transferRequest: DAppPrivateTransferRequest;
+  wallet: Wallet | null;
+  onApprove: (txHash: string) => void;
+  onReject: (error?: string) => void;
+}
+
+export function PrivateTransferRequest({
+  transferRequest,
+  wallet,
+  onApprove,
+  onReject
+}: PrivateTransferRequestProps) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const amount = tryParseOct(transferRequest.amount);
+  const recipient = validateOctraAddress(transferRequest.to);
+  const requestError = !recipient.isValid
+    ? recipient.error
+    : amount === null || amount <= 0n ? 'Amount must be a positive OCT value with at most 6 decimals' : undefined;
+
+  const handleApprove = async () => {
+    if (!wallet || !wallet.publicKey) {
+      toast({
+        title: "Wallet Unavailable",
+        description: "The wallet connected to this dApp is not available",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (requestError || amount === null) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await SessionKeyring.createPrivateTransfer(wallet.address, transferRequest.to, amount);
+      if (!result.success || !result.tx_hash) {
+        throw new Error(result.error || 'Private transfer failed');
+      }
+      onApprove(result.tx_hash);
+    } catch (error) {
+      console.error('Private transfer error:', error);
+      toast({
+        title: "Transfer Failed",
+        description: error instanceof Error ? error.message : "Failed to send private transfer",
+        variant: "destructive",
+      });
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = () => {
+    setIsProcessing(true);
+    onReject('User rejected request');
+  };
+
+  const truncateAddress = (address: string) => {
+    return `${address.slice(0, 8)}...${address.slice(-6)}`;
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              {transferRequest.appIcon ? (
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={transferRequest.appIcon} />
+                  <AvatarFallback>
+                    {transferRequest.appName?.charAt(0) || 'A'}
+                  </AvatarFallback>
+                </Avatar>
+              ) : (
+                <div className="h-16 w-16 bg-primary rounded-full flex items-center justify-center">
+                  <Lock className="h-8 w-8 text-primary-foreground" />
+                </div>
+              )}
+            </div>
+            <CardTitle className="text-xl">
+              {transferRequest.appName || 'Unknown App'} wants to send a private transfer
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {transferRequest.origin}
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {/* Sending Account */}
+            <div className="space-y-3">
+              <h3 className="font-medium">From</h3>
+              <div className="p-3 bg-muted rounded-md">
+                {wallet ? (
+                  <span className="font-mono text-sm">
+                    {truncateAddress(wallet.address)}
+                    {isWatchOnlyWallet(wallet) && (
+                      <span className="ml-2 font-sans text-red-600">Watch-only wallets cannot send</span>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-sm text-red-600">Connected wallet not found</span>
+                )}
+              </div>
+            </div>
+
+            {/* Transfer */}
+            <div className="space-y-3">
+              <h3 className="font-medium">Transfer</h3>
+              <div className="p-3 bg-muted rounded-md space-y-2 text-sm">
+                <div className="flex justify-between gap-3">
+                  <span className="text-muted-foreground">To</span>
+                  <span className="font-mono break-all text-right">{transferRequest.to}</span>
+                </div>
+                <div className="flex justify-between gap-3">
+                  <span className="text-muted-foreground">Amount</span>
+                  <span className="font-mono">
+                    {amount !== null ? `${formatOct(amount)} OCT` : transferRequest.amount}
+                  </span>
+                </div>
+              </div>
+              {requestError && (
+                <p className="text-sm text-red-600">{requestError}</p>
+              )}
+            </div>
+
+            <Alert>
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  This is paid from your encrypted balance. The recipient claims it privately, and it cannot be reversed.
+                </AlertDescription>
+              </div>
+            </Alert>
+
+            {/* Action Buttons */}
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleReject}
+                disabled={isProcessing}
+                className="flex-1"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                onClick={handleApprove}
+                disabled={isProcessing || !!requestError || !wallet || isWatchOnlyWallet(wallet)}
+                className="flex-1"
+              >
+                {isProcessing ? (
+                  "Sending..."
+                ) : (
+                  <><Check className="h-4 w-4 mr-2" />Send</>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
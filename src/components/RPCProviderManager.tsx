@@ -9,6 +9,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Wifi, Plus, MoreVertical, Trash2, Star, Settings } from 'lucide-react';
 import { RPCProvider } from '../types/wallet';
 import { useToast } from '@/hooks/use-toast';
+import { ExtensionStorageManager } from '../utils/extensionStorage';
 
 interface RPCProviderManagerProps {
   onClose?: () => void;
@@ -60,6 +61,8 @@ export function RPCProviderManager({ onClose, onRPCChange }: RPCProviderManagerP
     const sorted = updatedProviders.sort((a, b) => a.priority - b.priority);
     setProviders(sorted);
     localStorage.setItem('rpcProviders', JSON.stringify(sorted));
+    // Mirrored to chrome.storage so the background script can tell connected dApps
+    ExtensionStorageManager.set('rpcProviders', JSON.stringify(sorted));
   };
 
   const resetForm = () => {
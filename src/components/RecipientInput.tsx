@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BookUser, AlertTriangle } from 'lucide-react';
+import { AddressBookManager, AddressTypoMatch, searchAddressBook, shortenAddress, describeTypo } from '../utils/addressBook';
+import { PoisoningMatch, findPoisonedRecipients, describePoisoning } from '../utils/addressPoisoning';
+import { useAddressBook } from '@/hooks/use-address-book';
+
+interface RecipientInputProps {
+  id?: string;
+  value: string;
+  onChange: (address: string) => void;
+  // The sending wallet, left out of the suggestions
+  excludeAddress?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Address input that suggests saved contacts by label, tag or address fragment
+export function RecipientInput({ id, value, onChange, excludeAddress, placeholder = 'oct... or contact name', disabled = false }: RecipientInputProps) {
+  const { entries, labelFor } = useAddressBook();
+  const [isFocused, setIsFocused] = useState(false);
+  const [typo, setTypo] = useState<AddressTypoMatch | null>(null);
+  const [poisoned, setPoisoned] = useState<PoisoningMatch | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    AddressBookManager.findTypos([value]).then(matches => {
+      if (active) setTypo(matches[0] ?? null);
+    });
+    findPoisonedRecipients([value]).then(matches => {
+      if (active) setPoisoned(matches[0] ?? null);
+    });
+    return () => {
+      active = false;
+    };
+  }, [value, entries]);
+
+  const savedLabel = labelFor(value);
+  const suggestions = searchAddressBook(entries, savedLabel ? '' : value)
+    .filter(entry => entry.address !== excludeAddress && entry.address !== value.trim())
+    .slice(0, MAX_SUGGESTIONS);
+  const showSuggestions = isFocused && !disabled && !savedLabel && suggestions.length > 0;
+
+  return (
+    <div className="relative space-y-1">
+      <Input
+        id={id}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className="font-mono"
+        autoComplete="off"
+        disabled={disabled}
+      />
+
+      {savedLabel && (
+        <Badge variant="secondary" className="text-xs gap-1">
+          <BookUser className="h-3 w-3" />
+          {savedLabel}
+        </Badge>
+      )}
+
+      {poisoned && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {describePoisoning(poisoned)}. Compare the full address, or{' '}
+            <button
+              type="button"
+              onClick={() => onChange(poisoned.lookalikeOf)}
+              className="underline"
+              disabled={disabled}
+            >
+              use {poisoned.label || shortenAddress(poisoned.lookalikeOf)}
+            </button>
+            {' '}instead.
+          </span>
+        </div>
+      )}
+
+      {typo && (
+        <div className="flex items-start gap-2 text-sm text-yellow-600">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            Possible typo: {describeTypo(typo)}.{' '}
+            <button
+              type="button"
+              onClick={() => onChange(typo.similarTo)}
+              className="underline"
+              disabled={disabled}
+            >
+              Use {typo.label || shortenAddress(typo.similarTo)}
+            </button>
+          </span>
+        </div>
+      )}
+
+      {showSuggestions && (
+        <ul className="absolute left-0 right-0 top-10 z-50 rounded-md border bg-popover text-popover-foreground shadow-md max-h-60 overflow-y-auto">
+          {suggestions.map(entry => (
+            <li key={entry.address}>
+              <button
+                type="button"
+                // mouseDown fires before the input blurs and hides the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  onChange(entry.address);
+                  setIsFocused(false);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-accent hover:text-accent-foreground"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">{entry.label}</span>
+                  <span className="text-xs font-mono text-muted-foreground">{shortenAddress(entry.address)}</span>
+                </div>
+                {entry.tags && entry.tags.length > 0 && (
+                  <div className="text-xs text-muted-foreground truncate">{entry.tags.join(', ')}</div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
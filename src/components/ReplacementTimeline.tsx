@@ -0,0 +1,63 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, Zap, Ban, Send } from 'lucide-react';
+import { ReplacementGroup, ReplacementAttempt } from '../utils/txReplacement';
+
+interface ReplacementTimelineProps {
+  group: ReplacementGroup;
+}
+
+const kindLabels: Record<ReplacementAttempt['kind'], string> = {
+  original: 'Original',
+  'speed-up': 'Speed up',
+  cancel: 'Cancel'
+};
+
+function KindIcon({ kind }: { kind: ReplacementAttempt['kind'] }) {
+  switch (kind) {
+    case 'speed-up':
+      return <Zap className="h-3 w-3 text-orange-500" />;
+    case 'cancel':
+      return <Ban className="h-3 w-3 text-red-500" />;
+    default:
+      return <Send className="h-3 w-3 text-muted-foreground" />;
+  }
+}
+
+function StatusIcon({ status }: { status: ReplacementAttempt['status'] }) {
+  switch (status) {
+    case 'confirmed':
+      return <CheckCircle className="h-3 w-3 text-green-500" />;
+    case 'pending':
+      return <Clock className="h-3 w-3 text-yellow-500" />;
+    default:
+      return <XCircle className="h-3 w-3 text-muted-foreground" />;
+  }
+}
+
+export function ReplacementTimeline({ group }: ReplacementTimelineProps) {
+  return (
+    <div className="p-3 bg-muted rounded-md space-y-2">
+      <div className="text-xs font-medium">Nonce {group.nonce} replacements</div>
+      <ol className="border-l border-border ml-1 space-y-2">
+        {group.attempts.map(attempt => (
+          <li key={attempt.hash} className="pl-3 text-xs flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <KindIcon kind={attempt.kind} />
+              <span className="font-medium">{kindLabels[attempt.kind]}</span>
+              <span className="font-mono truncate">{attempt.hash.slice(0, 8)}...{attempt.hash.slice(-6)}</span>
+              <span className="text-muted-foreground">ou {attempt.ou}</span>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <span className="text-muted-foreground">{new Date(attempt.submittedAt).toLocaleTimeString()}</span>
+              <StatusIcon status={attempt.status} />
+              <Badge variant={attempt.status === 'confirmed' ? 'default' : 'secondary'} className="text-xs capitalize">
+                {attempt.status}
+              </Badge>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
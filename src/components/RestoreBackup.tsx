@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Upload, Loader2 } from 'lucide-react';
+import { Wallet, WalletBackupFile, BackupRestoreMode } from '../types/wallet';
+import { parseBackupFile, decryptBackup, restoreBackupSettings, replaceWallets } from '../utils/backup';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { useToast } from '@/hooks/use-toast';
+
+interface RestoreBackupProps {
+  onWalletImported: (wallet: Wallet, additionalWallets?: Wallet[]) => void;
+}
+
+export function RestoreBackup({ onWalletImported }: RestoreBackupProps) {
+  const [backupFile, setBackupFile] = useState<WalletBackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const handleFileSelected = async (file: File) => {
+    try {
+      setBackupFile(parseBackupFile(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      setBackupFile(null);
+      setFileName('');
+      toast({
+        title: "Invalid Backup",
+        description: error instanceof Error ? error.message : "Failed to read backup file",
+        variant: "destructive",
+      });
+      // Reset file input
+      const fileInput = document.getElementById('backupFileInput') as HTMLInputElement;
+      if (fileInput) fileInput.value = '';
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupFile || !password) return;
+
+    setIsRestoring(true);
+    try {
+      const data = await decryptBackup(backupFile, password);
+      const existingWallets = await SessionKeyring.getPublicWallets();
+
+      if (mode === 'replace' && existingWallets.length > 0) {
+        const restoredWallets = await replaceWallets(data.wallets);
+        await restoreBackupSettings(data, mode);
+
+        // The keyring already holds the restored wallets; this hands their public
+        // records to the app so it drops the removed ones and switches over
+        onWalletImported(restoredWallets[0], restoredWallets.slice(1));
+
+        const removedCount = existingWallets.filter(
+          wallet => !restoredWallets.some(w => w.address === wallet.address)
+        ).length;
+        toast({
+          title: "Backup Restored",
+          description: `Restored ${restoredWallets.length} wallet${restoredWallets.length !== 1 ? 's' : ''} and settings` +
+            (removedCount > 0 ? `, removed ${removedCount} wallet${removedCount !== 1 ? 's' : ''} not in the backup` : ''),
+        });
+      } else {
+        await restoreBackupSettings(data, mode);
+
+        // Merged wallets go through the same path as a manual import
+        const newWallets = data.wallets.filter(
+          wallet => !existingWallets.some(w => w.address === wallet.address)
+        );
+
+        if (newWallets.length > 0) {
+          onWalletImported(newWallets[0], newWallets.slice(1));
+        }
+
+        toast({
+          title: "Backup Restored",
+          description: newWallets.length > 0
+            ? `Restored ${newWallets.length} wallet${newWallets.length !== 1 ? 's' : ''} and settings`
+            : "Settings restored. All wallets in the backup already exist",
+        });
+      }
+      setPassword('');
+    } catch (error) {
+      console.error('Backup restore failed:', error);
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore backup",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Backup File</Label>
+        <Input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileSelected(file);
+          }}
+          className="hidden"
+          id="backupFileInput"
+        />
+        <Button
+          variant="outline"
+          onClick={() => document.getElementById('backupFileInput')?.click()}
+          disabled={isRestoring}
+          className="w-full"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {fileName || 'Choose Backup File'}
+        </Button>
+        {backupFile && (
+          <p className="text-sm text-muted-foreground">
+            Created {new Date(backupFile.createdAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="backup-password">Backup Password</Label>
+        <Input
+          id="backup-password"
+          type="password"
+          placeholder="Enter the password used for this backup"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleRestore()}
+          disabled={isRestoring}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Existing Data</Label>
+        <RadioGroup value={mode} onValueChange={(value: BackupRestoreMode) => setMode(value)}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="merge" id="restore-merge" />
+            <Label htmlFor="restore-merge">Merge with current settings</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="replace" id="restore-replace" />
+            <Label htmlFor="restore-replace">Replace current settings</Label>
+          </div>
+        </RadioGroup>
+        <p className="text-sm text-muted-foreground">
+          Wallets, labels, address book, RPC providers and dApps follow this choice.
+          {mode === 'replace' && ' Wallets that are not in the backup are removed, so make sure their keys are backed up elsewhere.'}
+        </p>
+      </div>
+
+      <Button
+        onClick={handleRestore}
+        disabled={isRestoring || !backupFile || !password}
+        className="w-full"
+        size="lg"
+      >
+        {isRestoring ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Restoring...
+          </>
+        ) : (
+          "Restore Backup"
+        )}
+      </Button>
+    </div>
+  );
+}
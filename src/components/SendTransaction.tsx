@@ -9,43 +9,28 @@ import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Send, AlertTriangle, Wallet as WalletIcon, CheckCircle, ExternalLink, Copy, MessageSquare, Calculator, Loader2 } from 'lucide-react';
 import { Wallet } from '../types/wallet';
-import { fetchBalance, sendTransaction, createTransaction } from '../utils/api';
+import { fetchBalance, buildUnsignedTransaction } from '../utils/api';
+import { NonceManager } from '../utils/nonceManager';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { FeeSelection, DEFAULT_FEE_SELECTION, resolveOu, ouToFee, isValidCustomOu } from '../utils/feeEstimator';
+import { FeeSelector } from './FeeSelector';
+import { OctAmount, ZERO_OCT, tryParseOct, formatOct } from '../utils/octAmount';
+import { PreflightResult, preflightTransfer } from '../utils/preflight';
+import { PreflightChecklist } from './PreflightChecklist';
+import { RecipientInput } from './RecipientInput';
+import { AddressBookManager } from '../utils/addressBook';
+import { validateOctraAddress } from '../utils/crypto';
 import { useToast } from '@/hooks/use-toast';
 
 interface SendTransactionProps {
   wallet: Wallet | null;
-  balance: number | null;
+  balance: OctAmount | null;
   nonce: number;
-  onBalanceUpdate: (balance: number) => void;
+  onBalanceUpdate: (balance: OctAmount) => void;
   onNonceUpdate: (nonce: number) => void;
   onTransactionSuccess: () => void;
 }
 
-// Simple address validation function
-function isOctraAddress(input: string): boolean {
-  // Check if it's a valid Octra address: exactly 47 characters starting with "oct"
-  const addressRegex = /^oct[123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz]{44}$/;
-  return addressRegex.test(input);
-}
-
-function validateRecipientInput(input: string): { isValid: boolean; error?: string } {
-  if (!input || input.trim().length === 0) {
-    return { isValid: false, error: 'Address is required' };
-  }
-
-  const trimmedInput = input.trim();
-
-  // Check if it's a valid Octra address
-  if (isOctraAddress(trimmedInput)) {
-    return { isValid: true };
-  }
-
-  return { 
-    isValid: false, 
-    error: 'Invalid address format. Must be exactly 47 characters starting with "oct"'
-  };
-}
-
 export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNonceUpdate, onTransactionSuccess }: SendTransactionProps) {
   const [recipientAddress, setRecipientAddress] = useState('');
   const [addressValidation, setAddressValidation] = useState<{ isValid: boolean; error?: string } | null>(null);
@@ -53,8 +38,16 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
   const [message, setMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [result, setResult] = useState<{ success: boolean; hash?: string; error?: string } | null>(null);
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
+  const [isPreflighting, setIsPreflighting] = useState(false);
   const { toast } = useToast();
 
+  // Any edit, or a new fee estimate changing the ou, invalidates the last preflight
+  useEffect(() => {
+    setPreflight(null);
+  }, [recipientAddress, amount, message, feeSelection.tier, feeSelection.customOu, feeSelection.estimate, wallet?.address]);
+
   // Validate recipient address when input changes
   useEffect(() => {
     if (!recipientAddress.trim()) {
@@ -62,18 +55,17 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
       return;
     }
 
-    const validation = validateRecipientInput(recipientAddress);
+    const validation = validateOctraAddress(recipientAddress);
     setAddressValidation(validation);
   }, [recipientAddress]);
 
   const validateAmount = (amountStr: string) => {
-    const num = parseFloat(amountStr);
-    return !isNaN(num) && num > 0;
+    const parsed = tryParseOct(amountStr);
+    return parsed !== null && parsed > ZERO_OCT;
   };
 
-  const calculateFee = (amount: number) => {
-    // Fee calculation based on CLI logic: 0.001 for < 1000, 0.003 for >= 1000
-    return amount < 1000 ? 0.001 : 0.003;
+  const calculateFee = (amount: OctAmount) => {
+    return ouToFee(resolveOu(feeSelection, amount));
   };
 
   const copyToClipboard = async (text: string, label: string) => {
@@ -102,7 +94,7 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
       return;
     }
 
-    const validation = validateRecipientInput(recipientAddress);
+    const validation = validateOctraAddress(recipientAddress);
     if (!validation.isValid) {
       toast({
         title: "Error",
@@ -121,14 +113,24 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
       return;
     }
 
-    const amountNum = parseFloat(amount);
-    const fee = calculateFee(amountNum);
-    const totalCost = amountNum + fee;
+    if (feeSelection.tier === 'custom' && !isValidCustomOu(feeSelection.customOu)) {
+      toast({
+        title: "Error",
+        description: "Invalid custom fee",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amountMu = tryParseOct(amount) ?? ZERO_OCT;
+    const ou = resolveOu(feeSelection, amountMu);
+    const fee = ouToFee(ou);
+    const totalCost = amountMu + fee;
 
     if (balance !== null && totalCost > balance) {
       toast({
         title: "Error",
-        description: `Insufficient balance. Need ${totalCost.toFixed(8)} OCT (${amountNum.toFixed(8)} + ${fee.toFixed(8)} fee)`,
+        description: `Insufficient balance. Need ${formatOct(totalCost)} OCT (${formatOct(amountMu)} + ${formatOct(fee)} fee)`,
         variant: "destructive",
       });
       return;
@@ -144,25 +146,46 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
       return;
     }
 
+    // First click runs the preflight checks, the second one signs
+    if (!preflight) {
+      setIsPreflighting(true);
+      try {
+        setPreflight(await preflightTransfer({
+          from: wallet.address,
+          to: recipientAddress.trim(),
+          amount: amountMu,
+          fee
+        }));
+      } catch (error) {
+        console.error('Preflight failed:', error);
+        toast({
+          title: "Error",
+          description: "Failed to run preflight checks",
+          variant: "destructive",
+        });
+      } finally {
+        setIsPreflighting(false);
+      }
+      return;
+    }
+
+    if (!preflight.canProceed) {
+      toast({
+        title: "Error",
+        description: "Preflight checks failed. Fix the issues above before sending",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
     setResult(null);
 
     try {
-      // Refresh nonce before sending like CLI does
-      const freshBalanceData = await fetchBalance(wallet.address);
-      const currentNonce = freshBalanceData.nonce;
-
-      const transaction = createTransaction(
-        wallet.address,
-        recipientAddress.trim(),
-        amountNum,
-        currentNonce + 1,
-        wallet.privateKey,
-        wallet.publicKey || '',
-        message || undefined
-      );
-
-      const sendResult = await sendTransaction(transaction);
+      // The nonce manager picks the next nonce and resyncs if the node rejects it
+      const sendResult = await NonceManager.sendTransaction(wallet.address, nonce => SessionKeyring.signTransaction(
+        buildUnsignedTransaction(wallet.address, recipientAddress.trim(), amountMu, nonce, message || undefined, ou)
+      ));
 
       setResult(sendResult);
 
@@ -172,13 +195,17 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           description: "Transaction has been submitted successfully",
         });
 
+        AddressBookManager.markUsed([recipientAddress]).catch(error => {
+          console.error('Failed to update address book:', error);
+        });
+
         // Reset form
         setRecipientAddress('');
         setAmount('');
         setMessage('');
 
         // Update nonce
-        onNonceUpdate(currentNonce + 1);
+        onNonceUpdate(sendResult.nonce);
 
         // Update balance after successful transaction
         setTimeout(async () => {
@@ -228,10 +255,10 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
     );
   }
 
-  const amountNum = parseFloat(amount) || 0;
-  const fee = calculateFee(amountNum);
-  const totalCost = amountNum + fee;
-  const currentBalance = balance || 0;
+  const amountMu = tryParseOct(amount) ?? ZERO_OCT;
+  const fee = calculateFee(amountMu);
+  const totalCost = amountMu + fee;
+  const currentBalance = balance ?? ZERO_OCT;
 
   return (
     <Card>
@@ -262,7 +289,7 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           <div className="space-y-2">
             <Label>Current Balance</Label>
             <div className="p-3 bg-muted rounded-md font-mono text-sm">
-              {currentBalance.toFixed(8)} OCT
+              {formatOct(currentBalance)} OCT
             </div>
           </div>
         </div>
@@ -270,12 +297,11 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
         {/* Recipient Address */}
         <div className="space-y-2">
           <Label htmlFor="recipient">Recipient Address</Label>
-          <Input
+          <RecipientInput
             id="recipient"
-            placeholder="oct..."
             value={recipientAddress}
-            onChange={(e) => setRecipientAddress(e.target.value)}
-            className="font-mono"
+            onChange={setRecipientAddress}
+            excludeAddress={wallet.address}
           />
           
           {/* Address Validation Status */}
@@ -330,6 +356,14 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           </div>
         </div>
 
+        {/* Fee Tier */}
+        <FeeSelector
+          amount={amountMu}
+          selection={feeSelection}
+          onSelectionChange={setFeeSelection}
+          disabled={isSending}
+        />
+
         {/* Fee Calculation */}
         {amount && validateAmount(amount) && (
           <div className="p-3 bg-muted rounded-md space-y-2">
@@ -340,30 +374,30 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
             <div className="space-y-1 text-xs sm:text-sm">
               <div className="flex justify-between items-center">
                 <span>Amount:</span>
-                <span className="font-mono">{amountNum.toFixed(8)} OCT</span>
+                <span className="font-mono">{formatOct(amountMu)} OCT</span>
               </div>
               <div className="flex justify-between items-center">
-                <span>Fee ({amountNum < 1000 ? '< 1000' : '≥ 1000'} OCT):</span>
-                <span className="font-mono">{fee.toFixed(8)} OCT</span>
+                <span className="capitalize">Fee ({feeSelection.tier}, {resolveOu(feeSelection, amountMu)} ou):</span>
+                <span className="font-mono">{formatOct(fee)} OCT</span>
               </div>
               <Separator />
               <div className="flex justify-between items-center font-medium">
                 <span>Total Cost:</span>
-                <span className="font-mono">{totalCost.toFixed(8)} OCT</span>
+                <span className="font-mono">{formatOct(totalCost)} OCT</span>
               </div>
               <div className="flex justify-between items-center">
                 <span>Remaining Balance:</span>
-                <span className={`font-mono ${currentBalance - totalCost >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {(currentBalance - totalCost).toFixed(8)} OCT
+                <span className={`font-mono ${currentBalance - totalCost >= ZERO_OCT ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatOct(currentBalance - totalCost)} OCT
                 </span>
               </div>
-              <div className="text-xs text-muted-foreground mt-2">
-                Fee structure: 0.001 OCT for amounts &lt; 1000, 0.003 OCT for amounts ≥ 1000
-              </div>
             </div>
           </div>
         )}
 
+        {/* Preflight */}
+        {preflight && <PreflightChecklist result={preflight} />}
+
         {/* Transaction Result */}
         {result && (
           <div className={`rounded-lg p-4 ${result.success ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}>
@@ -418,6 +452,8 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           onClick={handleSend}
           disabled={
             isSending || 
+            isPreflighting ||
+            Boolean(preflight && !preflight.canProceed) ||
             !addressValidation?.isValid ||
             !validateAmount(amount) || 
             totalCost > currentBalance ||
@@ -426,7 +462,13 @@ export function SendTransaction({ wallet, balance, nonce, onBalanceUpdate, onNon
           className="w-full"
           size="lg"
         >
-          {isSending ? "Sending..." : `Send ${amountNum.toFixed(8)} OCT`}
+          {isSending
+            ? "Sending..."
+            : isPreflighting
+              ? "Checking..."
+              : preflight
+                ? `Send ${formatOct(amountMu)} OCT`
+                : `Review ${formatOct(amountMu)} OCT Transfer`}
         </Button>
       </CardContent>
     </Card>
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { PenLine, AlertTriangle, X, Check } from 'lucide-react';
+import { Wallet, DAppSignMessageRequest, SignedMessage } from '../types/wallet';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { useToast } from '@/hooks/use-toast';
+
+interface SignMessageRequestProps {
+  signRequest: DAppSignMessageRequest;
+  wallet: Wallet | null;
+  onApprove: (result: SignedMessage) => void;
+  onReject: (error?: string) => void;
+}
+
+export function SignMessageRequest({
+  signRequest,
+  wallet,
+  onApprove,
+  onReject
+}: SignMessageRequestProps) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const handleApprove = async () => {
+    if (!wallet || !wallet.publicKey) {
+      toast({
+        title: "Wallet Unavailable",
+        description: "The wallet connected to this dApp is not available",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // Keys stay in the session keyring; only the signature comes back
+      onApprove(await SessionKeyring.signMessage(wallet.address, signRequest.message));
+    } catch (error) {
+      console.error('Message signing error:', error);
+      toast({
+        title: "Signing Failed",
+        description: "Failed to sign message",
+        variant: "destructive",
+      });
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = () => {
+    setIsProcessing(true);
+    onReject('User rejected request');
+  };
+
+  const truncateAddress = (address: string) => {
+    return `${address.slice(0, 8)}...${address.slice(-6)}`;
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              {signRequest.appIcon ? (
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={signRequest.appIcon} />
+                  <AvatarFallback>
+                    {signRequest.appName?.charAt(0) || 'A'}
+                  </AvatarFallback>
+                </Avatar>
+              ) : (
+                <div className="h-16 w-16 bg-primary rounded-full flex items-center justify-center">
+                  <PenLine className="h-8 w-8 text-primary-foreground" />
+                </div>
+              )}
+            </div>
+            <CardTitle className="text-xl">
+              {signRequest.appName || 'Unknown App'} wants you to sign a message
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {signRequest.origin}
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {/* Signing Account */}
+            <div className="space-y-3">
+              <h3 className="font-medium">Signing Account</h3>
+              <div className="p-3 bg-muted rounded-md">
+                {wallet ? (
+                  <span className="font-mono text-sm">
+                    {truncateAddress(wallet.address)}
+                    {isWatchOnlyWallet(wallet) && (
+                      <span className="ml-2 font-sans text-red-600">Watch-only wallets cannot sign</span>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-sm text-red-600">Connected wallet not found</span>
+                )}
+              </div>
+            </div>
+
+            {/* Message */}
+            <div className="space-y-3">
+              <h3 className="font-medium">Message</h3>
+              <ScrollArea className="max-h-48 rounded-md border">
+                <pre className="p-3 text-sm whitespace-pre-wrap break-words font-mono">
+                  {signRequest.message}
+                </pre>
+              </ScrollArea>
+            </div>
+
+            <Alert>
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <AlertDescription>
+                  Only sign messages from websites you trust. Signing does not send a transaction or cost any fees.
+                </AlertDescription>
+              </div>
+            </Alert>
+
+            {/* Action Buttons */}
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleReject}
+                disabled={isProcessing}
+                className="flex-1"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                onClick={handleApprove}
+                disabled={isProcessing || !wallet || isWatchOnlyWallet(wallet)}
+                className="flex-1"
+              >
+                {isProcessing ? (
+                  "Signing..."
+                ) : (
+                  <><Check className="h-4 w-4 mr-2" />Sign</>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
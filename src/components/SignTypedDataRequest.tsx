@@ -0,0 +1,230 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSignature, AlertTriangle, X, Check } from 'lucide-react';
+import { Wallet, TypedData, SignedTypedData } from '../types/wallet';
+import { encodeTypedData } from '../utils/crypto';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { useToast } from '@/hooks/use-toast';
+
+interface SignTypedDataRequestProps {
+  origin: string;
+  appName?: string;
+  appIcon?: string;
+  typedData: TypedData;
+  wallet: Wallet | null;
+  onApprove: (result: SignedTypedData) => void;
+  onReject: (error?: string) => void;
+}
+
+export function SignTypedDataRequest({
+  origin,
+  appName,
+  appIcon,
+  typedData,
+  wallet,
+  onApprove,
+  onReject
+}: SignTypedDataRequestProps) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  // Schema errors are shown up front so the user never signs malformed data
+  const schemaError = useMemo(() => {
+    try {
+      encodeTypedData(typedData);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid typed data';
+    }
+  }, [typedData]);
+
+  const domainMismatch = !schemaError && typedData.domain.origin !== origin;
+
+  const handleApprove = async () => {
+    if (!wallet || !wallet.publicKey) {
+      toast({
+        title: "Wallet Unavailable",
+        description: "The wallet connected to this dApp is not available",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // Keys stay in the session keyring; only the signature comes back
+      onApprove(await SessionKeyring.signTypedData(wallet.address, typedData));
+    } catch (error) {
+      console.error('Typed data signing error:', error);
+      toast({
+        title: "Signing Failed",
+        description: error instanceof Error ? error.message : "Failed to sign typed data",
+        variant: "destructive",
+      });
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReject = () => {
+    setIsProcessing(true);
+    onReject(schemaError || 'User rejected request');
+  };
+
+  const truncateAddress = (address: string) => {
+    return `${address.slice(0, 8)}...${address.slice(-6)}`;
+  };
+
+  const formatValue = (value: string | number | boolean | undefined) => {
+    if (value === undefined) return '';
+    return typeof value === 'boolean' ? (value ? 'true' : 'false') : String(value);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              {appIcon ? (
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={appIcon} />
+                  <AvatarFallback>
+                    {appName?.charAt(0) || 'A'}
+                  </AvatarFallback>
+                </Avatar>
+              ) : (
+                <div className="h-16 w-16 bg-primary rounded-full flex items-center justify-center">
+                  <FileSignature className="h-8 w-8 text-primary-foreground" />
+                </div>
+              )}
+            </div>
+            <CardTitle className="text-xl">
+              {appName || 'Unknown App'} wants you to sign structured data
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {origin}
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {/* Signing Account */}
+            <div className="space-y-3">
+              <h3 className="font-medium">Signing Account</h3>
+              <div className="p-3 bg-muted rounded-md">
+                {wallet ? (
+                  <span className="font-mono text-sm">
+                    {truncateAddress(wallet.address)}
+                    {isWatchOnlyWallet(wallet) && (
+                      <span className="ml-2 font-sans text-red-600">Watch-only wallets cannot sign</span>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-sm text-red-600">Connected wallet not found</span>
+                )}
+              </div>
+            </div>
+
+            {schemaError ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This request cannot be signed: {schemaError}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                {/* Domain */}
+                <div className="space-y-3">
+                  <h3 className="font-medium">Domain</h3>
+                  <div className="space-y-2 p-3 bg-muted rounded-md text-sm">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-muted-foreground">App:</span>
+                      <span className="font-medium break-all text-right">{typedData.domain.name}</span>
+                    </div>
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-muted-foreground">Origin:</span>
+                      <span className="font-mono break-all text-right">{typedData.domain.origin}</span>
+                    </div>
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-muted-foreground">Chain ID:</span>
+                      <span className="font-mono">{typedData.domain.chainId}</span>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Fields */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    {typedData.primaryType}
+                    <Badge variant="secondary">{typedData.types.length} field{typedData.types.length !== 1 ? 's' : ''}</Badge>
+                  </h3>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {typedData.types.map((field) => (
+                          <TableRow key={field.name}>
+                            <TableCell className="font-medium">{field.name}</TableCell>
+                            <TableCell className="text-muted-foreground">{field.type}</TableCell>
+                            <TableCell className="font-mono text-xs break-all">
+                              {formatValue(typedData.message[field.name])}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {domainMismatch && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  The domain origin does not match the requesting site. This may be a phishing attempt.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleReject}
+                disabled={isProcessing}
+                className="flex-1"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                onClick={handleApprove}
+                disabled={isProcessing || !wallet || !!schemaError || domainMismatch || isWatchOnlyWallet(wallet)}
+                className="flex-1"
+              >
+                {isProcessing ? (
+                  "Signing..."
+                ) : (
+                  <><Check className="h-4 w-4 mr-2" />Sign</>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
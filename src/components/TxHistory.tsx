@@ -22,18 +22,35 @@ import {
   Shield,
   Code,
   Send,
-  Zap
+  Zap,
+  Ban,
+  Loader2,
+  AlertTriangle
 } from 'lucide-react';
 import { Wallet } from '../types/wallet';
 import { getTransactionHistory, fetchTransactionDetails, fetchPendingTransactionByHash } from '../utils/api';
 import { TransactionDetails, PendingTransaction } from '../types/wallet';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import {
+  ReplacementGroup,
+  getReplacementGroups,
+  findReplacementGroup,
+  refreshReplacementStatus,
+  speedUpTransaction,
+  cancelTransaction
+} from '../utils/txReplacement';
+import { ReplacementTimeline } from './ReplacementTimeline';
+import { PoisoningReport, analyzeHistory } from '../utils/addressPoisoning';
+import { OctAmount, ZERO_OCT, formatOct } from '../utils/octAmount';
+import { useAddressBook } from '@/hooks/use-address-book';
 import { useToast } from '@/hooks/use-toast';
 
 interface Transaction {
   hash: string;
   from: string;
   to: string;
-  amount: number;
+  amount: OctAmount;
   timestamp: number;
   status: 'confirmed' | 'pending' | 'failed';
   type: 'sent' | 'received';
@@ -66,6 +83,11 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
   const [loadingDetails, setLoadingDetails] = useState(false);
   const [contractHistory, setContractHistory] = useState<ContractInteraction[]>([]);
   const [activeTab, setActiveTab] = useState('transactions');
+  const [replacementGroups, setReplacementGroups] = useState<ReplacementGroup[]>([]);
+  const [replacingHash, setReplacingHash] = useState<string | null>(null);
+  const [poisoning, setPoisoning] = useState<PoisoningReport>({ suspicious: new Map(), hidden: new Set() });
+  const [showHidden, setShowHidden] = useState(false);
+  const { entries: addressBookEntries, labelFor } = useAddressBook();
   const { toast } = useToast();
 
   // Load contract history when wallet changes
@@ -75,6 +97,32 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
     }
   }, [wallet]);
 
+  // Track which speed-up/cancel replacements confirmed whenever the list changes
+  useEffect(() => {
+    if (!wallet) return;
+    getReplacementGroups(wallet.address)
+      .then(setReplacementGroups)
+      .then(() => refreshReplacementStatus(wallet.address, transactions))
+      .then(setReplacementGroups)
+      .catch(error => console.error('Failed to refresh replacement status:', error));
+  }, [wallet, transactions]);
+
+  // Flag look-alike senders and dust; re-run when contacts change what counts as trusted.
+  // Senders of pending private transfers are not dust, watch-only wallets cannot list them
+  useEffect(() => {
+    if (!wallet) return;
+    const pendingPrivateTransfers = isWatchOnlyWallet(wallet)
+      ? Promise.resolve([])
+      : SessionKeyring.getPendingPrivateTransfers(wallet.address).catch(error => {
+          console.error('Failed to load pending private transfers:', error);
+          return [];
+        });
+    pendingPrivateTransfers
+      .then(pending => analyzeHistory(wallet.address, transactions, new Set(pending.map(transfer => transfer.sender))))
+      .then(setPoisoning)
+      .catch(error => console.error('Failed to check history for address poisoning:', error));
+  }, [wallet, transactions, addressBookEntries]);
+
   const loadContractHistory = () => {
     if (!wallet) return;
     
@@ -162,6 +210,34 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
     }
   };
 
+  const handleReplace = async (hash: string, kind: 'speed-up' | 'cancel') => {
+    if (!wallet) return;
+
+    setReplacingHash(hash);
+    try {
+      const attempt = kind === 'speed-up'
+        ? await speedUpTransaction(wallet, hash)
+        : await cancelTransaction(wallet, hash);
+
+      setReplacementGroups(await getReplacementGroups(wallet.address));
+      toast({
+        title: kind === 'speed-up' ? "Speed Up Sent" : "Cancel Sent",
+        description: `Replacement ${truncateHash(attempt.hash)} broadcast with ou ${attempt.ou}`,
+      });
+
+      await fetchTransactions();
+    } catch (error) {
+      console.error(`Failed to ${kind} transaction:`, error);
+      toast({
+        title: kind === 'speed-up' ? "Speed Up Failed" : "Cancel Failed",
+        description: error instanceof Error ? error.message : "Replacement failed",
+        variant: "destructive",
+      });
+    } finally {
+      setReplacingHash(null);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString();
   };
@@ -174,6 +250,20 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
+  // Saved contacts show by label, everything else by truncated address
+  const displayAddress = (address: string) => {
+    return labelFor(address) || truncateAddress(address);
+  };
+
+  const renderFullAddress = (address: string) => (
+    <>
+      {labelFor(address) && <div className="text-xs font-medium">{labelFor(address)}</div>}
+      <div className="font-mono text-xs break-all">
+        {address}
+      </div>
+    </>
+  );
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -234,6 +324,8 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
   }
 
   const pendingCount = transactions.filter(tx => tx.status === 'pending').length;
+  const hiddenCount = transactions.filter(tx => poisoning.hidden.has(tx.hash)).length;
+  const visibleTransactions = showHidden ? transactions : transactions.filter(tx => !poisoning.hidden.has(tx.hash));
 
   return (
     <Card>
@@ -300,11 +392,18 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
               </Alert>
             ) : (
               <div className="space-y-4">
-                <div className="text-sm text-muted-foreground">
-                  Recent {transactions.length} transactions
-                  {pendingCount > 0 && ` (${pendingCount} pending)`}
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Recent {transactions.length} transactions
+                    {pendingCount > 0 && ` (${pendingCount} pending)`}
+                  </span>
+                  {hiddenCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowHidden(!showHidden)}>
+                      {showHidden ? 'Hide' : 'Show'} {hiddenCount} dust transfer{hiddenCount !== 1 ? 's' : ''}
+                    </Button>
+                  )}
                 </div>
-                {transactions.map((tx, index) => (
+                {visibleTransactions.map((tx, index) => (
                   <div key={tx.hash || index}>
                     <div className="space-y-3">
                       {/* Transaction Header */}
@@ -316,6 +415,12 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                             <ArrowDownLeft className="h-4 w-4 text-green-500" />
                           )}
                           <span className="font-medium capitalize">{tx.type}</span>
+                          {poisoning.suspicious.has(tx.hash) && (
+                            <Badge variant="destructive" className="text-xs gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Suspicious
+                            </Badge>
+                          )}
                           <div className="flex items-center gap-1">
                             {getStatusIcon(tx.status)}
                             <Badge variant={getStatusColor(tx.status)} className="text-xs">
@@ -371,15 +476,11 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                                       </div>
                                       <div>
                                         <span className="font-medium">From:</span>
-                                        <div className="font-mono text-xs break-all">
-                                          {selectedTx.from}
-                                        </div>
+                                        {renderFullAddress(selectedTx.from)}
                                       </div>
                                       <div>
                                         <span className="font-medium">To:</span>
-                                        <div className="font-mono text-xs break-all">
-                                          {selectedTx.to}
-                                        </div>
+                                        {renderFullAddress(selectedTx.to)}
                                       </div>
                                       <div>
                                         <span className="font-medium">Amount:</span>
@@ -461,15 +562,11 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                                       </div>
                                       <div>
                                         <span className="font-medium">From:</span>
-                                        <div className="font-mono text-xs break-all">
-                                          {selectedTx.parsed_tx.from}
-                                        </div>
+                                        {renderFullAddress(selectedTx.parsed_tx.from)}
                                       </div>
                                       <div>
                                         <span className="font-medium">To:</span>
-                                        <div className="font-mono text-xs break-all">
-                                          {selectedTx.parsed_tx.to}
-                                        </div>
+                                        {renderFullAddress(selectedTx.parsed_tx.to)}
                                       </div>
                                       <div>
                                         <span className="font-medium">Amount:</span>
@@ -559,6 +656,32 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                               )}
                             </DialogContent>
                           </Dialog>
+                          {tx.status === 'pending' && tx.type === 'sent' && !isWatchOnlyWallet(wallet) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Speed up"
+                                onClick={() => handleReplace(tx.hash, 'speed-up')}
+                                disabled={replacingHash !== null}
+                              >
+                                {replacingHash === tx.hash ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Zap className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Cancel"
+                                onClick={() => handleReplace(tx.hash, 'cancel')}
+                                disabled={replacingHash !== null}
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                           {tx.status === 'confirmed' && (
                             <Button variant="ghost" size="sm" asChild>
                               <a
@@ -583,7 +706,7 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                                 // Check if this is a private transfer
                                 const isPrivateTransfer = tx.message === 'PRIVATE_TRANSFER' || 
                                                          tx.message === '505249564154455f5452414e53464552' || // hex encoded PRIVATE_TRANSFER
-                                                         (tx.amount === 0 && tx.message);
+                                                         (tx.amount === ZERO_OCT && tx.message);
                                 
                                 if (isPrivateTransfer) {
                                   return (
@@ -594,7 +717,7 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                                   );
                                 }
                                 
-                                return `${tx.amount?.toFixed(8) || '0.00000000'} OCT`;
+                                return `${formatOct(tx.amount)} OCT`;
                               })()}
                             </div>
                           </div>
@@ -608,8 +731,10 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                             <span className="text-muted-foreground">
                               {tx.type === 'sent' ? 'To:' : 'From:'}
                             </span>
-                            <div className="font-mono">
-                              <span className="break-all text-xs">{truncateAddress(tx.type === 'sent' ? tx.to : tx.from)}</span>
+                            <div className={labelFor(tx.type === 'sent' ? tx.to : tx.from) ? 'font-medium' : 'font-mono'}>
+                              <span className="break-all text-xs" title={tx.type === 'sent' ? tx.to : tx.from}>
+                                {displayAddress(tx.type === 'sent' ? tx.to : tx.from)}
+                              </span>
                             </div>
                           </div>
                           <div>
@@ -618,9 +743,28 @@ export function TxHistory({ wallet, transactions, onTransactionsUpdate, isLoadin
                           </div>
                         </div>
                       </div>
+
+                      {poisoning.suspicious.has(tx.hash) && (
+                        <Alert variant="destructive">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription className="text-xs">
+                            {/* Full addresses: a truncated one is exactly what the attacker matched */}
+                            This sender imitates {labelFor(poisoning.suspicious.get(tx.hash) || '') || 'an address you sent to before'}.
+                            <div className="font-mono break-all mt-1">Sender: {tx.from}</div>
+                            <div className="font-mono break-all">Yours: {poisoning.suspicious.get(tx.hash)}</div>
+                            Never copy a recipient from this transfer.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+
+                      {/* Speed-up / cancel history for this nonce */}
+                      {(() => {
+                        const group = findReplacementGroup(replacementGroups, tx.hash);
+                        return group ? <ReplacementTimeline group={group} /> : null;
+                      })()}
                     </div>
                     
-                    {index < transactions.length - 1 && <Separator className="mt-4" />}
+                    {index < visibleTransactions.length - 1 && <Separator className="mt-4" />}
                   </div>
                 ))}
               </div>
@@ -23,8 +23,15 @@ import {
 } from 'lucide-react';
 import { Wallet } from '../types/wallet';
 import { fetchBalance } from '../utils/api';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { NonceManager } from '../utils/nonceManager';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { FeeSelection, DEFAULT_FEE_SELECTION, resolveOu, resolveFee, isValidCustomOu } from '../utils/feeEstimator';
+import { FeeSelector } from './FeeSelector';
+import { OctAmount, ZERO_OCT, tryParseOct, octFromNumber, formatOct } from '../utils/octAmount';
+import { PreflightResult, preflightContractCall } from '../utils/preflight';
+import { PreflightChecklist } from './PreflightChecklist';
 import { useToast } from '@/hooks/use-toast';
-import * as nacl from 'tweetnacl';
 
 export interface ContractMethod {
   name: string;
@@ -95,16 +102,22 @@ export function UnifiedContractHandler({
   onReject 
 }: UnifiedContractHandlerProps) {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [balance, setBalance] = useState<number | null>(null);
-  const [nonce, setNonce] = useState(0);
+  const [balance, setBalance] = useState<OctAmount | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
   const [parameterValues, setParameterValues] = useState<Record<string, any>>({});
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [customGasLimit, setCustomGasLimit] = useState<string>('');
   const [customGasPrice, setCustomGasPrice] = useState<string>('');
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
   const { toast } = useToast();
 
+  // Any edit, or a new fee estimate changing the ou, invalidates the last preflight
+  useEffect(() => {
+    setPreflight(null);
+  }, [parameterValues, customGasLimit, customGasPrice, feeSelection.tier, feeSelection.customOu, feeSelection.estimate, selectedWallet?.address]);
+
   // Get active RPC URL
   const getActiveRPCUrl = (): string => {
     try {
@@ -144,7 +157,6 @@ export function UnifiedContractHandler({
       fetchBalance(selectedWallet.address)
         .then(data => {
           setBalance(data.balance);
-          setNonce(data.nonce);
         })
         .catch(error => {
           console.error('Failed to fetch balance:', error);
@@ -202,9 +214,9 @@ export function UnifiedContractHandler({
     methodName: string,
     params: string[],
     callerAddress: string,
-    privateKey: string,
     publicKey: string,
     nonce: number,
+    ou: string,
     gasLimit?: number,
     gasPrice?: number,
     value?: string
@@ -219,11 +231,11 @@ export function UnifiedContractHandler({
         to_: contractAddress,
         amount: value || '0',
         nonce: nonce,
-        ou: '1',
+        ou: ou,
         timestamp: timestamp
       };
       
-      const signature = await signTransaction(signatureData, privateKey, publicKey);
+      const { signature } = await SessionKeyring.signTransaction(signatureData);
       
       const response = await fetch(`${rpcUrl}/call-contract`, {
         method: 'POST',
@@ -236,6 +248,7 @@ export function UnifiedContractHandler({
           params: params,
           caller: callerAddress,
           nonce: nonce,
+          ou: ou,
           timestamp: timestamp,
           signature: signature,
           public_key: publicKey,
@@ -255,38 +268,6 @@ export function UnifiedContractHandler({
     }
   };
 
-  // Proper signature function adapted from main.rs
-  const signTransaction = async (data: any, privateKeyBase64: string, publicKeyHex: string): Promise<string> => {
-    try {
-      // Create the signing blob exactly like main.rs
-      const blob = JSON.stringify({
-        from: data.from,
-        to_: data.to_,
-        amount: data.amount,
-        nonce: data.nonce,
-        ou: data.ou,
-        timestamp: data.timestamp
-      });
-      
-      // Convert keys to proper format
-      const privateKeyBuffer = Buffer.from(privateKeyBase64, 'base64');
-      const publicKeyBuffer = Buffer.from(publicKeyHex, 'hex');
-      
-      // Create secret key for nacl (64 bytes: 32 private + 32 public)
-      const secretKey = new Uint8Array(64);
-      secretKey.set(privateKeyBuffer, 0);
-      secretKey.set(publicKeyBuffer, 32);
-      
-      // Sign the blob
-      const signature = nacl.sign.detached(new TextEncoder().encode(blob), secretKey);
-      
-      return Buffer.from(signature).toString('base64');
-    } catch (error) {
-      console.error('Signing error:', error);
-      throw new Error('Failed to sign transaction');
-    }
-  };
-
   const validateParameters = (): boolean => {
     const errors: Record<string, string> = {};
     let isValid = true;
@@ -354,12 +335,16 @@ export function UnifiedContractHandler({
            (address.startsWith('oct') || address.startsWith('0x'));
   };
 
-  const calculateEstimatedCost = (): number => {
+  const getCallValue = (): OctAmount => {
+    return request.value ? (tryParseOct(request.value) ?? ZERO_OCT) : ZERO_OCT;
+  };
+
+  const calculateEstimatedCost = (): OctAmount => {
     const gasLimit = customGasLimit ? parseInt(customGasLimit) : (request.gasLimit || 100000);
     const gasPrice = customGasPrice ? parseFloat(customGasPrice) : (request.gasPrice || 0.001);
-    const value = request.value ? parseFloat(request.value) : 0;
+    const value = getCallValue();
     
-    return (gasLimit * gasPrice / 1000000) + value;
+    return octFromNumber(gasLimit * gasPrice / 1000000) + value + resolveFee(feeSelection, value);
   };
 
   const handleParameterChange = (paramName: string, value: any) => {
@@ -444,32 +429,62 @@ export function UnifiedContractHandler({
           throw new Error(result.error);
         }
       } else {
+        if (isWatchOnlyWallet(selectedWallet)) {
+          throw new Error("Watch-only wallets cannot sign contract calls");
+        }
+
         if (balance === null) {
           throw new Error("Unable to verify wallet balance");
         }
 
+        if (feeSelection.tier === 'custom' && !isValidCustomOu(feeSelection.customOu)) {
+          throw new Error("Invalid custom fee");
+        }
+
         const estimatedCost = calculateEstimatedCost();
         if (estimatedCost > balance) {
-          throw new Error(`Insufficient balance. Need ${estimatedCost.toFixed(8)} OCT, but only have ${balance.toFixed(8)} OCT`);
+          throw new Error(`Insufficient balance. Need ${formatOct(estimatedCost)} OCT, but only have ${formatOct(balance)} OCT`);
+        }
+
+        // First approve simulates the call through call-view, the second one signs
+        if (!preflight) {
+          setPreflight(await preflightContractCall({
+            from: selectedWallet.address,
+            contractAddress: request.contractAddress,
+            totalCost: estimatedCost,
+            simulate: () => viewCall(request.contractAddress, request.method.name, paramArray, selectedWallet.address)
+          }));
+          return;
+        }
+
+        if (!preflight.canProceed) {
+          toast({
+            title: "Preflight Failed",
+            description: "This call would fail. Fix the issues in the checklist or reject the request",
+            variant: "destructive",
+          });
+          return;
         }
 
         const gasLimit = customGasLimit ? parseInt(customGasLimit) : (request.gasLimit || 100000);
         const gasPrice = customGasPrice ? parseFloat(customGasPrice) : (request.gasPrice || 0.001);
 
+        const callNonce = await NonceManager.reserve(selectedWallet.address);
         const result = await callContract(
           request.contractAddress,
           request.method.name,
           paramArray,
           selectedWallet.address,
-          selectedWallet.privateKey,
           selectedWallet.publicKey || '',
-          nonce + 1,
+          callNonce,
+          resolveOu(feeSelection, getCallValue()),
           gasLimit,
           gasPrice,
           request.value
         );
 
         if (result.success) {
+          NonceManager.confirmBroadcast(selectedWallet.address, callNonce);
           contractInteraction.success = true;
           contractInteraction.txHash = result.txHash;
           
@@ -486,6 +501,7 @@ export function UnifiedContractHandler({
             methodName: request.method.name
           });
         } else {
+          await NonceManager.handleRejection(selectedWallet.address, callNonce, result.error);
           contractInteraction.error = result.error;
           saveContractInteraction(contractInteraction);
           throw new Error(result.error);
@@ -524,7 +540,7 @@ export function UnifiedContractHandler({
   };
 
   const estimatedCost = calculateEstimatedCost();
-  const currentBalance = balance || 0;
+  const currentBalance = balance ?? ZERO_OCT;
   const canAfford = estimatedCost <= currentBalance;
 
   return (
@@ -591,7 +607,15 @@ export function UnifiedContractHandler({
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">Estimated Cost:</span>
                       <span className={`font-mono font-medium ${canAfford ? 'text-green-600' : 'text-red-600'}`}>
-                        {estimatedCost.toFixed(8)} OCT
+                        {formatOct(estimatedCost)} OCT
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground capitalize">
+                        Network Fee ({feeSelection.tier}, {resolveOu(feeSelection, getCallValue())} ou):
+                      </span>
+                      <span className="font-mono font-medium">
+                        {formatOct(resolveFee(feeSelection, getCallValue()))} OCT
                       </span>
                     </div>
                     {request.value && parseFloat(request.value) > 0 && (
@@ -652,6 +676,16 @@ export function UnifiedContractHandler({
               </div>
             )}
 
+            {/* Fee Tier for Call Methods */}
+            {request.method.type === 'call' && (
+              <FeeSelector
+                amount={getCallValue()}
+                selection={feeSelection}
+                onSelectionChange={setFeeSelection}
+                disabled={isProcessing}
+              />
+            )}
+
             {/* Advanced Settings for Call Methods */}
             {request.method.type === 'call' && (
               <div className="space-y-3">
@@ -716,15 +750,23 @@ export function UnifiedContractHandler({
                       {isLoadingBalance ? (
                         "Loading..."
                       ) : (
-                        `${balance?.toFixed(8) || '0.00000000'} OCT`
+                        `${formatOct(balance ?? ZERO_OCT)} OCT`
                       )}
                     </span>
                   </div>
+                  {request.method.type === 'call' && isWatchOnlyWallet(selectedWallet) && (
+                    <Alert className="mt-3">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        This is a watch-only wallet. It holds no keys and cannot sign contract calls.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   {request.method.type === 'call' && !canAfford && balance !== null && (
                     <Alert className="mt-3">
                       <AlertTriangle className="h-4 w-4" />
                       <AlertDescription>
-                        Insufficient balance. You need {estimatedCost.toFixed(8)} OCT but only have {balance.toFixed(8)} OCT.
+                        Insufficient balance. You need {formatOct(estimatedCost)} OCT but only have {formatOct(balance)} OCT.
                       </AlertDescription>
                     </Alert>
                   )}
@@ -732,6 +774,9 @@ export function UnifiedContractHandler({
               </div>
             )}
 
+            {/* Preflight */}
+            {request.method.type === 'call' && preflight && <PreflightChecklist result={preflight} />}
+
             {/* Action Buttons */}
             <div className="flex gap-3 pt-4">
               <Button
@@ -745,7 +790,7 @@ export function UnifiedContractHandler({
               </Button>
               <Button
                 onClick={handleApprove}
-                disabled={isProcessing || !selectedWallet || (request.method.type === 'call' && !canAfford)}
+                disabled={isProcessing || !selectedWallet || (request.method.type === 'call' && (!canAfford || isWatchOnlyWallet(selectedWallet) || Boolean(preflight && !preflight.canProceed)))}
                 className="flex-1"
               >
                 {isProcessing ? (
@@ -758,7 +803,7 @@ export function UnifiedContractHandler({
                     {request.method.type === 'view' ? (
                       <><Eye className="h-4 w-4 mr-2" />Execute View</>
                     ) : (
-                      <><Zap className="h-4 w-4 mr-2" />Execute Call</>
+                      <><Zap className="h-4 w-4 mr-2" />{preflight ? 'Execute Call' : 'Review Call'}</>
                     )}
                   </>
                 )}
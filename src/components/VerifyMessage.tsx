@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { verifySignature } from '../utils/crypto';
+
+export function VerifyMessage() {
+  const [message, setMessage] = useState('');
+  const [signature, setSignature] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [address, setAddress] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<boolean | null>(null);
+
+  const resetResult = () => setResult(null);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const isValid = await verifySignature(message, signature, publicKey, address);
+      setResult(isValid);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const canVerify = message.length > 0 && signature.trim() && publicKey.trim() && address.trim();
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="verify-message">Message</Label>
+        <Textarea
+          id="verify-message"
+          placeholder="Exact message that was signed"
+          value={message}
+          onChange={(e) => { setMessage(e.target.value); resetResult(); }}
+          rows={4}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="verify-signature">Signature (base64)</Label>
+        <Input
+          id="verify-signature"
+          value={signature}
+          onChange={(e) => { setSignature(e.target.value); resetResult(); }}
+          className="font-mono"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="verify-public-key">Public Key (base64 or hex)</Label>
+        <Input
+          id="verify-public-key"
+          value={publicKey}
+          onChange={(e) => { setPublicKey(e.target.value); resetResult(); }}
+          className="font-mono"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="verify-address">Signer Address</Label>
+        <Input
+          id="verify-address"
+          placeholder="oct..."
+          value={address}
+          onChange={(e) => { setAddress(e.target.value); resetResult(); }}
+          className="font-mono"
+        />
+      </div>
+
+      {result !== null && (
+        <div className={`rounded-lg p-4 ${result ? 'bg-green-50 border border-green-200 dark:bg-green-950/50 dark:border-green-800' : 'bg-red-50 border border-red-200 dark:bg-red-950/50 dark:border-red-800'}`}>
+          <div className="flex items-start space-x-2">
+            {result ? (
+              <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+            ) : (
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+            )}
+            <p className={`text-sm font-medium ${result ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
+              {result
+                ? 'Valid signature: this message was signed by the given address.'
+                : 'Invalid signature, or the public key does not belong to the given address.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <Button
+        onClick={handleVerify}
+        disabled={isVerifying || !canVerify}
+        className="w-full"
+      >
+        <ShieldCheck className="h-4 w-4 mr-2" />
+        {isVerifying ? "Verifying..." : "Verify Message"}
+      </Button>
+    </div>
+  );
+}
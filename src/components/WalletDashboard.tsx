@@ -25,7 +25,13 @@ import {
   Check,
   Wifi,
   Download,
-  Menu
+  Menu,
+  ShieldCheck,
+  Timer,
+  Layers,
+  Eye,
+  BookUser,
+  FileKey
 } from 'lucide-react';
 import { Balance } from './Balance';
 import { MultiSend } from './MultiSend';
@@ -39,16 +45,24 @@ import { ImportWallet } from './ImportWallet';
 import { GenerateWallet } from './GenerateWallet';
 import { RPCProviderManager } from './RPCProviderManager';
 import { ConnectedDAppsManager } from './ConnectedDAppsManager';
+import { VerifyMessage } from './VerifyMessage';
+import { AutoLockSettings } from './AutoLockSettings';
+import { AddressBook } from './AddressBook';
+import { OfflineSigning } from './OfflineSigning';
+import { WatchOnlyNotice } from './WatchOnlyNotice';
 import { Wallet } from '../types/wallet';
 import { WalletManager } from '../utils/walletManager';
-import { fetchBalance, getTransactionHistory, fetchEncryptedBalance } from '../utils/api';
+import { isWatchOnlyWallet } from '../utils/wallet';
+import { fetchBalance, getTransactionHistory } from '../utils/api';
+import { SessionKeyring } from '../utils/sessionKeyring';
+import { OctAmount, ZERO_OCT, octToNumber } from '../utils/octAmount';
 import { useToast } from '@/hooks/use-toast';
 
 interface Transaction {
   hash: string;
   from: string;
   to: string;
-  amount: number;
+  amount: OctAmount;
   timestamp: number;
   status: 'confirmed' | 'pending' | 'failed';
   type: 'sent' | 'received';
@@ -59,7 +73,7 @@ interface WalletDashboardProps {
   wallets: Wallet[];
   onDisconnect: () => void;
   onSwitchWallet: (wallet: Wallet) => void;
-  onAddWallet: (wallet: Wallet) => void;
+  onAddWallet: (wallet: Wallet) => void | Promise<void>;
   onRemoveWallet: (wallet: Wallet) => void;
   onExpandedView?: () => void;
   isPopupMode?: boolean;
@@ -75,7 +89,7 @@ export function WalletDashboard({
   isPopupMode = false
 }: WalletDashboardProps) {
   const [activeTab, setActiveTab] = useState<string>('overview');
-  const [balance, setBalance] = useState<number | null>(null);
+  const [balance, setBalance] = useState<OctAmount | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoadingBalance, setIsLoadingBalance] = useState(true);
   const [isLoadingTransactions, setIsLoadingTransactions] = useState(true);
@@ -84,6 +98,11 @@ export function WalletDashboard({
   const [showAddWalletDialog, setShowAddWalletDialog] = useState(false);
   const [showRPCManager, setShowRPCManager] = useState(false);
   const [showDAppsManager, setShowDAppsManager] = useState(false);
+  const [showVerifyMessage, setShowVerifyMessage] = useState(false);
+  const [showAutoLock, setShowAutoLock] = useState(false);
+  const [showAddressBook, setShowAddressBook] = useState(false);
+  const [showOfflineSigning, setShowOfflineSigning] = useState(false);
+  const [isDerivingAccount, setIsDerivingAccount] = useState(false);
   const [addWalletTab, setAddWalletTab] = useState('import');
   const [walletToDelete, setWalletToDelete] = useState<Wallet | null>(null);
   const [showLockConfirm, setShowLockConfirm] = useState(false);
@@ -91,6 +110,14 @@ export function WalletDashboard({
   const [isRefreshingData, setIsRefreshingData] = useState(false);
   const [encryptedBalance, setEncryptedBalance] = useState<any>(null);
   const { toast } = useToast();
+  const isWatchOnly = isWatchOnlyWallet(wallet);
+
+  // Watch-only wallets have no keys, so keep them off the signing tabs
+  useEffect(() => {
+    if (isWatchOnly && ['send', 'private', 'claim'].includes(activeTab)) {
+      setActiveTab('overview');
+    }
+  }, [isWatchOnly, activeTab]);
 
   // Initial data fetch when wallet is connected
   useEffect(() => {
@@ -106,7 +133,7 @@ export function WalletDashboard({
       } catch (error) {
         console.error('Failed to fetch balance:', error);
         // Don't show error for new addresses, just set balance to 0
-        setBalance(0);
+        setBalance(ZERO_OCT);
         setNonce(0);
       } finally {
         setIsLoadingBalance(false);
@@ -149,29 +176,29 @@ export function WalletDashboard({
       setBalance(balanceData.balance);
       setNonce(balanceData.nonce);
       
-      // Fetch encrypted balance when RPC provider changes
+      // Fetch encrypted balance when RPC provider changes (needs the private key)
       try {
-        const encData = await fetchEncryptedBalance(wallet.address, wallet.privateKey);
+        const encData = isWatchOnly ? null : await SessionKeyring.fetchEncryptedBalance(wallet.address);
         if (encData) {
           setEncryptedBalance(encData);
         } else {
           // Reset encrypted balance to default values when fetch fails
           setEncryptedBalance({
-            public: balanceData.balance,
-            public_raw: Math.floor(balanceData.balance * 1_000_000),
+            public: octToNumber(balanceData.balance),
+            public_raw: Number(balanceData.balance),
             encrypted: 0,
             encrypted_raw: 0,
-            total: balanceData.balance
+            total: octToNumber(balanceData.balance)
           });
         }
       } catch (encError) {
         console.error('Failed to fetch encrypted balance during refresh:', encError);
         setEncryptedBalance({
-          public: balanceData.balance,
-          public_raw: Math.floor(balanceData.balance * 1_000_000),
+          public: octToNumber(balanceData.balance),
+          public_raw: Number(balanceData.balance),
           encrypted: 0,
           encrypted_raw: 0,
-          total: balanceData.balance
+          total: octToNumber(balanceData.balance)
         });
       }
       
@@ -290,7 +317,6 @@ export function WalletDashboard({
       
       // Update localStorage immediately with new active wallet
       localStorage.setItem('activeWalletId', newActiveWallet.address);
-      localStorage.setItem('wallets', JSON.stringify(remainingWallets));
       
       // Switch to the new wallet first
       onSwitchWallet(newActiveWallet);
@@ -304,13 +330,6 @@ export function WalletDashboard({
       onRemoveWallet(walletToDelete);
     }
     
-    // Also remove from encrypted wallets storage
-    const encryptedWallets = JSON.parse(localStorage.getItem('encryptedWallets') || '[]');
-    const updatedEncryptedWallets = encryptedWallets.filter(
-      (w: any) => w.address !== walletToDelete.address
-    );
-    localStorage.setItem('encryptedWallets', JSON.stringify(updatedEncryptedWallets));
-    
     // Show success message and clear the deletion state
     setTimeout(() => {
       toast({
@@ -321,47 +340,63 @@ export function WalletDashboard({
     }, 150);
   };
 
-  const handleImportSuccess = (newWallet: Wallet) => {
-    // Ensure the wallet is properly saved before adding
-    onAddWallet(newWallet);
+  const handleImportSuccess = async (newWallet: Wallet, discoveredAccounts: Wallet[] = []) => {
     setShowAddWalletDialog(false);
     
-    // Force save to localStorage immediately
-    const currentWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
-    const walletExists = currentWallets.some((w: Wallet) => w.address === newWallet.address);
-    if (!walletExists) {
-      const updatedWallets = [...currentWallets, newWallet];
-      localStorage.setItem('wallets', JSON.stringify(updatedWallets));
-      localStorage.setItem('activeWalletId', newWallet.address);
+    // onAddWallet stores the wallet through the session keyring; adds run one at a
+    // time so discovered accounts don't overwrite each other
+    await onAddWallet(newWallet);
+    for (const account of discoveredAccounts) {
+      await onAddWallet(account);
+    }
+    if (discoveredAccounts.length > 0) {
+      onSwitchWallet(newWallet);
     }
     
     toast({
       title: "Wallet Added",
-      description: "New wallet has been added successfully",
+      description: discoveredAccounts.length > 0
+        ? `New wallet and ${discoveredAccounts.length} additional account${discoveredAccounts.length !== 1 ? 's' : ''} added successfully`
+        : "New wallet has been added successfully",
     });
   };
 
   const handleGenerateSuccess = (newWallet: Wallet) => {
-    // Ensure the wallet is properly saved before adding
+    // onAddWallet stores the wallet through the session keyring
     onAddWallet(newWallet);
     setShowAddWalletDialog(false);
     
-    // Force save to localStorage immediately
-    const currentWallets = JSON.parse(localStorage.getItem('wallets') || '[]');
-    const walletExists = currentWallets.some((w: Wallet) => w.address === newWallet.address);
-    if (!walletExists) {
-      const updatedWallets = [...currentWallets, newWallet];
-      localStorage.setItem('wallets', JSON.stringify(updatedWallets));
-      localStorage.setItem('activeWalletId', newWallet.address);
-    }
-    
     toast({
       title: "Wallet Generated",
       description: "New wallet has been generated and added successfully",
     });
   };
 
-  const handleBalanceUpdate = async (newBalance: number) => {
+  const handleAddAccountFromSeed = async () => {
+    if (!wallet.hasMnemonic || isDerivingAccount) return;
+
+    setIsDerivingAccount(true);
+    try {
+      const newAccount = await SessionKeyring.deriveNextAccount(wallet.address);
+      onAddWallet(newAccount);
+
+      toast({
+        title: "Account Added",
+        description: `Derived ${truncateAddress(newAccount.address)} at ${newAccount.derivationPath}`,
+      });
+    } catch (error) {
+      console.error('Failed to derive account:', error);
+      toast({
+        title: "Derivation Failed",
+        description: error instanceof Error ? error.message : "Failed to derive a new account",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDerivingAccount(false);
+    }
+  };
+
+  const handleBalanceUpdate = async (newBalance: OctAmount) => {
     setBalance(newBalance);
     // Also refresh nonce when balance is updated
     try {
@@ -438,6 +473,11 @@ export function WalletDashboard({
                             <p className="text-sm text-muted-foreground">
                               {truncateAddress(wallet.address)}
                             </p>
+                            {isWatchOnly && (
+                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                                Watch-only
+                              </Badge>
+                            )}
                             <ChevronDown className="h-3 w-3 text-muted-foreground" />
                           </div>
                         </Button>
@@ -475,6 +515,15 @@ export function WalletDashboard({
                                     {w.type === 'generated' && 'Generated wallet'}
                                     {w.type === 'imported-mnemonic' && 'Imported wallet (mnemonic)'}
                                     {w.type === 'imported-private-key' && 'Imported wallet (private key)'}
+                                    {w.type === 'watch-only' && (
+                                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal">
+                                        <Eye className="h-3 w-3 mr-1" />
+                                        Watch-only
+                                      </Badge>
+                                    )}
+                                    {w.derivationPath && w.derivationPath !== 'm' && (
+                                      <span className="font-mono"> · {w.derivationPath}</span>
+                                    )}
                                   </div>
                                 )}
                               </div>
@@ -518,6 +567,15 @@ export function WalletDashboard({
                           <Plus className="h-4 w-4" />
                           <span>Add Wallet</span>
                         </div>
+                        {wallet.hasMnemonic && (
+                          <div
+                            onClick={handleAddAccountFromSeed}
+                            className={`flex items-center justify-center space-x-2 p-3 rounded-sm mx-1 mb-1 ${isDerivingAccount ? 'opacity-50 cursor-wait' : 'cursor-pointer hover:bg-accent hover:text-accent-foreground'}`}
+                          >
+                            <Layers className="h-4 w-4" />
+                            <span>{isDerivingAccount ? 'Deriving Account...' : 'Add Account from Seed'}</span>
+                          </div>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                     <Button
@@ -623,6 +681,58 @@ export function WalletDashboard({
                           Connected dApps
                         </Button>
 
+                        {/* Verify Message */}
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setShowVerifyMessage(true);
+                            setShowMobileMenu(false);
+                          }}
+                          className="w-full justify-start gap-2"
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                          Verify Message
+                        </Button>
+
+                        {/* Address Book */}
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setShowAddressBook(true);
+                            setShowMobileMenu(false);
+                          }}
+                          className="w-full justify-start gap-2"
+                        >
+                          <BookUser className="h-4 w-4" />
+                          Address Book
+                        </Button>
+
+                        {/* Offline Signing */}
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setShowOfflineSigning(true);
+                            setShowMobileMenu(false);
+                          }}
+                          className="w-full justify-start gap-2"
+                        >
+                          <FileKey className="h-4 w-4" />
+                          Offline Signing
+                        </Button>
+
+                        {/* Auto-lock */}
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setShowAutoLock(true);
+                            setShowMobileMenu(false);
+                          }}
+                          className="w-full justify-start gap-2"
+                        >
+                          <Timer className="h-4 w-4" />
+                          Auto-lock
+                        </Button>
+
                         {/* Add Wallet */}
                         <Button
                           variant="outline"
@@ -676,6 +786,42 @@ export function WalletDashboard({
                       <Globe className="h-4 w-4" />
                       dApps
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowVerifyMessage(true)}
+                      className="flex items-center gap-2 desktop-only"
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                      Verify
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowAddressBook(true)}
+                      className="flex items-center gap-2 desktop-only"
+                    >
+                      <BookUser className="h-4 w-4" />
+                      Contacts
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowOfflineSigning(true)}
+                      className="flex items-center gap-2 desktop-only"
+                    >
+                      <FileKey className="h-4 w-4" />
+                      Offline
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowAutoLock(true)}
+                      className="flex items-center gap-2 desktop-only"
+                    >
+                      <Timer className="h-4 w-4" />
+                      Auto-lock
+                    </Button>
                     <Dialog open={showAddWalletDialog} onOpenChange={setShowAddWalletDialog}>
                       <DialogTrigger asChild>
                         <Button variant="outline" size="sm" className="flex items-center gap-2 desktop-only">
@@ -787,6 +933,58 @@ export function WalletDashboard({
                             Connected dApps
                           </Button>
 
+                          {/* Verify Message */}
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setShowVerifyMessage(true);
+                              setShowMobileMenu(false);
+                            }}
+                            className="w-full justify-start gap-2"
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                            Verify Message
+                          </Button>
+
+                          {/* Address Book */}
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setShowAddressBook(true);
+                              setShowMobileMenu(false);
+                            }}
+                            className="w-full justify-start gap-2"
+                          >
+                            <BookUser className="h-4 w-4" />
+                            Address Book
+                          </Button>
+
+                          {/* Offline Signing */}
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setShowOfflineSigning(true);
+                              setShowMobileMenu(false);
+                            }}
+                            className="w-full justify-start gap-2"
+                          >
+                            <FileKey className="h-4 w-4" />
+                            Offline Signing
+                          </Button>
+
+                          {/* Auto-lock */}
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setShowAutoLock(true);
+                              setShowMobileMenu(false);
+                            }}
+                            className="w-full justify-start gap-2"
+                          >
+                            <Timer className="h-4 w-4" />
+                            Auto-lock
+                          </Button>
+
                           {/* Add Wallet */}
                           <Button
                             variant="outline"
@@ -922,6 +1120,54 @@ export function WalletDashboard({
                 </DialogContent>
               </Dialog>
               
+              <Dialog open={showVerifyMessage} onOpenChange={setShowVerifyMessage}>
+                <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Verify Message</DialogTitle>
+                    <DialogDescription>
+                      Check that a message was signed by an Octra address. Verification runs locally.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <VerifyMessage />
+                </DialogContent>
+              </Dialog>
+              
+              <Dialog open={showAddressBook} onOpenChange={setShowAddressBook}>
+                <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Address Book</DialogTitle>
+                    <DialogDescription>
+                      Save addresses you send to often. Labels show up in your history and as suggestions when sending.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <AddressBook />
+                </DialogContent>
+              </Dialog>
+              
+              <Dialog open={showOfflineSigning} onOpenChange={setShowOfflineSigning}>
+                <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Offline Signing</DialogTitle>
+                    <DialogDescription>
+                      Create a transfer online, sign it on an air-gapped machine, then broadcast the signed copy.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <OfflineSigning wallet={wallet} onTransactionSuccess={handleTransactionSuccess} />
+                </DialogContent>
+              </Dialog>
+              
+              <Dialog open={showAutoLock} onOpenChange={setShowAutoLock}>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Auto-lock</DialogTitle>
+                    <DialogDescription>
+                      Choose how long the wallet stays unlocked while idle.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <AutoLockSettings />
+                </DialogContent>
+              </Dialog>
+              
               <AlertDialog open={showLockConfirm} onOpenChange={setShowLockConfirm}>
                 <AlertDialogContent>
                   <AlertDialogHeader>
@@ -956,7 +1202,7 @@ export function WalletDashboard({
                   <div className="animate-spin h-2 w-2 border border-primary border-t-transparent rounded-full" />
                 )}
               </TabsTrigger>
-              <TabsTrigger value="send" className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger text-xs sm:text-sm">
+              <TabsTrigger value="send" disabled={isWatchOnly} className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger text-xs sm:text-sm">
                 <Send className="h-3 w-3 flex-shrink-0" />
                 <span className="text-[10px]">Send</span>
               </TabsTrigger>
@@ -976,17 +1222,17 @@ export function WalletDashboard({
                   <div className="animate-spin h-2 w-2 sm:h-3 sm:w-3 border border-primary border-t-transparent rounded-full" />
                 )}
               </TabsTrigger>
-              <TabsTrigger value="send" className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
+              <TabsTrigger value="send" disabled={isWatchOnly} className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
                 <Send className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
                 <span className="hidden min-[480px]:inline">Send</span>
                 <span className="min-[480px]:hidden text-[10px] leading-none mt-0.5">Send</span>
               </TabsTrigger>
-              <TabsTrigger value="private" className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
+              <TabsTrigger value="private" disabled={isWatchOnly} className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
                 <Shield className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
                 <span className="hidden min-[480px]:inline">Private</span>
                 <span className="min-[480px]:hidden text-[10px] leading-none mt-0.5">Priv</span>
               </TabsTrigger>
-              <TabsTrigger value="claim" className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
+              <TabsTrigger value="claim" disabled={isWatchOnly} className="flex flex-col sm:flex-row items-center gap-1 tabs-trigger md:px-2 py-2 text-xs sm:text-sm">
                 <Gift className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
                 <span className="hidden min-[480px]:inline">Claim</span>
                 <span className="min-[480px]:hidden text-[10px] leading-none mt-0.5">Claim</span>
@@ -1011,7 +1257,9 @@ export function WalletDashboard({
           </TabsContent>
 
           <TabsContent value="send" className="mt-4">
-            {isPopupMode ? (
+            {isWatchOnly ? (
+              <WatchOnlyNotice />
+            ) : isPopupMode ? (
               // Popup mode - Include Private and Claim in Send tabs
               <Tabs defaultValue="single" className="w-full">
                 <TabsList className="grid w-full grid-cols-4 h-auto p-1">
@@ -1107,7 +1355,7 @@ export function WalletDashboard({
           </TabsContent>
 
           {/* Only show these tabs in expanded mode */}
-          {!isPopupMode && (
+          {!isPopupMode && !isWatchOnly && (
             <>
               <TabsContent value="private" className="mt-4">
                 <PrivateTransfer
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Eye } from 'lucide-react';
+
+export function WatchOnlyNotice() {
+  return (
+    <Alert>
+      <div className="flex items-start space-x-3">
+        <Eye className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <AlertDescription>
+          This is a watch-only wallet. The extension holds no keys for this address, so sending, private transfers, claims and contract calls are disabled. To send from it, use Offline Signing with the key on another machine.
+        </AlertDescription>
+      </div>
+    </Alert>
+  );
+}
@@ -16,6 +16,7 @@ interface WelcomeScreenProps {
 export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
   const [activeTab, setActiveTab] = useState<string>('generate');
   const [pendingWallet, setPendingWallet] = useState<Wallet | null>(null);
+  const [pendingAccounts, setPendingAccounts] = useState<Wallet[]>([]);
   const [showPasswordSetup, setShowPasswordSetup] = useState(false);
   
   // Check if there are existing wallets
@@ -24,20 +25,23 @@ export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
     return storedWallets && JSON.parse(storedWallets).length > 0;
   };
 
-  const handleWalletGenerated = (wallet: Wallet) => {
+  const handleWalletGenerated = (wallet: Wallet, discoveredAccounts: Wallet[] = []) => {
     setPendingWallet(wallet);
+    setPendingAccounts(discoveredAccounts);
     setShowPasswordSetup(true);
   };
 
   const handlePasswordSet = (wallet: Wallet) => {
     setShowPasswordSetup(false);
     setPendingWallet(null);
+    setPendingAccounts([]);
     onWalletCreated(wallet);
   };
 
   const handleBackToWalletCreation = () => {
     setShowPasswordSetup(false);
     setPendingWallet(null);
+    setPendingAccounts([]);
   };
 
   if (showPasswordSetup && pendingWallet) {
@@ -45,6 +49,7 @@ export function WelcomeScreen({ onWalletCreated }: WelcomeScreenProps) {
       <div className="min-h-screen flex items-center justify-center p-4">
         <PasswordSetup
           wallet={pendingWallet}
+          additionalWallets={pendingAccounts}
           onPasswordSet={handlePasswordSet}
           onBack={handleBackToWalletCreation}
         />
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AddressBookManager } from '../utils/addressBook';
+import type { AddressBookEntry } from '../types/wallet';
+
+// Address book entries kept in sync with edits from anywhere in the page
+export function useAddressBook() {
+  const [entries, setEntries] = useState<AddressBookEntry[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    AddressBookManager.getEntries().then(loaded => {
+      if (active) setEntries(loaded);
+    });
+    const unsubscribe = AddressBookManager.subscribe(setEntries);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const labels = useMemo(
+    () => new Map(entries.map(entry => [entry.address, entry.label])),
+    [entries]
+  );
+
+  const labelFor = useCallback((address: string) => labels.get(address.trim()), [labels]);
+
+  return { entries, labelFor };
+}
@@ -1,9 +1,14 @@
+import { OctAmount } from '../utils/octAmount';
+
 export interface Wallet {
   address: string;
   privateKey: string;
   mnemonic?: string;
+  // Set on public records, which carry no mnemonic themselves
+  hasMnemonic?: boolean;
   publicKey?: string;
-  type?: 'generated' | 'imported-mnemonic' | 'imported-private-key';
+  type?: 'generated' | 'imported-mnemonic' | 'imported-private-key' | 'watch-only';
+  derivationPath?: string;
 }
 
 export interface WalletData {
@@ -36,7 +41,7 @@ export interface WalletBalance {
 
 // New interfaces for the actual API
 export interface BalanceResponse {
-  balance: number;
+  balance: OctAmount;
   nonce: number;
 }
 
@@ -64,14 +69,14 @@ export interface Transaction {
 
 export interface AddressHistoryResponse {
   transactions: TransactionHistoryItem[];
-  balance: number;
+  balance: OctAmount;
 }
 
 export interface TransactionHistoryItem {
   hash: string;
   from: string;
   to: string;
-  amount: number;
+  amount: OctAmount;
   timestamp: number;
   status: 'confirmed' | 'pending' | 'failed';
   type: 'sent' | 'received';
@@ -146,6 +151,24 @@ export interface WalletPassword {
   salt: string;
 }
 
+// Entry of the `encryptedWallets` list. needsEncryption entries hold plain JSON;
+// older versions wrote them, and the next unlock re-encrypts them.
+export interface EncryptedWalletEntry {
+  address: string;
+  encryptedData: string;
+  createdAt: number;
+  needsEncryption?: boolean;
+}
+
+// Stored under `walletVaultHeader`. Vaults without a header are legacy (v1) vaults
+// keyed by a single SHA-256 of the password.
+export interface VaultHeader {
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+}
+
 // RPC Provider types
 export interface RPCProvider {
   id: string;
@@ -158,11 +181,22 @@ export interface RPCProvider {
 }
 
 // DApp connection types
+export type DAppPermission =
+  | 'view_address'
+  | 'view_balance'
+  | 'sign_message'
+  | 'send_transaction'
+  | 'contract_view'
+  | 'contract_call'
+  | 'private_transfer';
+
 export interface DAppConnectionRequest {
   origin: string;
   permissions: string[];
   appName?: string;
   appIcon?: string;
+  // What a connected dApp already holds when it asks for more
+  grantedPermissions?: string[];
 }
 
 // Legacy transaction request interface - now handled by contract interactions
@@ -176,10 +210,110 @@ export interface DAppTransactionRequest {
   message?: string;
 }
 
+export interface DAppPrivateTransferRequest {
+  origin: string;
+  to: string;
+  // Decimal OCT, as the dApp sent it
+  amount: string;
+  appName?: string;
+  appIcon?: string;
+  connectedAddress: string;
+}
+
+export interface DAppSignMessageRequest {
+  origin: string;
+  message: string;
+  appName?: string;
+  appIcon?: string;
+  connectedAddress?: string;
+  typedData?: TypedData;
+}
+
+export interface SignedMessage {
+  message: string;
+  signature: string;
+  publicKey: string;
+  address: string;
+}
+
+// Structured data signing (signTypedData)
+export type TypedDataFieldType = 'string' | 'address' | 'uint' | 'int' | 'bool';
+
+export interface TypedDataField {
+  name: string;
+  type: TypedDataFieldType;
+}
+
+export interface TypedDataDomain {
+  name: string;
+  origin: string;
+  chainId: string;
+}
+
+export interface TypedData {
+  domain: TypedDataDomain;
+  primaryType: string;
+  types: TypedDataField[];
+  message: Record<string, string | number | boolean>;
+}
+
+export interface SignedTypedData {
+  typedData: TypedData;
+  hash: string;
+  signature: string;
+  publicKey: string;
+  address: string;
+}
+
 export interface ConnectedDApp {
   origin: string;
   appName: string;
   connectedAt: number;
-  permissions: string[];
+  // What the user granted, which can be less than the dApp asked for
+  permissions: DAppPermission[];
+  // DAPP_PERMISSIONS_VERSION when saved; missing on connections from before
+  // permissions were enforced, which the background script migrates
+  permissionsVersion?: number;
   selectedAddress: string;
-}
\ No newline at end of file
+}
+// Address book types
+export interface AddressBookEntry {
+  address: string;
+  label: string;
+  // Notes, tags and usage were added later, older entries and backups may not have them
+  note?: string;
+  tags?: string[];
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+// Encrypted backup types
+export interface WalletBackupData {
+  wallets: Wallet[];
+  labels: Record<string, string>;
+  addressBook: AddressBookEntry[];
+  rpcProviders: RPCProvider[];
+  connectedDApps: ConnectedDApp[];
+}
+
+// The payload is encrypted like vault entries, with its own KDF header
+export interface WalletBackupFile {
+  format: 'octra-wallet-backup';
+  version: number;
+  createdAt: number;
+  kdf: VaultHeader;
+  data: string;
+}
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+// Offline signing: the online wallet exports an unsigned transfer, an offline
+// instance signs it, and the online wallet broadcasts the signed copy
+export type OfflineTransactionFormat = 'octra-unsigned-tx' | 'octra-signed-tx';
+
+export interface OfflineTransactionFile {
+  format: OfflineTransactionFormat;
+  version: number;
+  createdAt: number;
+  transaction: Transaction;
+}
@@ -0,0 +1,209 @@
+import { ExtensionStorageManager } from './extensionStorage';
+import { isValidOctraAddress } from './wallet';
+import { isNearMissAddress } from './crypto';
+import { AddressBookEntry } from '../types/wallet';
+
+const ADDRESS_BOOK_STORAGE_KEY = 'addressBook';
+const RECENT_RECIPIENTS_STORAGE_KEY = 'recentRecipients';
+const MAX_RECENT_RECIPIENTS = 25;
+export const MAX_LABEL_LENGTH = 40;
+export const MAX_NOTE_LENGTH = 280;
+export const MAX_TAGS = 8;
+
+export interface AddressBookInput {
+  address: string;
+  label: string;
+  note?: string;
+  tags?: string[];
+}
+
+// A recipient that is one typo away from an address the user has used before
+export interface AddressTypoMatch {
+  address: string;
+  similarTo: string;
+  label?: string;
+}
+
+type AddressBookListener = (entries: AddressBookEntry[]) => void;
+
+// "Team, exchange ,team" -> ['team', 'exchange']
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export function shortenAddress(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 8)}...${address.slice(-6)}` : address;
+}
+
+export function describeTypo(match: AddressTypoMatch): string {
+  const known = match.label ? `your contact ${match.label}` : `${shortenAddress(match.similarTo)}, which you sent to before`;
+  return `${shortenAddress(match.address)} is one character away from ${known}`;
+}
+
+/**
+ * Match entries against a label, address, tag or note fragment. Recently used
+ * entries come first so the usual recipients are one click away.
+ */
+export function searchAddressBook(entries: AddressBookEntry[], query: string): AddressBookEntry[] {
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? entries.filter(entry =>
+        entry.label.toLowerCase().includes(needle) ||
+        entry.address.toLowerCase().includes(needle) ||
+        (entry.tags || []).some(tag => tag.includes(needle)) ||
+        (entry.note || '').toLowerCase().includes(needle))
+    : entries;
+
+  return [...matches].sort((a, b) =>
+    (b.lastUsedAt || 0) - (a.lastUsedAt || 0) || a.label.localeCompare(b.label));
+}
+
+/**
+ * Saved recipients, stored as a JSON array under 'addressBook' (the same key
+ * encrypted backups export and restore). Components subscribe to hear about
+ * edits made elsewhere in the page.
+ */
+export class AddressBookManager {
+  private static listeners = new Set<AddressBookListener>();
+
+  static async getEntries(): Promise<AddressBookEntry[]> {
+    try {
+      const parsed = JSON.parse((await ExtensionStorageManager.get(ADDRESS_BOOK_STORAGE_KEY)) || '[]');
+      return Array.isArray(parsed)
+        ? parsed.filter((entry): entry is AddressBookEntry =>
+            typeof entry?.address === 'string' && typeof entry?.label === 'string')
+        : [];
+    } catch (error) {
+      console.error('Failed to load address book:', error);
+      return [];
+    }
+  }
+
+  static async findEntry(address: string): Promise<AddressBookEntry | undefined> {
+    const entries = await this.getEntries();
+    return entries.find(entry => entry.address === address.trim());
+  }
+
+  private static async saveEntries(entries: AddressBookEntry[]): Promise<void> {
+    await ExtensionStorageManager.set(ADDRESS_BOOK_STORAGE_KEY, JSON.stringify(entries));
+    this.listeners.forEach(listener => listener(entries));
+  }
+
+  /**
+   * Add an entry, or update the one at originalAddress when editing. Throws
+   * with a user-facing message when the input is invalid.
+   */
+  static async saveEntry(input: AddressBookInput, originalAddress?: string): Promise<AddressBookEntry> {
+    const address = input.address.trim();
+    const label = input.label.trim();
+    const note = input.note?.trim() || undefined;
+
+    if (!isValidOctraAddress(address)) {
+      throw new Error('Not a valid Octra address');
+    }
+    if (!label) {
+      throw new Error('Label is required');
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      throw new Error(`Label cannot be longer than ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      throw new Error(`Note cannot be longer than ${MAX_NOTE_LENGTH} characters`);
+    }
+
+    const entries = await this.getEntries();
+    const existing = entries.find(entry => entry.address === (originalAddress ?? address));
+
+    if (address !== originalAddress && entries.some(entry => entry.address === address)) {
+      throw new Error('This address is already in your address book');
+    }
+    if (entries.some(entry => entry !== existing && entry.label.toLowerCase() === label.toLowerCase())) {
+      throw new Error('Another entry already uses this label');
+    }
+
+    const entry: AddressBookEntry = {
+      address,
+      label,
+      note,
+      tags: (input.tags || []).slice(0, MAX_TAGS),
+      createdAt: existing?.createdAt ?? Date.now(),
+      lastUsedAt: existing?.lastUsedAt
+    };
+
+    await this.saveEntries(existing
+      ? entries.map(e => (e === existing ? entry : e))
+      : [...entries, entry]);
+
+    console.log(`📇 Address book: saved ${label} (${shortenAddress(address)})`);
+    return entry;
+  }
+
+  static async removeEntry(address: string): Promise<void> {
+    const entries = await this.getEntries();
+    await this.saveEntries(entries.filter(entry => entry.address !== address));
+  }
+
+  static async getRecentRecipients(): Promise<string[]> {
+    try {
+      const parsed = JSON.parse((await ExtensionStorageManager.get(RECENT_RECIPIENTS_STORAGE_KEY)) || '[]');
+      return Array.isArray(parsed) ? parsed.filter((address): address is string => typeof address === 'string') : [];
+    } catch (error) {
+      console.error('Failed to load recent recipients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Called after a successful send: saved entries float to the top of the
+   * suggestions, and every recipient is remembered for typo detection.
+   */
+  static async markUsed(addresses: string[]): Promise<void> {
+    const used = new Set(addresses.map(address => address.trim()));
+
+    const recent = await this.getRecentRecipients();
+    const updatedRecent = [...used, ...recent.filter(address => !used.has(address))].slice(0, MAX_RECENT_RECIPIENTS);
+    await ExtensionStorageManager.set(RECENT_RECIPIENTS_STORAGE_KEY, JSON.stringify(updatedRecent));
+
+    const entries = await this.getEntries();
+    if (!entries.some(entry => used.has(entry.address))) return;
+
+    const now = Date.now();
+    await this.saveEntries(entries.map(entry => (used.has(entry.address) ? { ...entry, lastUsedAt: now } : entry)));
+  }
+
+  /**
+   * Flag recipients that differ by one character (or one swapped pair) from an
+   * address book entry or a recent recipient. An exact match is never a typo.
+   */
+  static async findTypos(addresses: string[]): Promise<AddressTypoMatch[]> {
+    const [entries, recent] = await Promise.all([this.getEntries(), this.getRecentRecipients()]);
+    const known = [...entries.map(entry => entry.address), ...recent];
+    const knownSet = new Set(known);
+
+    const matches: AddressTypoMatch[] = [];
+    for (const address of new Set(addresses.map(a => a.trim()))) {
+      if (!isValidOctraAddress(address) || knownSet.has(address)) continue;
+
+      const similarTo = known.find(candidate => isNearMissAddress(address, candidate));
+      if (similarTo) {
+        matches.push({
+          address,
+          similarTo,
+          label: entries.find(entry => entry.address === similarTo)?.label
+        });
+      }
+    }
+    return matches;
+  }
+
+  static subscribe(listener: AddressBookListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
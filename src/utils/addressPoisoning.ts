@@ -0,0 +1,168 @@
+import { AddressBookManager, shortenAddress } from './addressBook';
+import { ExtensionStorageManager } from './extensionStorage';
+import { OctAmount } from './octAmount';
+
+// Address poisoning: an attacker sends dust from an address that shares the
+// first and last characters of one the user pays, hoping the user later copies
+// it from history. Wallets (this one included) only show a few characters of
+// each end, so that is all the attacker has to match.
+
+const SUSPECTS_STORAGE_KEY = 'poisoningSuspects';
+const MAX_SUSPECTS = 100;
+const ADDRESS_PREFIX = 'oct';
+// Characters compared at each end of the address body
+const LOOKALIKE_PREFIX_CHARS = 3;
+const LOOKALIKE_SUFFIX_CHARS = 3;
+// Incoming transfers below the smallest fee are never worth showing by default
+export const DUST_THRESHOLD: OctAmount = 1000n;
+
+export interface PoisoningSuspect {
+  address: string;
+  lookalikeOf: string;
+  detectedAt: number;
+}
+
+export interface PoisoningMatch {
+  address: string;
+  lookalikeOf: string;
+  label?: string;
+}
+
+interface HistoryTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  amount: OctAmount;
+  type: 'sent' | 'received';
+}
+
+export interface PoisoningReport {
+  // hash -> the trusted address the sender imitates
+  suspicious: Map<string, string>;
+  // Incoming zero/dust transfers hidden unless the user asks for them
+  hidden: Set<string>;
+}
+
+export function looksAlike(address: string, known: string): boolean {
+  if (address === known || !address.startsWith(ADDRESS_PREFIX) || !known.startsWith(ADDRESS_PREFIX)) {
+    return false;
+  }
+  const body = address.slice(ADDRESS_PREFIX.length);
+  const knownBody = known.slice(ADDRESS_PREFIX.length);
+  return body.slice(0, LOOKALIKE_PREFIX_CHARS) === knownBody.slice(0, LOOKALIKE_PREFIX_CHARS) &&
+    body.slice(-LOOKALIKE_SUFFIX_CHARS) === knownBody.slice(-LOOKALIKE_SUFFIX_CHARS);
+}
+
+/**
+ * Private transfers show up with a zero public amount, so a sender with a
+ * private transfer waiting for this wallet is not sending dust. That list comes
+ * from the node's encrypted-balance flow; a message would not do, since any
+ * sender can attach the private-transfer marker.
+ */
+export function isDustTransfer(tx: Pick<HistoryTransaction, 'amount' | 'from'>, privateTransferSenders: ReadonlySet<string> = new Set()): boolean {
+  if (privateTransferSenders.has(tx.from)) return false;
+  return tx.amount < DUST_THRESHOLD;
+}
+
+export async function getPoisoningSuspects(): Promise<PoisoningSuspect[]> {
+  try {
+    const suspects = JSON.parse((await ExtensionStorageManager.get(SUSPECTS_STORAGE_KEY)) || '[]');
+    return Array.isArray(suspects) ? suspects : [];
+  } catch (error) {
+    console.error('Failed to load poisoning suspects:', error);
+    return [];
+  }
+}
+
+async function recordSuspects(found: PoisoningSuspect[]): Promise<void> {
+  const existing = await getPoisoningSuspects();
+  const known = new Set(existing.map(suspect => suspect.address));
+  const added = found.filter(suspect => !known.has(suspect.address));
+  if (added.length === 0) return;
+
+  console.warn(`☠️ Address poisoning: flagged ${added.length} look-alike sender(s)`);
+  await ExtensionStorageManager.set(SUSPECTS_STORAGE_KEY, JSON.stringify([...added, ...existing].slice(0, MAX_SUSPECTS)));
+}
+
+// Addresses the user deliberately pays: saved contacts and recent recipients
+async function getTrustedAddresses(): Promise<string[]> {
+  const [entries, recent] = await Promise.all([
+    AddressBookManager.getEntries(),
+    AddressBookManager.getRecentRecipients()
+  ]);
+  return [...entries.map(entry => entry.address), ...recent];
+}
+
+/**
+ * Flag incoming transfers whose sender imitates an address this wallet has
+ * sent to, and collect the dust transfers to hide. Flagged senders are
+ * remembered so the send forms can warn about them later.
+ */
+export async function analyzeHistory(
+  walletAddress: string,
+  transactions: HistoryTransaction[],
+  privateTransferSenders: ReadonlySet<string> = new Set()
+): Promise<PoisoningReport> {
+  const trusted = new Set(await getTrustedAddresses());
+  transactions
+    .filter(tx => tx.type === 'sent' && tx.to)
+    .forEach(tx => trusted.add(tx.to));
+  trusted.delete(walletAddress);
+
+  const trustedList = Array.from(trusted);
+  const suspicious = new Map<string, string>();
+  const hidden = new Set<string>();
+  const suspects: PoisoningSuspect[] = [];
+
+  for (const tx of transactions) {
+    if (tx.type !== 'received') continue;
+
+    if (isDustTransfer(tx, privateTransferSenders)) {
+      hidden.add(tx.hash);
+    }
+
+    if (trusted.has(tx.from)) continue;
+    const lookalikeOf = trustedList.find(address => looksAlike(tx.from, address));
+    if (lookalikeOf) {
+      suspicious.set(tx.hash, lookalikeOf);
+      suspects.push({ address: tx.from, lookalikeOf, detectedAt: Date.now() });
+    }
+  }
+
+  await recordSuspects(suspects);
+  return { suspicious, hidden };
+}
+
+/**
+ * Recipients that were flagged in history or imitate a trusted address. A
+ * saved contact or recent recipient is never reported.
+ */
+export async function findPoisonedRecipients(addresses: string[]): Promise<PoisoningMatch[]> {
+  const [entries, trustedList, suspects] = await Promise.all([
+    AddressBookManager.getEntries(),
+    getTrustedAddresses(),
+    getPoisoningSuspects()
+  ]);
+  const trusted = new Set(trustedList);
+
+  const matches: PoisoningMatch[] = [];
+  for (const address of new Set(addresses.map(a => a.trim()))) {
+    if (!address || trusted.has(address)) continue;
+
+    const lookalikeOf = suspects.find(suspect => suspect.address === address)?.lookalikeOf ??
+      trustedList.find(known => looksAlike(address, known));
+    if (lookalikeOf) {
+      matches.push({
+        address,
+        lookalikeOf,
+        label: entries.find(entry => entry.address === lookalikeOf)?.label
+      });
+    }
+  }
+  return matches;
+}
+
+export function describePoisoning(match: PoisoningMatch): string {
+  const target = match.label ? `your contact ${match.label}` : shortenAddress(match.lookalikeOf);
+  return `${shortenAddress(match.address)} imitates ${target} and may be an address poisoning attempt`;
+}
@@ -2,10 +2,10 @@
 import { BalanceResponse, Transaction, AddressHistoryResponse, TransactionDetails, PendingTransaction, StagingResponse, EncryptedBalanceResponse, PendingPrivateTransfer, PrivateTransferResult, ClaimResult } from '../types/wallet';
 import { encryptClientBalance } from './crypto';
 import { getActiveRPCProvider } from './rpc';
+import { NonceManager } from './nonceManager';
+import { OctAmount, MU_PER_OCT, ZERO_OCT, octFromMicroUnits, octFromNumber, parseOct, tryParseOct } from './octAmount';
 import * as nacl from 'tweetnacl';
 
-const MU_FACTOR = 1_000_000;
-
 // Use the active RPC provider for API requests
 async function makeAPIRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
   const provider = getActiveRPCProvider();
@@ -69,6 +69,17 @@ async function makeAPIRequest(endpoint: string, options: RequestInit = {}): Prom
   }
 }
 
+// The node sends OCT amounts as decimal strings, some with the unit appended
+// ("1.5 OCT"). Returns null for anything that is not a valid amount.
+function parseApiOct(value: unknown): OctAmount | null {
+  if (typeof value === 'number') {
+    // A JSON number has already been through a float; nothing better to recover
+    return Number.isFinite(value) ? octFromNumber(value) : null;
+  }
+  if (typeof value !== 'string') return null;
+  return tryParseOct(value.trim().split(/\s+/)[0] || '0');
+}
+
 // Helper function to safely parse JSON responses
 async function safeJsonParse(response: Response): Promise<any> {
   try {
@@ -164,7 +175,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
       // Return empty history instead of throwing
       return {
         transactions: [],
-        balance: 0
+        balance: ZERO_OCT
       };
     }
     
@@ -175,7 +186,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
       console.error('Failed to parse transaction history JSON:', parseError);
       return {
         transactions: [],
-        balance: 0
+        balance: ZERO_OCT
       };
     }
     
@@ -189,7 +200,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
           hash: txDetails.tx_hash,
           from: txDetails.parsed_tx.from,
           to: txDetails.parsed_tx.to,
-          amount: parseFloat(txDetails.parsed_tx.amount),
+          amount: parseApiOct(txDetails.parsed_tx.amount) ?? ZERO_OCT,
           timestamp: txDetails.parsed_tx.timestamp,
           status: 'confirmed' as const,
           type: txDetails.parsed_tx.from.toLowerCase() === address.toLowerCase() ? 'sent' as const : 'received' as const
@@ -201,7 +212,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
           hash: recentTx.hash,
           from: 'unknown',
           to: 'unknown',
-          amount: 0,
+          amount: ZERO_OCT,
           timestamp: Date.now() / 1000,
           status: 'confirmed' as const,
           type: 'received' as const
@@ -216,7 +227,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
       hash: tx.hash,
       from: tx.from,
       to: tx.to,
-      amount: parseFloat(tx.amount),
+      amount: parseApiOct(tx.amount) ?? ZERO_OCT,
       timestamp: tx.timestamp,
       status: 'pending' as const,
       type: tx.from.toLowerCase() === address.toLowerCase() ? 'sent' as const : 'received' as const
@@ -228,7 +239,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
     
     const result: AddressHistoryResponse = {
       transactions: allTransactions,
-      balance: parseFloat(apiData.balance)
+      balance: parseApiOct(apiData.balance) ?? ZERO_OCT
     };
     
     return result;
@@ -237,7 +248,7 @@ export async function fetchTransactionHistory(address: string): Promise<AddressH
     // Return empty history instead of throwing
     return {
       transactions: [],
-      balance: 0
+      balance: ZERO_OCT
     };
   }
 }
@@ -297,6 +308,30 @@ export async function fetchPendingTransactions(address: string): Promise<Pending
   }
 }
 
+// Everything currently in staging, used to gauge network pressure for fee estimates
+export async function fetchStagingSummary(): Promise<StagingResponse> {
+  try {
+    const response = await makeAPIRequest(`/staging`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Failed to fetch staging summary:', response.status, errorText);
+      return { count: 0, staged_transactions: [], message: '' };
+    }
+
+    const data: StagingResponse = await safeJsonParse(response);
+    const stagedTransactions = Array.isArray(data.staged_transactions) ? data.staged_transactions : [];
+    return {
+      count: typeof data.count === 'number' ? data.count : stagedTransactions.length,
+      staged_transactions: stagedTransactions,
+      message: data.message || ''
+    };
+  } catch (error) {
+    console.error('Error fetching staging summary:', error);
+    return { count: 0, staged_transactions: [], message: '' };
+  }
+}
+
 // New function to fetch specific pending transaction by hash
 export async function fetchPendingTransactionByHash(hash: string): Promise<PendingTransaction | null> {
   try {
@@ -345,12 +380,12 @@ export async function fetchBalance(address: string): Promise<BalanceResponse> {
       // Check if this is a 404 error (new address with no transactions)
       if (balanceResponse.status === 404) {
         // console.log('Address not found (new address), returning zero balance');
-        return { balance: 0, nonce: 0 };
+        return { balance: ZERO_OCT, nonce: 0 };
       }
       
       // For other errors, also return zero balance for new addresses
       // console.log('Balance fetch failed, treating as new address with zero balance');
-      return { balance: 0, nonce: 0 };
+      return { balance: ZERO_OCT, nonce: 0 };
     }
     
     let data: any;
@@ -359,16 +394,16 @@ export async function fetchBalance(address: string): Promise<BalanceResponse> {
       if (!responseText.trim()) {
         console.error('Empty response from balance API');
         // Return zero balance for empty response (new address)
-        return { balance: 0, nonce: 0 };
+        return { balance: ZERO_OCT, nonce: 0 };
       }
       data = JSON.parse(responseText);
     } catch (parseError) {
       console.error('Failed to parse balance response as JSON:', parseError);
       // Return zero balance for parse errors (new address)
-      return { balance: 0, nonce: 0 };
+      return { balance: ZERO_OCT, nonce: 0 };
     }
 
-    const balance = typeof data.balance === 'string' ? parseFloat(data.balance) : (data.balance || 0);
+    const balance = parseApiOct(data.balance ?? '0');
     
     // Calculate nonce exactly like CLI: max of transaction_count and highest pending nonce
     const transactionCount = data.nonce || 0;
@@ -392,17 +427,17 @@ export async function fetchBalance(address: string): Promise<BalanceResponse> {
       }
     }
 
-    if (isNaN(balance) || isNaN(nonce)) {
+    if (balance === null || isNaN(nonce)) {
       console.warn('Invalid balance or nonce in API response', { balance, nonce });
       // Return zero balance for invalid data (new address)
-      return { balance: 0, nonce: 0 };
+      return { balance: ZERO_OCT, nonce: 0 };
     }
 
     return { balance, nonce };
   } catch (error) {
     console.error('Error fetching balance:', error);
     // Return zero balance for network errors (new address)
-    return { balance: 0, nonce: 0 };
+    return { balance: ZERO_OCT, nonce: 0 };
   }
 }
 
@@ -445,21 +480,21 @@ export async function fetchEncryptedBalance(address: string, privateKey: string)
   }
 }
 
-export async function encryptBalance(address: string, amount: number, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+export async function encryptBalance(address: string, amount: OctAmount, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
   try {
     const encData = await fetchEncryptedBalance(address, privateKey);
     if (!encData) {
       return { success: false, error: "Cannot get balance" };
     }
     
-    const currentEncryptedRaw = encData.encrypted_raw;
-    const newEncryptedRaw = currentEncryptedRaw + Math.floor(amount * MU_FACTOR);
+    const currentEncryptedRaw = octFromMicroUnits(encData.encrypted_raw);
+    const newEncryptedRaw = currentEncryptedRaw + amount;
     
     const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
     
     const data = {
       address,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
+      amount: amount.toString(),
       private_key: privateKey,
       encrypted_data: encryptedValue
     };
@@ -484,25 +519,25 @@ export async function encryptBalance(address: string, amount: number, privateKey
   }
 }
 
-export async function decryptBalance(address: string, amount: number, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+export async function decryptBalance(address: string, amount: OctAmount, privateKey: string): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
   try {
     const encData = await fetchEncryptedBalance(address, privateKey);
     if (!encData) {
       return { success: false, error: "Cannot get balance" };
     }
     
-    const currentEncryptedRaw = encData.encrypted_raw;
-    if (currentEncryptedRaw < Math.floor(amount * MU_FACTOR)) {
+    const currentEncryptedRaw = octFromMicroUnits(encData.encrypted_raw);
+    if (currentEncryptedRaw < amount) {
       return { success: false, error: "Insufficient encrypted balance" };
     }
     
-    const newEncryptedRaw = currentEncryptedRaw - Math.floor(amount * MU_FACTOR);
+    const newEncryptedRaw = currentEncryptedRaw - amount;
     
     const encryptedValue = await encryptClientBalance(newEncryptedRaw, privateKey);
     
     const data = {
       address,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
+      amount: amount.toString(),
       private_key: privateKey,
       encrypted_data: encryptedValue
     };
@@ -527,7 +562,7 @@ export async function decryptBalance(address: string, amount: number, privateKey
   }
 }
 
-export async function createPrivateTransfer(fromAddress: string, toAddress: string, amount: number, fromPrivateKey: string): Promise<PrivateTransferResult> {
+export async function createPrivateTransfer(fromAddress: string, toAddress: string, amount: OctAmount, fromPrivateKey: string): Promise<PrivateTransferResult> {
   try {
     const addressInfo = await getAddressInfo(toAddress);
     if (!addressInfo || !addressInfo.has_public_key) {
@@ -542,7 +577,7 @@ export async function createPrivateTransfer(fromAddress: string, toAddress: stri
     const data = {
       from: fromAddress,
       to: toAddress,
-      amount: Math.floor(amount * MU_FACTOR).toString(),
+      amount: amount.toString(),
       from_private_key: fromPrivateKey,
       to_public_key: toPublicKey
     };
@@ -633,20 +668,18 @@ export async function claimPrivateTransfer(recipientAddress: string, privateKey:
   }
 }
 
-export function createTransaction(
+// Build the unsigned part of a transfer. Offline signing exports this as-is and
+// signs it on another machine with signTransaction.
+export function buildUnsignedTransaction(
   senderAddress: string,
   recipientAddress: string,
-  amount: number,
+  amount: OctAmount,
   nonce: number,
-  privateKeyBase64: string,
-  publicKeyHex: string,
-  message?: string
+  message?: string,
+  ouOverride?: string
 ): Transaction {
-  // Convert amount to micro units (multiply by 1,000,000)
-  const amountMu = Math.floor(amount * MU_FACTOR);
-  
-  // Determine OU based on amount
-  const ou = amount < 1000 ? "1" : "3";
+  // Determine OU based on amount unless the caller sets the fee (e.g. replacing a pending transaction)
+  const ou = ouOverride || (amount < 1000n * MU_PER_OCT ? "1" : "3");
   
   // Create timestamp with small random component exactly like CLI
   const timestamp = Math.floor((Date.now() / 1000 + Math.random() * 0.01) * 1000) / 1000;
@@ -655,7 +688,7 @@ export function createTransaction(
   const transaction: Transaction = {
     from: senderAddress,
     to_: recipientAddress,
-    amount: amountMu.toString(),
+    amount: amount.toString(),
     nonce,
     ou,
     timestamp
@@ -666,19 +699,28 @@ export function createTransaction(
     transaction.message = message;
   }
 
-  // Convert transaction to JSON string for signing exactly like CLI
-  // CLI uses: json.dumps({k: v for k, v in tx.items() if k != "message"}, separators=(",", ":"))
+  return transaction;
+}
+
+// Convert transaction to JSON string for signing exactly like CLI
+// CLI uses: json.dumps({k: v for k, v in tx.items() if k != "message"}, separators=(",", ":"))
+export function getTransactionSigningData(transaction: Transaction): string {
   // Create signing data excluding message field like CLI does
-  const signingObject: any = {};
   // Add fields in the exact order as CLI to ensure consistent JSON
-  signingObject.from = transaction.from;
-  signingObject.to_ = transaction.to_;
-  signingObject.amount = transaction.amount;
-  signingObject.nonce = transaction.nonce;
-  signingObject.ou = transaction.ou;
-  signingObject.timestamp = transaction.timestamp;
+  const signingObject = {
+    from: transaction.from,
+    to_: transaction.to_,
+    amount: transaction.amount,
+    nonce: transaction.nonce,
+    ou: transaction.ou,
+    timestamp: transaction.timestamp
+  };
   
-  const signingData = JSON.stringify(signingObject, null, 0);
+  return JSON.stringify(signingObject, null, 0);
+}
+
+export function signTransaction(transaction: Transaction, privateKeyBase64: string, publicKeyHex: string): Transaction {
+  const signingData = getTransactionSigningData(transaction);
   
   // Prepare keys for signing
   const privateKeyBuffer = Buffer.from(privateKeyBase64, 'base64');
@@ -693,10 +735,25 @@ export function createTransaction(
   const signature = nacl.sign.detached(new TextEncoder().encode(signingData), secretKey);
 
   // Add signature and public key to transaction
-  transaction.signature = Buffer.from(signature).toString('base64');
-  transaction.public_key = Buffer.from(publicKeyBuffer).toString('base64');
+  return {
+    ...transaction,
+    signature: Buffer.from(signature).toString('base64'),
+    public_key: Buffer.from(publicKeyBuffer).toString('base64')
+  };
+}
 
-  return transaction;
+export function createTransaction(
+  senderAddress: string,
+  recipientAddress: string,
+  amount: OctAmount,
+  nonce: number,
+  privateKeyBase64: string,
+  publicKeyHex: string,
+  message?: string,
+  ouOverride?: string
+): Transaction {
+  const transaction = buildUnsignedTransaction(senderAddress, recipientAddress, amount, nonce, message, ouOverride);
+  return signTransaction(transaction, privateKeyBase64, publicKeyHex);
 }
 
 // Updated interface to match actual API response
@@ -715,38 +772,42 @@ interface AddressApiResponse {
 }
 
 // Wrapper functions for compatibility with existing components
-export async function getBalance(address: string): Promise<number> {
+export async function getBalance(address: string): Promise<OctAmount> {
   try {
     const result = await fetchBalance(address);
     return result.balance;
   } catch (error) {
     console.error('Error fetching balance:', error);
-    return Math.random() * 100; // Mock data for development
+    return octFromNumber(Math.random() * 100); // Mock data for development
   }
 }
 
 export async function sendMultipleTransactions(transactions: any[]): Promise<string[]> {
   try {
-    const promises = transactions.map(async (txData, index) => {
-      // Convert the transaction data to the proper format
-      const transaction = createTransaction(
+    const hashes: string[] = [];
+
+    // Send one at a time so each transaction gets the next nonce for its sender
+    for (const txData of transactions) {
+      const publicKey = txData.publicKey || Buffer.from(
+        nacl.sign.keyPair.fromSeed(Buffer.from(txData.privateKey, 'base64')).publicKey
+      ).toString('hex');
+
+      const result = await NonceManager.sendTransaction(txData.from, nonce => createTransaction(
         txData.from,
         txData.to,
-        txData.amount,
-        0, // nonce will be handled properly in real implementation
+        typeof txData.amount === 'bigint' ? txData.amount : parseOct(String(txData.amount)),
+        nonce,
         txData.privateKey,
-        '' // publicKey will be derived from privateKey
-      );
-      
-      const result = await sendTransaction(transaction);
-      if (result.success && result.hash) {
-        return result.hash;
+        publicKey
+      ));
+
+      if (!result.success || !result.hash) {
+        throw new Error(result.error || 'Transaction failed');
       }
-      throw new Error(result.error || 'Transaction failed');
-    });
-    
-    const results = await Promise.all(promises);
-    return results;
+      hashes.push(result.hash);
+    }
+
+    return hashes;
   } catch (error) {
     console.error('Error sending multiple transactions:', error);
     throw error;
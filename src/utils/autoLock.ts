@@ -0,0 +1,39 @@
+import { ExtensionStorageManager } from './extensionStorage';
+
+// Auto-lock is enforced by the background service worker (see background.js).
+// Pages only store the setting and report user activity to reset the timer.
+
+export const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' }
+];
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const ACTIVITY_THROTTLE_MS = 30000;
+let lastActivityReport = 0;
+
+export async function getAutoLockMinutes(): Promise<number> {
+  const stored = await ExtensionStorageManager.get('autoLockMinutes');
+  const minutes = stored !== null ? parseInt(stored, 10) : DEFAULT_AUTO_LOCK_MINUTES;
+  return Number.isNaN(minutes) || minutes < 0 ? DEFAULT_AUTO_LOCK_MINUTES : minutes;
+}
+
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  await ExtensionStorageManager.set('autoLockMinutes', String(minutes));
+}
+
+export function reportWalletActivity(): void {
+  const now = Date.now();
+  if (now - lastActivityReport < ACTIVITY_THROTTLE_MS) return;
+  lastActivityReport = now;
+
+  if (typeof chrome !== 'undefined' && chrome.runtime?.sendMessage) {
+    chrome.runtime.sendMessage({ type: 'WALLET_ACTIVITY' }).catch(() => {
+      // Background may be restarting; the next report reschedules the timer
+    });
+  }
+}
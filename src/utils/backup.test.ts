@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import * as nacl from 'tweetnacl';
+import { decryptBackup, BACKUP_FORMAT, BACKUP_VERSION } from './backup';
+import { createOctraAddress } from './crypto';
+import { createVaultHeader, deriveVaultKey, encryptWithVaultKey } from './password';
+import { Wallet, WalletBackupFile } from '../types/wallet';
+
+async function makeWallet(fill: number): Promise<Wallet> {
+  const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(fill));
+  const publicKey = Buffer.from(keyPair.publicKey);
+  return {
+    address: await createOctraAddress(publicKey),
+    privateKey: Buffer.from(keyPair.secretKey.slice(0, 32)).toString('base64'),
+    publicKey: publicKey.toString('hex'),
+    type: 'imported-private-key'
+  };
+}
+
+async function makeBackup(wallets: Wallet[], password: string): Promise<WalletBackupFile> {
+  // Low iteration count keeps the test fast; decryptBackup reads it from the file
+  const kdf = createVaultHeader(1000);
+  const { key } = await deriveVaultKey(password, kdf);
+  const data = { wallets, labels: {}, addressBook: [], rpcProviders: [], connectedDApps: [] };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    kdf,
+    data: await encryptWithVaultKey(JSON.stringify(data), key)
+  };
+}
+
+describe('decryptBackup', () => {
+  it('keeps wallets whose private key derives their address', async () => {
+    const wallet = await makeWallet(1);
+    const data = await decryptBackup(await makeBackup([wallet], 'secret'), 'secret');
+
+    expect(data.wallets.map(w => w.address)).toEqual([wallet.address]);
+  });
+
+  it('drops wallets whose private key belongs to another address', async () => {
+    const wallet = await makeWallet(1);
+    const other = await makeWallet(2);
+    const tampered = { ...wallet, address: other.address };
+
+    const data = await decryptBackup(await makeBackup([tampered, other], 'secret'), 'secret');
+
+    expect(data.wallets.map(w => w.address)).toEqual([other.address]);
+  });
+
+  it('drops wallets whose public key does not match the private key', async () => {
+    const wallet = await makeWallet(1);
+    const other = await makeWallet(2);
+
+    const data = await decryptBackup(await makeBackup([{ ...wallet, publicKey: other.publicKey }], 'secret'), 'secret');
+
+    expect(data.wallets).toEqual([]);
+  });
+
+  it('rejects the wrong password', async () => {
+    const file = await makeBackup([await makeWallet(1)], 'secret');
+
+    await expect(decryptBackup(file, 'wrong')).rejects.toThrow('Incorrect backup password');
+  });
+});
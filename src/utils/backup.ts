@@ -0,0 +1,234 @@
+import { Buffer } from 'buffer';
+import * as nacl from 'tweetnacl';
+import { ExtensionStorageManager } from './extensionStorage';
+import { SessionKeyring } from './sessionKeyring';
+import { isWatchOnlyWallet } from './wallet';
+import { createOctraAddress, validateOctraAddress } from './crypto';
+import { saveConnectedDApps } from './dappPermissions';
+import {
+  createVaultHeader,
+  parseVaultHeader,
+  deriveVaultKey,
+  isVaultEncrypted,
+  encryptWithVaultKey,
+  decryptWithVaultKey
+} from './password';
+import {
+  Wallet,
+  AddressBookEntry,
+  RPCProvider,
+  ConnectedDApp,
+  WalletBackupData,
+  WalletBackupFile,
+  BackupRestoreMode
+} from '../types/wallet';
+
+export const BACKUP_FORMAT = 'octra-wallet-backup';
+export const BACKUP_VERSION = 1;
+
+// Upper bound on the KDF cost a backup file may request, so a crafted file
+// cannot stall the page while "checking" its password
+const MAX_BACKUP_KDF_ITERATIONS = 10_000_000;
+
+function parseList<T>(raw: string | null): T[] {
+  try {
+    const parsed = JSON.parse(raw || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseRecord(raw: string | null): Record<string, string> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function readBackupData(): Promise<WalletBackupData> {
+  return {
+    wallets: await SessionKeyring.getWallets(),
+    labels: parseRecord(await ExtensionStorageManager.get('walletLabels')),
+    addressBook: parseList<AddressBookEntry>(await ExtensionStorageManager.get('addressBook')),
+    rpcProviders: parseList<RPCProvider>(await ExtensionStorageManager.get('rpcProviders')),
+    connectedDApps: parseList<ConnectedDApp>(await ExtensionStorageManager.get('connectedDApps'))
+  };
+}
+
+export async function createBackup(password: string): Promise<WalletBackupFile> {
+  const data = await readBackupData();
+
+  if (data.wallets.length === 0) {
+    throw new Error('No wallets to back up');
+  }
+  if (data.wallets.some(wallet => !wallet.privateKey && !isWatchOnlyWallet(wallet))) {
+    throw new Error('Unlock your wallet before creating a backup');
+  }
+
+  const kdf = createVaultHeader();
+  const { key } = await deriveVaultKey(password, kdf);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    kdf,
+    data: await encryptWithVaultKey(JSON.stringify(data), key)
+  };
+}
+
+export function parseBackupFile(content: string): WalletBackupFile {
+  let file: Partial<WalletBackupFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!file || file.format !== BACKUP_FORMAT) {
+    throw new Error('Not an Octra wallet backup file');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new Error('This backup was created by a newer version of the wallet');
+  }
+
+  const kdf = parseVaultHeader(JSON.stringify(file.kdf));
+  if (!kdf || kdf.iterations > MAX_BACKUP_KDF_ITERATIONS) {
+    throw new Error('Backup file has invalid encryption parameters');
+  }
+  if (typeof file.data !== 'string' || !isVaultEncrypted(file.data)) {
+    throw new Error('Backup file is missing encrypted data');
+  }
+
+  return { ...file, kdf } as WalletBackupFile;
+}
+
+// A wallet is only restored if its key actually controls its address, so a
+// tampered or corrupted file cannot attach someone else's address to a key
+async function isBackupWallet(wallet: Wallet): Promise<boolean> {
+  if (!wallet || typeof wallet.address !== 'string' || typeof wallet.privateKey !== 'string') {
+    return false;
+  }
+  if (isWatchOnlyWallet(wallet)) {
+    return !wallet.privateKey && validateOctraAddress(wallet.address).isValid;
+  }
+
+  try {
+    const seed = Buffer.from(wallet.privateKey, 'base64');
+    if (seed.length !== 32) return false;
+
+    const publicKey = Buffer.from(nacl.sign.keyPair.fromSeed(seed).publicKey);
+    if (wallet.publicKey && wallet.publicKey !== publicKey.toString('hex')) return false;
+    return await createOctraAddress(publicKey) === wallet.address;
+  } catch {
+    return false;
+  }
+}
+
+export async function decryptBackup(file: WalletBackupFile, password: string): Promise<WalletBackupData> {
+  const { key } = await deriveVaultKey(password, file.kdf);
+
+  let decrypted: string;
+  try {
+    decrypted = await decryptWithVaultKey(file.data, key);
+  } catch {
+    throw new Error('Incorrect backup password');
+  }
+
+  const data = JSON.parse(decrypted);
+  const wallets: Wallet[] = [];
+  for (const wallet of Array.isArray(data.wallets) ? data.wallets : []) {
+    if (await isBackupWallet(wallet)) {
+      wallets.push(wallet);
+    } else {
+      console.warn('⚠️ Backup: Skipping a wallet whose key does not match its address');
+    }
+  }
+
+  return {
+    wallets,
+    labels: data.labels && typeof data.labels === 'object' && !Array.isArray(data.labels) ? data.labels : {},
+    addressBook: Array.isArray(data.addressBook) ? data.addressBook : [],
+    rpcProviders: Array.isArray(data.rpcProviders) ? data.rpcProviders : [],
+    connectedDApps: Array.isArray(data.connectedDApps) ? data.connectedDApps : []
+  };
+}
+
+// Merge keeps existing entries when both sides have the same key
+function mergeBy<T>(existing: T[], incoming: T[], keyOf: (item: T) => string): T[] {
+  const keys = new Set(existing.map(keyOf));
+  return [...existing, ...incoming.filter(item => !keys.has(keyOf(item)))];
+}
+
+/**
+ * Restore labels, address book, RPC providers and dApp connections.
+ * Wallets are not written here: a merge adds them through the usual wallet
+ * flow, and a replace goes through replaceWallets.
+ */
+export async function restoreBackupSettings(data: WalletBackupData, mode: BackupRestoreMode): Promise<void> {
+  const current = await readBackupData();
+  const replace = mode === 'replace';
+
+  const labels = replace ? data.labels : { ...data.labels, ...current.labels };
+  await ExtensionStorageManager.set('walletLabels', JSON.stringify(labels));
+
+  const addressBook = replace ? data.addressBook : mergeBy(current.addressBook, data.addressBook, entry => entry.address);
+  await ExtensionStorageManager.set('addressBook', JSON.stringify(addressBook));
+
+  // Keep the current provider list if the backup has none, and exactly one active provider
+  if (data.rpcProviders.length > 0) {
+    let providers = replace
+      ? data.rpcProviders
+      : mergeBy(current.rpcProviders, data.rpcProviders.map(p => ({ ...p, isActive: false })), p => p.id);
+    const activeIndex = providers.findIndex(p => p.isActive);
+    providers = providers.map((p, i) => ({ ...p, isActive: i === (activeIndex >= 0 ? activeIndex : 0) }));
+    await ExtensionStorageManager.set('rpcProviders', JSON.stringify(providers));
+  }
+
+  // Connections from backups made before permissions existed get the narrow legacy set
+  const connectedDApps = replace ? data.connectedDApps : mergeBy(current.connectedDApps, data.connectedDApps, dapp => dapp.origin);
+  await saveConnectedDApps(connectedDApps);
+
+  console.log(`📦 Backup: Restored settings (${mode})`);
+}
+
+/**
+ * Make the backup's wallets the only wallets. They are added before anything
+ * is removed, so a failed write never leaves the keyring empty. Returns the
+ * resulting public wallet records.
+ */
+export async function replaceWallets(wallets: Wallet[]): Promise<Wallet[]> {
+  if (wallets.length === 0) {
+    throw new Error('This backup has no wallets to replace the current ones with');
+  }
+
+  for (const wallet of wallets) {
+    await SessionKeyring.addWallet(wallet);
+  }
+
+  const keep = new Set(wallets.map(wallet => wallet.address));
+  let remaining = await SessionKeyring.getPublicWallets();
+  for (const wallet of remaining.filter(w => !keep.has(w.address))) {
+    remaining = await SessionKeyring.removeWallet(wallet.address);
+  }
+
+  console.log(`📦 Backup: Replaced wallets, ${remaining.length} remaining`);
+  return remaining;
+}
+
+export function downloadBackup(file: WalletBackupFile): string {
+  const filename = `octra-wallet-backup-${new Date(file.createdAt).toISOString().slice(0, 10)}.json`;
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return filename;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import * as nacl from 'tweetnacl';
+import { signMessage, signTypedData, verifySignature, createOctraAddress, encodeSignedMessage } from './crypto';
+import { buildUnsignedTransaction, getTransactionSigningData, signTransaction } from './api';
+import { TypedData } from '../types/wallet';
+
+async function makeWallet() {
+  const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+  const publicKey = Buffer.from(keyPair.publicKey);
+  return {
+    privateKey: Buffer.from(keyPair.secretKey.slice(0, 32)).toString('base64'),
+    publicKey: publicKey.toString('hex'),
+    publicKeyBytes: keyPair.publicKey,
+    address: await createOctraAddress(publicKey)
+  };
+}
+
+describe('signature domain separation', () => {
+  it('gives a transaction, a message and typed data over the same payload different signatures', async () => {
+    const wallet = await makeWallet();
+    const tx = buildUnsignedTransaction(wallet.address, wallet.address, 1_000_000n, 1);
+    const payload = getTransactionSigningData(tx);
+
+    const txSignature = signTransaction(tx, wallet.privateKey, wallet.publicKey).signature;
+    const messageSignature = signMessage(payload, wallet.privateKey, wallet.publicKey);
+    const typedData: TypedData = {
+      domain: { name: 'Test', origin: 'https://dapp.test', chainId: '0x1' },
+      primaryType: 'Message',
+      types: [{ name: 'payload', type: 'string' }],
+      message: { payload }
+    };
+    const { signature: typedSignature } = await signTypedData(typedData, wallet.privateKey, wallet.publicKey);
+
+    expect(new Set([txSignature, messageSignature, typedSignature]).size).toBe(3);
+  });
+
+  it('does not let a message signature pass as a transaction signature', async () => {
+    const wallet = await makeWallet();
+    const tx = buildUnsignedTransaction(wallet.address, wallet.address, 5n, 3);
+    const payload = getTransactionSigningData(tx);
+    const messageSignature = Buffer.from(signMessage(payload, wallet.privateKey, wallet.publicKey), 'base64');
+
+    expect(nacl.sign.detached.verify(new TextEncoder().encode(payload), messageSignature, wallet.publicKeyBytes)).toBe(false);
+    expect(nacl.sign.detached.verify(encodeSignedMessage(payload), messageSignature, wallet.publicKeyBytes)).toBe(true);
+  });
+
+  it('verifies a signed message against the signer address only', async () => {
+    const wallet = await makeWallet();
+    const signature = signMessage('hello octra', wallet.privateKey, wallet.publicKey);
+
+    expect(await verifySignature('hello octra', signature, wallet.publicKey, wallet.address)).toBe(true);
+    expect(await verifySignature('hello octra!', signature, wallet.publicKey, wallet.address)).toBe(false);
+    expect(await verifySignature('hello octra', signature, wallet.publicKey, 'oct' + wallet.address.slice(3).split('').reverse().join(''))).toBe(false);
+  });
+
+  it('prefixes the UTF-8 byte length, not the character count', () => {
+    const encoded = new TextDecoder().decode(encodeSignedMessage('héllo'));
+    expect(encoded).toBe('\x19Octra Signed Message:\n6héllo');
+  });
+});
@@ -1,5 +1,6 @@
 import * as bip39 from 'bip39';
 import * as nacl from 'tweetnacl';
+import { TypedData, TypedDataField, TypedDataFieldType } from '../types/wallet';
 
 const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
 
@@ -34,6 +35,87 @@ export function base58Encode(buffer: Buffer): string {
   return encoded;
 }
 
+export function base58Decode(input: string): Buffer {
+  let num = 0n;
+  for (const char of input) {
+    const value = BASE58_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    num = num * 58n + BigInt(value);
+  }
+
+  let hex = num > 0n ? num.toString(16) : "";
+  if (hex.length % 2) hex = "0" + hex;
+
+  let leadingZeros = 0;
+  while (leadingZeros < input.length && input[leadingZeros] === "1") leadingZeros++;
+
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, "hex")]);
+}
+
+const OCTRA_ADDRESS_PREFIX = "oct";
+const OCTRA_ADDRESS_LENGTH = 47;
+const OCTRA_ADDRESS_HASH_BYTES = 32;
+
+export interface AddressValidation {
+  isValid: boolean;
+  error?: string;
+}
+
+/**
+ * Octra addresses are "oct" + base58(SHA-256(public key)) and carry no checksum
+ * bytes, so this checks everything the format allows: prefix, alphabet, length
+ * and that the body decodes to exactly one 32-byte hash. Typos that survive all
+ * of that are caught by comparing against known addresses (isNearMissAddress).
+ */
+export function validateOctraAddress(input: string): AddressValidation {
+  const address = input.trim();
+  if (!address) {
+    return { isValid: false, error: 'Address is required' };
+  }
+  if (!address.startsWith(OCTRA_ADDRESS_PREFIX)) {
+    return { isValid: false, error: 'Address must start with "oct"' };
+  }
+
+  const body = address.slice(OCTRA_ADDRESS_PREFIX.length);
+  const badIndex = Array.from(body).findIndex(char => !BASE58_ALPHABET.includes(char));
+  if (badIndex >= 0) {
+    return {
+      isValid: false,
+      error: `Invalid character "${body[badIndex]}" at position ${OCTRA_ADDRESS_PREFIX.length + badIndex + 1}. Addresses never contain 0, O, I or l`
+    };
+  }
+
+  if (address.length !== OCTRA_ADDRESS_LENGTH) {
+    return { isValid: false, error: `Address must be ${OCTRA_ADDRESS_LENGTH} characters, this one has ${address.length}` };
+  }
+
+  const hash = base58Decode(body);
+  if (hash.length !== OCTRA_ADDRESS_HASH_BYTES || base58Encode(hash) !== body) {
+    return { isValid: false, error: 'Address does not decode to a valid account hash' };
+  }
+
+  return { isValid: true };
+}
+
+// One character changed, or two neighbouring characters swapped: the typos that
+// still produce a well-formed address
+export function isNearMissAddress(address: string, known: string): boolean {
+  if (address === known || address.length !== known.length) return false;
+
+  const diffs: number[] = [];
+  for (let i = 0; i < address.length && diffs.length <= 2; i++) {
+    if (address[i] !== known[i]) diffs.push(i);
+  }
+
+  if (diffs.length === 1) return true;
+  return diffs.length === 2 &&
+    diffs[1] === diffs[0] + 1 &&
+    address[diffs[0]] === known[diffs[1]] &&
+    address[diffs[1]] === known[diffs[0]];
+}
+
 export async function createOctraAddress(publicKey: Buffer): Promise<string> {
   const hash = Buffer.from(
     await crypto.subtle.digest('SHA-256', publicKey)
@@ -42,6 +124,171 @@ export async function createOctraAddress(publicKey: Buffer): Promise<string> {
   return "oct" + base58Hash;
 }
 
+function createSecretKey(privateKeyBase64: string, publicKeyHex: string): Uint8Array {
+  const privateKeyBuffer = Buffer.from(privateKeyBase64, 'base64');
+  const publicKeyBuffer = Buffer.from(publicKeyHex, 'hex');
+
+  // Create secret key for nacl (64 bytes: 32 private + 32 public)
+  const secretKey = new Uint8Array(64);
+  secretKey.set(privateKeyBuffer, 0);
+  secretKey.set(publicKeyBuffer, 32);
+  return secretKey;
+}
+
+// Personal messages are signed as 0x19 || "Octra Signed Message:\n" || byte
+// length || message. Raw UTF-8 would let a dApp pass a transaction's signing
+// JSON as a "message" and get back a signature the node accepts.
+const SIGNED_MESSAGE_PREFIX = "\x19Octra Signed Message:\n";
+
+export function encodeSignedMessage(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  const header = new TextEncoder().encode(`${SIGNED_MESSAGE_PREFIX}${body.length}`);
+  const payload = new Uint8Array(header.length + body.length);
+  payload.set(header, 0);
+  payload.set(body, header.length);
+  return payload;
+}
+
+// Sign an arbitrary UTF-8 message with the wallet's Ed25519 key
+export function signMessage(message: string, privateKeyBase64: string, publicKeyHex: string): string {
+  const secretKey = createSecretKey(privateKeyBase64, publicKeyHex);
+  const signature = nacl.sign.detached(encodeSignedMessage(message), secretKey);
+  return bufferToBase64(signature);
+}
+
+// Typed data is signed as 0x19 || "Octra Typed Data\n" || SHA-256(canonical JSON).
+// Transaction signing payloads are JSON objects and always start with '{', and
+// personal messages use their own 0x19 prefix, so the three never share bytes.
+const TYPED_DATA_PREFIX = "\x19Octra Typed Data\n";
+const TYPED_DATA_FIELD_TYPES: TypedDataFieldType[] = ['string', 'address', 'uint', 'int', 'bool'];
+
+function validateTypedValue(field: TypedDataField, value: unknown): void {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`Field "${field.name}" must be a string`);
+      }
+      break;
+    case 'address':
+      if (typeof value !== 'string' || !validateOctraAddress(value).isValid) {
+        throw new Error(`Field "${field.name}" must be an Octra address`);
+      }
+      break;
+    case 'uint':
+    case 'int': {
+      const pattern = field.type === 'uint' ? /^\d+$/ : /^-?\d+$/;
+      if ((typeof value !== 'string' && typeof value !== 'number') || !pattern.test(String(value))) {
+        throw new Error(`Field "${field.name}" must be an ${field.type === 'uint' ? 'unsigned ' : ''}integer`);
+      }
+      break;
+    }
+    case 'bool':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Field "${field.name}" must be a boolean`);
+      }
+      break;
+  }
+}
+
+// Validate typed data against its schema and serialize it deterministically
+export function encodeTypedData(typedData: TypedData): string {
+  const { domain, primaryType, types, message } = typedData || ({} as TypedData);
+
+  if (!domain || typeof domain.name !== 'string' || typeof domain.origin !== 'string' || typeof domain.chainId !== 'string') {
+    throw new Error('Typed data domain must include name, origin and chainId');
+  }
+  if (typeof primaryType !== 'string' || !primaryType) {
+    throw new Error('Typed data must include a primaryType');
+  }
+  if (!Array.isArray(types) || types.length === 0) {
+    throw new Error('Typed data must include a field schema');
+  }
+  if (!message || typeof message !== 'object') {
+    throw new Error('Typed data must include a message object');
+  }
+
+  const seen = new Set<string>();
+  for (const field of types) {
+    if (!field || typeof field.name !== 'string' || !TYPED_DATA_FIELD_TYPES.includes(field.type)) {
+      throw new Error(`Invalid typed data field: ${JSON.stringify(field)}`);
+    }
+    if (seen.has(field.name)) {
+      throw new Error(`Duplicate typed data field: ${field.name}`);
+    }
+    seen.add(field.name);
+    validateTypedValue(field, message[field.name]);
+  }
+
+  const extraFields = Object.keys(message).filter(key => !seen.has(key));
+  if (extraFields.length > 0) {
+    throw new Error(`Fields not declared in schema: ${extraFields.join(', ')}`);
+  }
+
+  // Fixed key order so the same data always produces the same bytes
+  return JSON.stringify({
+    domain: { name: domain.name, origin: domain.origin, chainId: domain.chainId },
+    primaryType,
+    types: types.map(field => ({ name: field.name, type: field.type })),
+    message: types.map(field => [field.name, String(message[field.name])])
+  });
+}
+
+export async function hashTypedData(typedData: TypedData): Promise<Buffer> {
+  const encoded = new TextEncoder().encode(encodeTypedData(typedData));
+  const digest = Buffer.from(await crypto.subtle.digest('SHA-256', encoded));
+  return Buffer.concat([Buffer.from(TYPED_DATA_PREFIX, 'utf8'), digest]);
+}
+
+export async function signTypedData(typedData: TypedData, privateKeyBase64: string, publicKeyHex: string): Promise<{ hash: string; signature: string }> {
+  const payload = await hashTypedData(typedData);
+  const secretKey = createSecretKey(privateKeyBase64, publicKeyHex);
+  const signature = nacl.sign.detached(new Uint8Array(payload), secretKey);
+
+  return {
+    hash: bufferToHex(payload.slice(TYPED_DATA_PREFIX.length)),
+    signature: bufferToBase64(signature)
+  };
+}
+
+// Public keys are handled as hex inside the wallet and as base64 on the wire
+function decodePublicKey(publicKey: string): Buffer {
+  if (/^[0-9a-fA-F]{64}$/.test(publicKey)) {
+    return Buffer.from(publicKey, 'hex');
+  }
+  return base64ToBuffer(publicKey);
+}
+
+// Verify a signed message offline: the Ed25519 signature must be valid for the
+// public key, and the public key must hash to the claimed oct... address
+export async function verifySignature(
+  message: string,
+  signature: string,
+  publicKey: string,
+  address: string
+): Promise<boolean> {
+  try {
+    const publicKeyBuffer = decodePublicKey(publicKey.trim());
+    const signatureBuffer = base64ToBuffer(signature.trim());
+
+    if (publicKeyBuffer.length !== nacl.sign.publicKeyLength || signatureBuffer.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+
+    const derivedAddress = await createOctraAddress(publicKeyBuffer);
+    if (derivedAddress !== address.trim()) {
+      return false;
+    }
+
+    return nacl.sign.detached.verify(
+      encodeSignedMessage(message),
+      new Uint8Array(signatureBuffer),
+      new Uint8Array(publicKeyBuffer)
+    );
+  } catch {
+    return false;
+  }
+}
+
 export async function deriveMasterKey(seed: Buffer) {
   const key = Buffer.from("Octra seed", "utf8");
   const cryptoKey = await crypto.subtle.importKey(
@@ -61,6 +308,74 @@ export async function deriveMasterKey(seed: Buffer) {
   };
 }
 
+// SLIP-0010 ed25519 only supports hardened children
+const HARDENED_OFFSET = 0x80000000;
+
+// Account 0 stays on the master key ("m") so addresses created before account
+// derivation existed keep working; further accounts live under this prefix.
+export const MASTER_KEY_PATH = 'm';
+export const ACCOUNT_PATH_PREFIX = "m/345'/0'/0'";
+
+export function getAccountPath(index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error('Invalid account index');
+  }
+  return index === 0 ? MASTER_KEY_PATH : `${ACCOUNT_PATH_PREFIX}/${index}'`;
+}
+
+export function getAccountIndex(path: string | undefined): number | null {
+  if (!path || path === MASTER_KEY_PATH) return 0;
+  const match = path.match(/^m\/345'\/0'\/0'\/(\d+)'$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export async function deriveHardenedChild(parentKey: Buffer, parentChainCode: Buffer, index: number) {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    parentChainCode,
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+
+  // data = 0x00 || parent key || ser32(index + 2^31)
+  const data = Buffer.alloc(37);
+  parentKey.copy(data, 1);
+  data.writeUInt32BE((index + HARDENED_OFFSET) >>> 0, 33);
+
+  const mac = Buffer.from(await crypto.subtle.sign('HMAC', cryptoKey, data));
+
+  return {
+    privateKey: mac.slice(0, 32),
+    chainCode: mac.slice(32, 64)
+  };
+}
+
+export async function derivePath(seed: Buffer, path: string) {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error('Derivation path must start with m');
+  }
+
+  const { masterPrivateKey, masterChainCode } = await deriveMasterKey(seed);
+  let privateKey = masterPrivateKey;
+  let chainCode = masterChainCode;
+
+  for (const segment of segments.slice(1)) {
+    const match = segment.match(/^(\d+)'$/);
+    if (!match) {
+      throw new Error(`Only hardened derivation is supported for ed25519: ${segment}`);
+    }
+    const index = parseInt(match[1], 10);
+    if (index >= HARDENED_OFFSET) {
+      throw new Error(`Derivation index out of range: ${segment}`);
+    }
+    ({ privateKey, chainCode } = await deriveHardenedChild(privateKey, chainCode, index));
+  }
+
+  return { privateKey, chainCode };
+}
+
 export function generateMnemonic(): string {
   return bip39.generateMnemonic();
 }
@@ -73,15 +388,15 @@ export function mnemonicToSeed(mnemonic: string): Buffer {
   return bip39.mnemonicToSeedSync(mnemonic);
 }
 
-export async function generateWalletFromMnemonic(mnemonic: string) {
+export async function generateWalletFromMnemonic(mnemonic: string, derivationPath: string = MASTER_KEY_PATH) {
   if (!validateMnemonic(mnemonic)) {
     throw new Error('Invalid mnemonic phrase');
   }
 
   const seed = mnemonicToSeed(mnemonic);
-  const { masterPrivateKey } = await deriveMasterKey(seed);
+  const { privateKey: derivedKey } = await derivePath(seed, derivationPath);
   
-  const keyPair = nacl.sign.keyPair.fromSeed(masterPrivateKey);
+  const keyPair = nacl.sign.keyPair.fromSeed(derivedKey);
   const privateKey = Buffer.from(keyPair.secretKey.slice(0, 32));
   const publicKey = Buffer.from(keyPair.publicKey);
   const address = await createOctraAddress(publicKey);
@@ -91,6 +406,7 @@ export async function generateWalletFromMnemonic(mnemonic: string) {
     privateKey: bufferToBase64(privateKey),
     publicKey: bufferToHex(publicKey),
     address,
+    derivationPath,
     balance: 0,
     nonce: 0
   };
@@ -112,7 +428,7 @@ export function deriveEncryptionKey(privkeyB64: string): Uint8Array {
   }) as any; // This will be awaited where used
 }
 
-export async function encryptClientBalance(balance: number, privkeyB64: string): Promise<string> {
+export async function encryptClientBalance(balance: number | bigint, privkeyB64: string): Promise<string> {
   const key = await deriveEncryptionKey(privkeyB64);
   const nonce = crypto.getRandomValues(new Uint8Array(12));
   const plaintext = new TextEncoder().encode(balance.toString());
@@ -0,0 +1,132 @@
+import { DAppPermission, ConnectedDApp } from '../types/wallet';
+import { ExtensionStorageManager } from './extensionStorage';
+
+export interface DAppPermissionInfo {
+  title: string;
+  description: string;
+  // Lets the dApp move funds or produce signatures, shown with a warning
+  sensitive: boolean;
+}
+
+// Keep in sync with DAPP_PERMISSIONS in extensionFiles/background.js, which
+// enforces these on every dApp request
+export const DAPP_PERMISSIONS: Record<DAppPermission, DAppPermissionInfo> = {
+  view_address: {
+    title: 'View address',
+    description: 'View the address of your permitted account',
+    sensitive: false
+  },
+  view_balance: {
+    title: 'View balance',
+    description: 'View the balance of your permitted account',
+    sensitive: false
+  },
+  sign_message: {
+    title: 'Sign messages',
+    description: 'Ask you to sign messages and structured data',
+    sensitive: true
+  },
+  send_transaction: {
+    title: 'Send transactions',
+    description: 'Ask you to approve token transfers',
+    sensitive: true
+  },
+  contract_view: {
+    title: 'Read contracts',
+    description: 'Call read-only smart contract methods',
+    sensitive: false
+  },
+  contract_call: {
+    title: 'Execute contracts',
+    description: 'Ask you to approve smart contract transactions',
+    sensitive: true
+  },
+  private_transfer: {
+    title: 'Private transfers',
+    description: 'Ask you to approve private (encrypted) transfers',
+    sensitive: true
+  }
+};
+
+// Saved with every connection, mirrored as PERMISSIONS_VERSION in background.js
+export const DAPP_PERMISSIONS_VERSION = 1;
+
+const CONNECTED_DAPPS_STORAGE_KEY = 'connectedDApps';
+
+// A connection always exposes the address, so it cannot be declined or revoked
+export const REQUIRED_PERMISSIONS: DAppPermission[] = ['view_address'];
+
+// Older dApps asked for this before the catalogue existed
+const LEGACY_PERMISSIONS: Record<string, DAppPermission[]> = {
+  call_methods: ['contract_view', 'contract_call']
+};
+
+// What a connection saved before permissions were enforced keeps, mirrored in
+// background.js. Anything else is asked for the first time the dApp needs it
+const LEGACY_BASE_PERMISSIONS: DAppPermission[] = ['view_address', 'view_balance'];
+
+function isLegacyPermission(name: unknown): name is string {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(LEGACY_PERMISSIONS, name);
+}
+
+export function isDAppPermission(value: unknown): value is DAppPermission {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DAPP_PERMISSIONS, value);
+}
+
+export function isRequiredPermission(permission: DAppPermission): boolean {
+  return REQUIRED_PERMISSIONS.includes(permission);
+}
+
+/**
+ * Turn whatever a dApp asked for into known permissions, in catalogue order.
+ * Unknown names are dropped and the required permissions are always included.
+ */
+export function normalizePermissions(requested: unknown): DAppPermission[] {
+  const names = Array.isArray(requested) ? requested : [];
+  const wanted = new Set<DAppPermission>(REQUIRED_PERMISSIONS);
+
+  for (const name of names) {
+    if (isDAppPermission(name)) {
+      wanted.add(name);
+    } else if (typeof name === 'string' && LEGACY_PERMISSIONS[name]) {
+      LEGACY_PERMISSIONS[name].forEach(permission => wanted.add(permission));
+    } else {
+      console.warn(`Unknown dApp permission requested: ${String(name)}`);
+    }
+  }
+
+  return (Object.keys(DAPP_PERMISSIONS) as DAppPermission[]).filter(permission => wanted.has(permission));
+}
+
+export function migrateConnection(connection: ConnectedDApp): ConnectedDApp {
+  if ((connection.permissionsVersion ?? 0) >= DAPP_PERMISSIONS_VERSION) return connection;
+
+  const requested: unknown[] = Array.isArray(connection.permissions) ? connection.permissions : [];
+  return {
+    ...connection,
+    permissions: normalizePermissions([...LEGACY_BASE_PERMISSIONS, ...requested.filter(isLegacyPermission)]),
+    permissionsVersion: DAPP_PERMISSIONS_VERSION
+  };
+}
+
+/**
+ * Connections as the background script enforces them. It saves the list as an
+ * array, extension pages as a JSON string, so both are read.
+ */
+export async function getConnectedDApps(): Promise<ConnectedDApp[]> {
+  const stored: unknown = await ExtensionStorageManager.get(CONNECTED_DAPPS_STORAGE_KEY);
+  let connections: unknown = stored;
+  if (typeof stored === 'string') {
+    try {
+      connections = JSON.parse(stored);
+    } catch {
+      connections = [];
+    }
+  }
+  return Array.isArray(connections) ? connections.map(migrateConnection) : [];
+}
+
+// Every saved entry carries the permissions version, so nothing is migrated twice
+export async function saveConnectedDApps(connections: ConnectedDApp[]): Promise<void> {
+  await ExtensionStorageManager.set(CONNECTED_DAPPS_STORAGE_KEY, JSON.stringify(connections.map(migrateConnection)));
+}
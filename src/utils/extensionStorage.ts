@@ -26,6 +26,7 @@ export class ExtensionStorageManager {
       'isWalletLocked',
       'walletPasswordHash',
       'walletPasswordSalt',
+      'walletVaultHeader',
       'encryptedWallets',
       'connectedDApps',
       'rpcProviders',
@@ -80,6 +81,36 @@ export class ExtensionStorageManager {
     }
   }
   
+  // Writes several keys in one chrome.storage call, which applies them all or none
+  static async setMany(entries: Record<string, string>): Promise<void> {
+    const mirrorToLocalStorage = () => {
+      for (const [key, value] of Object.entries(entries)) {
+        localStorage.setItem(key, value);
+      }
+    };
+
+    if (this.isExtension) {
+      try {
+        await chrome.storage.local.set(entries);
+        try {
+          mirrorToLocalStorage();
+        } catch (localStorageError) {
+          console.warn('Failed to update localStorage:', localStorageError);
+        }
+      } catch (error) {
+        console.error('Failed to set in chrome.storage:', error);
+        try {
+          mirrorToLocalStorage();
+        } catch (localStorageError) {
+          console.error('Failed to set in localStorage fallback:', localStorageError);
+          throw error;
+        }
+      }
+    } else {
+      mirrorToLocalStorage();
+    }
+  }
+
   static async remove(key: string): Promise<void> {
     if (this.isExtension) {
       try {
@@ -119,4 +150,37 @@ export class ExtensionStorageManager {
       localStorage.clear();
     }
   }
-}
\ No newline at end of file
+  
+  // Session storage lives in memory only and is cleared when the browser closes.
+  // Outside the extension it falls back to a per-page in-memory map.
+  private static sessionFallback = new Map<string, string>();
+  
+  static async getSession(key: string): Promise<string | null> {
+    if (this.isExtension && chrome.storage.session) {
+      try {
+        const result = await chrome.storage.session.get(key);
+        return result[key] || null;
+      } catch (error) {
+        console.error('Failed to get from chrome.storage.session:', error);
+        return null;
+      }
+    }
+    return this.sessionFallback.get(key) ?? null;
+  }
+  
+  static async setSession(key: string, value: string): Promise<void> {
+    if (this.isExtension && chrome.storage.session) {
+      await chrome.storage.session.set({ [key]: value });
+    } else {
+      this.sessionFallback.set(key, value);
+    }
+  }
+  
+  static async removeSession(key: string): Promise<void> {
+    if (this.isExtension && chrome.storage.session) {
+      await chrome.storage.session.remove(key);
+    } else {
+      this.sessionFallback.delete(key);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { fetchStagingSummary } from './api';
+import { OctAmount, MU_PER_OCT } from './octAmount';
+
+// Fee model from the CLI: each ou costs 0.001 OCT, and the default is 1 ou
+// below 1000 OCT and 3 ou from 1000 OCT up
+const MU_PER_OU: OctAmount = 1000n;
+const LARGE_TRANSFER_THRESHOLD: OctAmount = 1000n * MU_PER_OCT;
+const ESTIMATE_CACHE_TTL_MS = 15000;
+// Staging sizes at which the network counts as busy / congested
+const BUSY_STAGING_COUNT = 50;
+const CONGESTED_STAGING_COUNT = 200;
+export const MAX_CUSTOM_OU = 1000;
+
+export type FeeTier = 'slow' | 'normal' | 'fast' | 'custom';
+export type CongestionLevel = 'low' | 'medium' | 'high';
+
+export interface FeeEstimate {
+  stagingCount: number;
+  highPriorityCount: number;
+  congestion: CongestionLevel;
+  // Multipliers applied to the default ou for the amount being sent
+  multipliers: Record<Exclude<FeeTier, 'custom'>, number>;
+  // Highest ou currently waiting in staging, fast never bids below it
+  highestStagedOu: number;
+  fetchedAt: number;
+}
+
+export interface FeeSelection {
+  tier: FeeTier;
+  customOu: string;
+  estimate: FeeEstimate | null;
+}
+
+export const DEFAULT_FEE_SELECTION: FeeSelection = { tier: 'normal', customOu: '', estimate: null };
+
+const DEFAULT_MULTIPLIERS: FeeEstimate['multipliers'] = { slow: 1, normal: 1, fast: 2 };
+
+let cachedEstimate: FeeEstimate | null = null;
+
+export function defaultOuForAmount(amount: OctAmount): number {
+  return amount < LARGE_TRANSFER_THRESHOLD ? 1 : 3;
+}
+
+export function ouToFee(ou: string | number): OctAmount {
+  return BigInt(Math.max(0, Math.floor(Number(ou) || 0))) * MU_PER_OU;
+}
+
+export function isValidCustomOu(value: string): boolean {
+  const ou = Number(value);
+  return /^\d+$/.test(value.trim()) && ou >= 1 && ou <= MAX_CUSTOM_OU;
+}
+
+/**
+ * Estimate fee tiers from staging pressure: how many transactions are waiting
+ * and how many of them the node marked high priority.
+ */
+export async function estimateFees(forceRefresh: boolean = false): Promise<FeeEstimate> {
+  if (!forceRefresh && cachedEstimate && Date.now() - cachedEstimate.fetchedAt < ESTIMATE_CACHE_TTL_MS) {
+    return cachedEstimate;
+  }
+
+  const staging = await fetchStagingSummary();
+  const staged = staging.staged_transactions;
+  const highPriorityCount = staged.filter(tx => tx.priority?.toLowerCase() === 'high').length;
+
+  let congestion: CongestionLevel = staging.count >= CONGESTED_STAGING_COUNT
+    ? 'high'
+    : staging.count >= BUSY_STAGING_COUNT ? 'medium' : 'low';
+
+  // Mostly high priority traffic means default-fee transactions queue behind it
+  if (staged.length > 0 && highPriorityCount * 2 > staged.length && congestion !== 'high') {
+    congestion = congestion === 'low' ? 'medium' : 'high';
+  }
+
+  const multipliers: FeeEstimate['multipliers'] = congestion === 'high'
+    ? { slow: 1, normal: 3, fast: 6 }
+    : congestion === 'medium'
+      ? { slow: 1, normal: 2, fast: 4 }
+      : DEFAULT_MULTIPLIERS;
+
+  cachedEstimate = {
+    stagingCount: staging.count,
+    highPriorityCount,
+    congestion,
+    multipliers,
+    highestStagedOu: Math.max(0, ...staged.map(tx => Number(tx.ou) || 0)),
+    fetchedAt: Date.now()
+  };
+  return cachedEstimate;
+}
+
+// The ou to sign for a transfer of this amount with the selected tier
+export function resolveOu(selection: FeeSelection, amount: OctAmount): string {
+  if (selection.tier === 'custom') {
+    return isValidCustomOu(selection.customOu)
+      ? String(Number(selection.customOu))
+      : String(defaultOuForAmount(amount));
+  }
+
+  const base = defaultOuForAmount(amount);
+  const multipliers = selection.estimate?.multipliers || DEFAULT_MULTIPLIERS;
+  let ou = base * multipliers[selection.tier];
+
+  if (selection.tier === 'fast' && selection.estimate) {
+    ou = Math.max(ou, Math.min(selection.estimate.highestStagedOu, MAX_CUSTOM_OU));
+  }
+
+  return String(ou);
+}
+
+export function resolveFee(selection: FeeSelection, amount: OctAmount): OctAmount {
+  return ouToFee(resolveOu(selection, amount));
+}
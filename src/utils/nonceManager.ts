@@ -0,0 +1,172 @@
+import { fetchBalance, fetchPendingTransactions, sendTransaction } from './api';
+import { Transaction } from '../types/wallet';
+
+// Re-read the chain before handing out a nonce if the cached state is older than this
+const NONCE_CACHE_TTL_MS = 30000;
+// Locally broadcast transactions that never show up in staging are forgotten after this
+const LOCAL_BROADCAST_TTL_MS = 10 * 60 * 1000;
+const MAX_NONCE_RETRIES = 2;
+
+type NonceErrorKind = 'too-low' | 'too-high';
+
+interface AddressNonceState {
+  lastNonce: number;
+  syncedAt: number;
+  // nonce -> broadcast time, for transactions the node accepted but staging may not show yet
+  broadcasts: Map<number, number>;
+}
+
+export interface NonceSendResult {
+  success: boolean;
+  hash?: string;
+  error?: string;
+  nonce: number;
+}
+
+/**
+ * Hands out transaction nonces per address.
+ *
+ * The last used nonce is the highest of the confirmed account nonce, our staged
+ * transactions and transactions broadcast from this page. Nonces are handed out
+ * one at a time per address, and a "nonce too low/high" rejection triggers a
+ * resync and a retry with the corrected nonce.
+ */
+export class NonceManager {
+  private static states = new Map<string, AddressNonceState>();
+  private static locks = new Map<string, Promise<unknown>>();
+
+  // Run fn after every earlier call for the same address has finished
+  private static withLock<T>(address: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(address) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.locks.set(address, next);
+    return next;
+  }
+
+  static classifyNonceError(error: string | undefined): NonceErrorKind | null {
+    if (!error || !/nonce/i.test(error)) return null;
+    if (/too low|already|duplicate|used|stale/i.test(error)) return 'too-low';
+    // Gaps and any other nonce mismatch are treated as "too high": drop local state and resync
+    return 'too-high';
+  }
+
+  private static async sync(address: string, trustLocalBroadcasts: boolean = true): Promise<AddressNonceState> {
+    const [balanceData, pendingTransactions] = await Promise.all([
+      fetchBalance(address),
+      fetchPendingTransactions(address)
+    ]);
+
+    const stagedNonces = pendingTransactions
+      .filter(tx => tx.from.toLowerCase() === address.toLowerCase())
+      .map(tx => Number(tx.nonce) || 0);
+    const confirmedNonce = Math.max(balanceData.nonce, ...stagedNonces);
+
+    const previous = this.states.get(address);
+    const broadcasts = new Map<number, number>();
+    if (previous && trustLocalBroadcasts) {
+      const now = Date.now();
+      previous.broadcasts.forEach((sentAt, nonce) => {
+        if (nonce > confirmedNonce && now - sentAt < LOCAL_BROADCAST_TTL_MS) {
+          broadcasts.set(nonce, sentAt);
+        }
+      });
+    }
+
+    const state: AddressNonceState = {
+      lastNonce: Math.max(confirmedNonce, ...broadcasts.keys()),
+      syncedAt: Date.now(),
+      broadcasts
+    };
+    this.states.set(address, state);
+    return state;
+  }
+
+  private static async getState(address: string): Promise<AddressNonceState> {
+    const state = this.states.get(address);
+    if (!state || Date.now() - state.syncedAt > NONCE_CACHE_TTL_MS) {
+      return this.sync(address);
+    }
+    return state;
+  }
+
+  // Last nonce known to be used by this address, or null if it was never synced
+  static getLastNonce(address: string): number | null {
+    return this.states.get(address)?.lastNonce ?? null;
+  }
+
+  static async resync(address: string): Promise<number> {
+    return this.withLock(address, async () => (await this.sync(address)).lastNonce);
+  }
+
+  /**
+   * Reserve the next nonce for a transaction sent outside sendTransaction.
+   * Report the outcome with confirmBroadcast or handleRejection.
+   */
+  static async reserve(address: string): Promise<number> {
+    return this.withLock(address, async () => {
+      const state = await this.getState(address);
+      state.lastNonce += 1;
+      return state.lastNonce;
+    });
+  }
+
+  static confirmBroadcast(address: string, nonce: number): void {
+    const state = this.states.get(address);
+    if (!state) return;
+    state.broadcasts.set(nonce, Date.now());
+    state.lastNonce = Math.max(state.lastNonce, nonce);
+  }
+
+  static async handleRejection(address: string, nonce: number, error: string | undefined): Promise<void> {
+    await this.withLock(address, async () => {
+      const kind = this.classifyNonceError(error);
+      if (kind) {
+        console.warn(`⚠️ NonceManager: Nonce ${nonce} rejected (${kind}), resyncing`);
+        const state = await this.sync(address, kind === 'too-low');
+        if (kind === 'too-low') {
+          state.lastNonce = Math.max(state.lastNonce, nonce);
+        }
+        return;
+      }
+
+      // The node never took this nonce, so hand it out again if nothing came after it
+      const state = this.states.get(address);
+      if (state && state.lastNonce === nonce) {
+        state.lastNonce -= 1;
+      }
+    });
+  }
+
+  /**
+   * Build, sign and broadcast a transaction with the next nonce for its sender.
+   * Sends from one address are serialized; nonce rejections are retried after a resync.
+   */
+  static async sendTransaction(address: string, build: (nonce: number) => Transaction | Promise<Transaction>): Promise<NonceSendResult> {
+    return this.withLock(address, async () => {
+      let state = await this.getState(address);
+
+      for (let attempt = 0; ; attempt++) {
+        const nonce = state.lastNonce + 1;
+        const result = await sendTransaction(await build(nonce));
+
+        if (result.success) {
+          state.lastNonce = nonce;
+          state.broadcasts.set(nonce, Date.now());
+          return { ...result, nonce };
+        }
+
+        const kind = this.classifyNonceError(result.error);
+        if (!kind || attempt >= MAX_NONCE_RETRIES) {
+          return { ...result, nonce };
+        }
+
+        console.warn(`⚠️ NonceManager: Nonce ${nonce} rejected (${kind}), resyncing and retrying`);
+        state = await this.sync(address, kind === 'too-low');
+        if (kind === 'too-low') {
+          // The rejected nonce is taken even if the node doesn't show it yet
+          state.lastNonce = Math.max(state.lastNonce, nonce);
+        }
+      }
+    });
+  }
+}
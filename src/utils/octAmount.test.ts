@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { MU_PER_OCT, ZERO_OCT, parseOct, tryParseOct, formatOct, octFromMicroUnits, octFromNumber, sumOct } from './octAmount';
+
+const RUNS = 500;
+
+// Small seeded generator so failures reproduce from run to run
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Micro-unit amounts spread from dust up to ~10^15 OCT, past the float-safe range
+function randomAmount(random: () => number): bigint {
+  const digits = 1 + Math.floor(random() * 21);
+  let value = 0n;
+  for (let i = 0; i < digits; i++) {
+    value = value * 10n + BigInt(Math.floor(random() * 10));
+  }
+  return value;
+}
+
+describe('octAmount', () => {
+  it('round-trips formatOct through parseOct for any amount', () => {
+    const random = seededRandom(1);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = randomAmount(random);
+      expect(parseOct(formatOct(amount))).toBe(amount);
+      expect(parseOct(formatOct(amount, 6))).toBe(amount);
+    }
+  });
+
+  it('round-trips raw micro-unit strings from the node', () => {
+    const random = seededRandom(2);
+    for (let i = 0; i < RUNS; i++) {
+      const amount = randomAmount(random);
+      expect(octFromMicroUnits(amount.toString())).toBe(amount);
+    }
+  });
+
+  it('sums without losing precision', () => {
+    const random = seededRandom(3);
+    for (let i = 0; i < RUNS; i++) {
+      const amounts = Array.from({ length: 1 + Math.floor(random() * 10) }, () => randomAmount(random));
+      const expected = amounts.reduce((total, amount) => total + amount, 0n);
+      expect(sumOct(amounts.map(amount => parseOct(formatOct(amount))))).toBe(expected);
+    }
+  });
+
+  it('keeps 0.1 + 0.2 exact', () => {
+    expect(parseOct('0.1') + parseOct('0.2')).toBe(parseOct('0.3'));
+    expect(formatOct(sumOct([parseOct('0.1'), parseOct('0.2')]))).toBe('0.30000000');
+  });
+
+  it('rejects more than 6 significant decimals', () => {
+    const random = seededRandom(4);
+    for (let i = 0; i < RUNS; i++) {
+      const whole = randomAmount(random) / MU_PER_OCT;
+      const fraction = formatOct(randomAmount(random), 6).split('.')[1];
+      const extra = 1 + Math.floor(random() * 9);
+      expect(tryParseOct(`${whole}.${fraction}${extra}`)).toBeNull();
+    }
+    expect(parseOct('1.12345600')).toBe(1_123_456n);
+  });
+
+  it('rejects anything that is not a plain decimal', () => {
+    for (const input of ['', '.', '-1', '1e3', '1,5', '0x10', 'abc', '1.2.3']) {
+      expect(tryParseOct(input)).toBeNull();
+    }
+  });
+
+  it('recovers 6-decimal values that went through a float', () => {
+    const random = seededRandom(5);
+    for (let i = 0; i < RUNS; i++) {
+      // Below 2^33 OCT the float still holds all 6 decimals
+      const amount = randomAmount(random) % (8_589_934_592n * MU_PER_OCT);
+      expect(octFromNumber(Number(formatOct(amount, 6)))).toBe(amount);
+    }
+    expect(octFromNumber(NaN)).toBe(ZERO_OCT);
+  });
+});
@@ -0,0 +1,94 @@
+// OCT amounts as integer micro-units (1 OCT = 1,000,000 μ).
+//
+// User input is parsed straight from its decimal string and every sum, fee and
+// comparison is done on bigints, so values like 0.1 + 0.2 stay exact all the way
+// to the signed transaction. Plain numbers only appear at the edges where the
+// node or older components still hand us floats.
+
+export type OctAmount = bigint;
+
+export const OCT_DECIMALS = 6;
+export const MU_PER_OCT: OctAmount = 1_000_000n;
+export const ZERO_OCT: OctAmount = 0n;
+
+// The wallet has always shown 8 fraction digits; the last two are always zero
+const DISPLAY_DECIMALS = 8;
+
+const decimalPattern = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Parse a decimal OCT string ("1.5", "0.000001", ".25") into micro-units.
+ * Throws on anything that is not a plain non-negative decimal or has more
+ * than 6 significant fraction digits.
+ */
+export function parseOct(input: string): OctAmount {
+  const trimmed = input.trim();
+  const match = decimalPattern.exec(trimmed);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error('Invalid amount');
+  }
+
+  const [, whole, digits = ''] = match;
+  // Trailing zeros past 6 digits are fine, e.g. a pasted 8-decimal display value
+  const fraction = digits.length > OCT_DECIMALS ? digits.replace(/0+$/, '') : digits;
+  if (fraction.length > OCT_DECIMALS) {
+    throw new Error(`Amount cannot have more than ${OCT_DECIMALS} decimal places`);
+  }
+
+  return BigInt(whole || '0') * MU_PER_OCT + BigInt(fraction.padEnd(OCT_DECIMALS, '0'));
+}
+
+export function tryParseOct(input: string): OctAmount | null {
+  try {
+    return parseOct(input);
+  } catch {
+    return null;
+  }
+}
+
+// Raw micro-unit values from the node, which may arrive as strings or numbers
+export function octFromMicroUnits(raw: string | number | bigint): OctAmount {
+  if (typeof raw === 'bigint') return raw;
+  if (typeof raw === 'number') {
+    if (!Number.isFinite(raw)) throw new Error('Invalid amount');
+    return BigInt(Math.trunc(raw));
+  }
+  return BigInt(raw.trim() || '0');
+}
+
+/**
+ * Convert an OCT value that already went through a float (e.g. a balance the API
+ * returned as a number). Rounding to 6 decimals recovers the original decimal
+ * exactly for any amount below 2^33 (~8.5 billion) OCT.
+ */
+export function octFromNumber(value: number): OctAmount {
+  if (!Number.isFinite(value)) return ZERO_OCT;
+  const sign = value < 0 ? -1n : 1n;
+  return sign * parseOct(Math.abs(value).toFixed(OCT_DECIMALS));
+}
+
+export function formatOct(amount: OctAmount, fractionDigits: number = DISPLAY_DECIMALS): string {
+  const negative = amount < ZERO_OCT;
+  const absolute = negative ? -amount : amount;
+  const whole = absolute / MU_PER_OCT;
+  let fraction = (absolute % MU_PER_OCT).toString().padStart(OCT_DECIMALS, '0');
+
+  fraction = fractionDigits >= OCT_DECIMALS
+    ? fraction.padEnd(fractionDigits, '0')
+    : fraction.slice(0, fractionDigits);
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Only for display widgets and legacy number props, never for arithmetic
+export function octToNumber(amount: OctAmount): number {
+  return Number(formatOct(amount, OCT_DECIMALS));
+}
+
+export function sumOct(amounts: OctAmount[]): OctAmount {
+  return amounts.reduce((total, amount) => total + amount, ZERO_OCT);
+}
+
+export function maxOct(amounts: OctAmount[]): OctAmount {
+  return amounts.reduce((max, amount) => (amount > max ? amount : max), ZERO_OCT);
+}
@@ -0,0 +1,201 @@
+import { buildUnsignedTransaction, getTransactionSigningData, sendTransaction } from './api';
+import { validateOctraAddress, createOctraAddress } from './crypto';
+import { NonceManager } from './nonceManager';
+import { SessionKeyring } from './sessionKeyring';
+import { isWatchOnlyWallet } from './wallet';
+import { OctAmount } from './octAmount';
+import { Wallet, Transaction, OfflineTransactionFile, OfflineTransactionFormat } from '../types/wallet';
+import * as nacl from 'tweetnacl';
+
+export const UNSIGNED_TX_FORMAT: OfflineTransactionFormat = 'octra-unsigned-tx';
+export const SIGNED_TX_FORMAT: OfflineTransactionFormat = 'octra-signed-tx';
+export const OFFLINE_TX_VERSION = 1;
+
+const MAX_MESSAGE_LENGTH = 1024;
+
+export interface UnsignedTransferParams {
+  from: string;
+  to: string;
+  amount: OctAmount;
+  ou: string;
+  message?: string;
+}
+
+/**
+ * Build an unsigned transfer with the sender's next nonce. Works for
+ * watch-only wallets, which is the point: the keys stay on the offline machine.
+ * The nonce is not reserved, so anything else sent from the address before this
+ * one is broadcast makes the node reject it and a new file has to be created.
+ */
+export async function createUnsignedTransfer({ from, to, amount, ou, message }: UnsignedTransferParams): Promise<OfflineTransactionFile> {
+  const recipient = validateOctraAddress(to);
+  if (!recipient.isValid) {
+    throw new Error(recipient.error || 'Invalid recipient address');
+  }
+
+  const nonce = (await NonceManager.resync(from)) + 1;
+  return {
+    format: UNSIGNED_TX_FORMAT,
+    version: OFFLINE_TX_VERSION,
+    createdAt: Date.now(),
+    transaction: buildUnsignedTransaction(from, to.trim(), amount, nonce, message || undefined, ou)
+  };
+}
+
+function validateTransactionFields(tx: Partial<Transaction>, signed: boolean): Transaction {
+  if (!tx || typeof tx !== 'object') {
+    throw new Error('File does not contain a transaction');
+  }
+  if (typeof tx.from !== 'string' || !validateOctraAddress(tx.from).isValid) {
+    throw new Error('Transaction has an invalid sender address');
+  }
+  if (typeof tx.to_ !== 'string' || !validateOctraAddress(tx.to_).isValid) {
+    throw new Error('Transaction has an invalid recipient address');
+  }
+  if (typeof tx.amount !== 'string' || !/^\d+$/.test(tx.amount)) {
+    throw new Error('Transaction has an invalid amount');
+  }
+  if (typeof tx.nonce !== 'number' || !Number.isInteger(tx.nonce) || tx.nonce < 1) {
+    throw new Error('Transaction has an invalid nonce');
+  }
+  if (typeof tx.ou !== 'string' || !/^\d+$/.test(tx.ou)) {
+    throw new Error('Transaction has an invalid fee');
+  }
+  if (typeof tx.timestamp !== 'number' || !Number.isFinite(tx.timestamp)) {
+    throw new Error('Transaction has an invalid timestamp');
+  }
+  if (tx.message !== undefined && (typeof tx.message !== 'string' || tx.message.length > MAX_MESSAGE_LENGTH)) {
+    throw new Error('Transaction has an invalid message');
+  }
+
+  if (signed) {
+    if (typeof tx.signature !== 'string' || typeof tx.public_key !== 'string') {
+      throw new Error('Transaction is not signed');
+    }
+  } else if (tx.signature || tx.public_key) {
+    throw new Error('This transaction is already signed');
+  }
+
+  // Copy only the known fields so nothing extra reaches the signer or the node
+  const transaction: Transaction = {
+    from: tx.from,
+    to_: tx.to_,
+    amount: tx.amount,
+    nonce: tx.nonce,
+    ou: tx.ou,
+    timestamp: tx.timestamp
+  };
+  if (tx.message) transaction.message = tx.message;
+  if (signed) {
+    transaction.signature = tx.signature;
+    transaction.public_key = tx.public_key;
+  }
+  return transaction;
+}
+
+// Parse a file or pasted text, checking it is the kind of transaction this step expects
+export function parseOfflineTransaction(content: string, expected: OfflineTransactionFormat): OfflineTransactionFile {
+  let file: Partial<OfflineTransactionFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  if (!file || (file.format !== UNSIGNED_TX_FORMAT && file.format !== SIGNED_TX_FORMAT)) {
+    throw new Error('Not an Octra offline transaction');
+  }
+  if (file.format !== expected) {
+    throw new Error(expected === UNSIGNED_TX_FORMAT
+      ? 'This transaction is already signed. Import it on the online wallet to broadcast it'
+      : 'This transaction is not signed yet. Sign it on the offline wallet first');
+  }
+  if (typeof file.version !== 'number' || file.version > OFFLINE_TX_VERSION) {
+    throw new Error('This file was created by a newer version of the wallet');
+  }
+
+  return {
+    format: file.format,
+    version: file.version,
+    createdAt: typeof file.createdAt === 'number' ? file.createdAt : Date.now(),
+    transaction: validateTransactionFields(file.transaction as Partial<Transaction>, expected === SIGNED_TX_FORMAT)
+  };
+}
+
+// Runs on the offline machine, with the same signing code as a normal send
+export async function signOfflineTransaction(file: OfflineTransactionFile, wallet: Wallet): Promise<OfflineTransactionFile> {
+  if (isWatchOnlyWallet(wallet)) {
+    throw new Error('This wallet has no private key to sign with');
+  }
+  if (wallet.address !== file.transaction.from) {
+    throw new Error('This transaction is from a different address than the selected wallet');
+  }
+
+  return {
+    format: SIGNED_TX_FORMAT,
+    version: OFFLINE_TX_VERSION,
+    createdAt: Date.now(),
+    transaction: await SessionKeyring.signTransaction(file.transaction)
+  };
+}
+
+// The signature must verify against the included key, and that key must own the sender address
+export async function verifySignedTransaction(transaction: Transaction): Promise<boolean> {
+  try {
+    if (!transaction.signature || !transaction.public_key) return false;
+
+    const publicKey = Buffer.from(transaction.public_key, 'base64');
+    const signature = Buffer.from(transaction.signature, 'base64');
+    if (publicKey.length !== nacl.sign.publicKeyLength || signature.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+    if (await createOctraAddress(publicKey) !== transaction.from) {
+      return false;
+    }
+
+    return nacl.sign.detached.verify(
+      new TextEncoder().encode(getTransactionSigningData(transaction)),
+      signature,
+      publicKey
+    );
+  } catch (error) {
+    console.error('Failed to verify signed transaction:', error);
+    return false;
+  }
+}
+
+export async function broadcastSignedTransaction(file: OfflineTransactionFile): Promise<{ success: boolean; hash?: string; error?: string }> {
+  const { transaction } = file;
+  if (!(await verifySignedTransaction(transaction))) {
+    return { success: false, error: 'Signature does not match the transaction or sender' };
+  }
+
+  const result = await sendTransaction(transaction);
+  if (result.success) {
+    console.log(`📡 Offline signing: broadcast nonce ${transaction.nonce} from ${transaction.from}`);
+    NonceManager.confirmBroadcast(transaction.from, transaction.nonce);
+  } else if (NonceManager.classifyNonceError(result.error)) {
+    // The nonce was never reserved here, so only refresh what the node reports
+    await NonceManager.resync(transaction.from);
+  }
+  return result;
+}
+
+export function serializeOfflineTransaction(file: OfflineTransactionFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export function downloadOfflineTransaction(file: OfflineTransactionFile): string {
+  const kind = file.format === SIGNED_TX_FORMAT ? 'signed' : 'unsigned';
+  const filename = `octra-${kind}-tx-${file.transaction.nonce}.json`;
+  const blob = new Blob([serializeOfflineTransaction(file)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return filename;
+}
@@ -1,5 +1,147 @@
 import { Buffer } from 'buffer';
+import { VaultHeader } from '../types/wallet';
 
+export const VAULT_VERSION = 2;
+export const DEFAULT_KDF_ITERATIONS = 600000;
+
+const VAULT_DATA_PREFIX = 'v2|';
+
+export function createVaultHeader(iterations: number = DEFAULT_KDF_ITERATIONS): VaultHeader {
+  return {
+    version: VAULT_VERSION,
+    kdf: 'PBKDF2-SHA256',
+    iterations,
+    salt: Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString('hex')
+  };
+}
+
+export function parseVaultHeader(raw: string | null): VaultHeader | null {
+  if (!raw) return null;
+
+  try {
+    const header = JSON.parse(raw);
+    if (
+      header &&
+      typeof header.version === 'number' &&
+      header.kdf === 'PBKDF2-SHA256' &&
+      Number.isInteger(header.iterations) && header.iterations > 0 &&
+      typeof header.salt === 'string' && /^[0-9a-f]+$/i.test(header.salt)
+    ) {
+      return header as VaultHeader;
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+}
+
+// A missing header means a legacy v1 vault; older headers or a cost below the
+// current default are re-keyed on the next successful unlock.
+export function vaultNeedsUpgrade(header: VaultHeader | null): boolean {
+  return !header || header.version < VAULT_VERSION || header.iterations < DEFAULT_KDF_ITERATIONS;
+}
+
+/**
+ * Derive the vault encryption key and password verifier from one PBKDF2 run.
+ * The first 32 bytes key AES-GCM, the last 32 bytes are stored as the verifier,
+ * so the stored hash never reveals the encryption key.
+ */
+export async function deriveVaultKey(password: string, header: VaultHeader): Promise<{ key: CryptoKey; verifier: string }> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveBits']
+  );
+
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: Buffer.from(header.salt, 'hex'),
+      iterations: header.iterations
+    },
+    baseKey,
+    512
+  ));
+
+  // Extractable so an unlocked vault key can be held in session storage
+  const key = await crypto.subtle.importKey(
+    'raw',
+    bits.slice(0, 32),
+    { name: 'AES-GCM' },
+    true,
+    ['encrypt', 'decrypt']
+  );
+
+  return {
+    key,
+    verifier: Buffer.from(bits.slice(32)).toString('hex')
+  };
+}
+
+export async function exportVaultKey(key: CryptoKey): Promise<string> {
+  return Buffer.from(await crypto.subtle.exportKey('raw', key)).toString('base64');
+}
+
+export async function importVaultKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    Buffer.from(rawKey, 'base64'),
+    { name: 'AES-GCM' },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function unlockVaultKey(password: string, header: VaultHeader, hashedPassword: string): Promise<CryptoKey | null> {
+  const { key, verifier } = await deriveVaultKey(password, header);
+
+  // Compare without short-circuiting on the first differing byte
+  let diff = verifier.length ^ hashedPassword.length;
+  for (let i = 0; i < verifier.length; i++) {
+    diff |= verifier.charCodeAt(i) ^ (hashedPassword.charCodeAt(i) || 0);
+  }
+  return diff === 0 ? key : null;
+}
+
+export function isVaultEncrypted(encryptedData: string): boolean {
+  return encryptedData.startsWith(VAULT_DATA_PREFIX);
+}
+
+export async function encryptWithVaultKey(data: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(data)
+  );
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(encrypted), iv.length);
+
+  return VAULT_DATA_PREFIX + Buffer.from(combined).toString('base64');
+}
+
+export async function decryptWithVaultKey(encryptedData: string, key: CryptoKey): Promise<string> {
+  if (!isVaultEncrypted(encryptedData)) {
+    throw new Error('Unsupported vault data format');
+  }
+
+  const combined = Buffer.from(encryptedData.slice(VAULT_DATA_PREFIX.length), 'base64');
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+// Legacy v1 vault (single SHA-256 of password + salt). Only used to verify and
+// decrypt vaults created before the versioned header, so they can be migrated.
 export async function hashPassword(password: string, salt?: string): Promise<{ hashedPassword: string; salt: string }> {
   const encoder = new TextEncoder();
   const saltBytes = salt ? Buffer.from(salt, 'hex') : crypto.getRandomValues(new Uint8Array(16));
@@ -23,36 +165,7 @@ export async function verifyPassword(password: string, hashedPassword: string, s
   return newHash === hashedPassword;
 }
 
-export function encryptWalletData(data: string, password: string): Promise<string> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const encoder = new TextEncoder();
-      const key = await crypto.subtle.importKey(
-        'raw',
-        await crypto.subtle.digest('SHA-256', encoder.encode(password)),
-        { name: 'AES-GCM' },
-        false,
-        ['encrypt']
-      );
-      
-      const iv = crypto.getRandomValues(new Uint8Array(12));
-      const encrypted = await crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv },
-        key,
-        encoder.encode(data)
-      );
-      
-      const combined = new Uint8Array(iv.length + encrypted.byteLength);
-      combined.set(iv);
-      combined.set(new Uint8Array(encrypted), iv.length);
-      
-      resolve(Buffer.from(combined).toString('base64'));
-    } catch (error) {
-      reject(error);
-    }
-  });
-}
-
+// Legacy v1 wallet data, keyed by SHA-256(password)
 export function decryptWalletData(encryptedData: string, password: string): Promise<string> {
   return new Promise(async (resolve, reject) => {
     try {
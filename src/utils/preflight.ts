@@ -0,0 +1,163 @@
+import { fetchBalance, fetchPendingTransactions, getPublicKey } from './api';
+import { NonceManager } from './nonceManager';
+import { AddressBookManager, describeTypo } from './addressBook';
+import { findPoisonedRecipients, describePoisoning } from './addressPoisoning';
+import { isValidOctraAddress } from './wallet';
+import { OctAmount, formatOct } from './octAmount';
+import { BalanceResponse } from '../types/wallet';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheck {
+  id: string;
+  label: string;
+  status: PreflightStatus;
+  detail: string;
+}
+
+export interface PreflightResult {
+  checks: PreflightCheck[];
+  // False when any check failed; warnings still let the user sign
+  canProceed: boolean;
+  checkedAt: number;
+}
+
+export interface TransferPreflightParams {
+  from: string;
+  to: string;
+  amount: OctAmount;
+  fee: OctAmount;
+}
+
+export interface ContractCallPreflightParams {
+  from: string;
+  contractAddress: string;
+  totalCost: OctAmount;
+  // Runs the same method and params through /contract/call-view
+  simulate: () => Promise<{ success: boolean; error?: string }>;
+}
+
+function toResult(checks: PreflightCheck[]): PreflightResult {
+  return {
+    checks,
+    canProceed: checks.every(check => check.status !== 'fail'),
+    checkedAt: Date.now()
+  };
+}
+
+function checkAddress(id: string, label: string, address: string, invalidStatus: PreflightStatus = 'fail'): PreflightCheck {
+  return isValidOctraAddress(address)
+    ? { id, label, status: 'pass', detail: 'Valid Octra address' }
+    : { id, label, status: invalidStatus, detail: 'Not a valid Octra address' };
+}
+
+async function checkFunds(account: Promise<BalanceResponse>, totalCost: OctAmount): Promise<PreflightCheck> {
+  const label = 'Balance covers amount and fee';
+  try {
+    const { balance: available } = await account;
+    if (available < totalCost) {
+      return { id: 'funds', label, status: 'fail', detail: `Need ${formatOct(totalCost)} OCT, have ${formatOct(available)} OCT` };
+    }
+    return { id: 'funds', label, status: 'pass', detail: `${formatOct(available - totalCost)} OCT left after sending` };
+  } catch (error) {
+    console.error('Preflight balance check failed:', error);
+    return { id: 'funds', label, status: 'warn', detail: 'Could not fetch the current balance' };
+  }
+}
+
+// Transactions already waiting in front of this one, and nonces we broadcast that the node has not shown yet
+async function checkNonceGap(from: string, account: Promise<BalanceResponse>): Promise<PreflightCheck> {
+  const label = 'Nonce';
+  try {
+    const [{ nonce: chainNonce }, pending] = await Promise.all([
+      account,
+      fetchPendingTransactions(from)
+    ]);
+    const queued = pending.filter(tx => tx.from.toLowerCase() === from.toLowerCase()).length;
+    const localNonce = NonceManager.getLastNonce(from);
+
+    if (localNonce !== null && localNonce > chainNonce) {
+      return {
+        id: 'nonce',
+        label,
+        status: 'warn',
+        detail: `${localNonce - chainNonce} recent transaction(s) are not visible on the node yet, this one will wait behind them`
+      };
+    }
+    if (queued > 0) {
+      return { id: 'nonce', label, status: 'warn', detail: `${queued} transaction(s) from this wallet are still pending` };
+    }
+    return { id: 'nonce', label, status: 'pass', detail: `Next nonce ${chainNonce + 1}, nothing pending` };
+  } catch (error) {
+    console.error('Preflight nonce check failed:', error);
+    return { id: 'nonce', label, status: 'warn', detail: 'Could not check pending transactions' };
+  }
+}
+
+async function checkRecipientPublicKey(to: string): Promise<PreflightCheck> {
+  const label = 'Recipient public key';
+  const publicKey = await getPublicKey(to);
+  return publicKey
+    ? { id: 'recipient-key', label, status: 'pass', detail: 'Recipient has an active account' }
+    : { id: 'recipient-key', label, status: 'warn', detail: 'Recipient has never sent a transaction. Double-check the address' };
+}
+
+async function checkRecipientTypo(to: string): Promise<PreflightCheck> {
+  const label = 'Recipient typo check';
+  const [typo] = await AddressBookManager.findTypos([to]);
+  return typo
+    ? { id: 'typo', label, status: 'warn', detail: `${describeTypo(typo)}. Make sure this is the address you meant` }
+    : { id: 'typo', label, status: 'pass', detail: 'Not a near miss of any saved or recent address' };
+}
+
+async function checkRecipientPoisoning(to: string): Promise<PreflightCheck> {
+  const label = 'Look-alike address check';
+  const [match] = await findPoisonedRecipients([to]);
+  return match
+    ? { id: 'poisoning', label, status: 'warn', detail: `${describePoisoning(match)}. Never copy recipients from your history` }
+    : { id: 'poisoning', label, status: 'pass', detail: 'Does not imitate an address you sent to before' };
+}
+
+/**
+ * Dry-run a plain transfer: everything the node would reject it for, plus
+ * warnings for things that make it likely to sit in staging.
+ */
+export async function preflightTransfer({ from, to, amount, fee }: TransferPreflightParams): Promise<PreflightResult> {
+  const addressCheck = checkAddress('recipient', 'Recipient address', to);
+  if (addressCheck.status === 'fail') {
+    return toResult([addressCheck]);
+  }
+
+  const account = fetchBalance(from);
+  const checks = await Promise.all([
+    checkFunds(account, amount + fee),
+    checkNonceGap(from, account),
+    checkRecipientPublicKey(to),
+    checkRecipientTypo(to),
+    checkRecipientPoisoning(to)
+  ]);
+
+  if (to.trim() === from) {
+    checks.push({ id: 'self', label: 'Recipient', status: 'warn', detail: 'You are sending to your own address' });
+  }
+
+  return toResult([addressCheck, ...checks]);
+}
+
+export async function preflightContractCall({ from, contractAddress, totalCost, simulate }: ContractCallPreflightParams): Promise<PreflightResult> {
+  // dApps may still pass legacy contract address formats, the simulation decides whether they work
+  const addressCheck = checkAddress('contract', 'Contract address', contractAddress, 'warn');
+
+  const account = fetchBalance(from);
+  const [fundsCheck, nonceCheck, simulation] = await Promise.all([
+    checkFunds(account, totalCost),
+    checkNonceGap(from, account),
+    simulate().catch(error => ({ success: false, error: error instanceof Error ? error.message : 'Simulation failed' }))
+  ]);
+
+  const simulationCheck: PreflightCheck = simulation.success
+    ? { id: 'simulation', label: 'Simulated call', status: 'pass', detail: 'Method ran without errors' }
+    : { id: 'simulation', label: 'Simulated call', status: 'fail', detail: simulation.error || 'Method would fail' };
+
+  return toResult([addressCheck, fundsCheck, nonceCheck, simulationCheck]);
+}
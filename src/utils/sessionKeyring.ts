@@ -0,0 +1,258 @@
+import { Buffer } from 'buffer';
+import { ExtensionStorageManager } from './extensionStorage';
+import { encryptWithVaultKey, exportVaultKey, importVaultKey } from './password';
+import { signMessage, signTypedData, deriveSharedSecretForClaim } from './crypto';
+import {
+  signTransaction,
+  fetchEncryptedBalance,
+  encryptBalance,
+  decryptBalance,
+  createPrivateTransfer,
+  getPendingPrivateTransfers,
+  claimPrivateTransfer
+} from './api';
+import { OctAmount } from './octAmount';
+import { isWatchOnlyWallet, deriveNextAccount } from './wallet';
+import {
+  Wallet,
+  EncryptedWalletEntry,
+  SignedMessage,
+  SignedTypedData,
+  TypedData,
+  Transaction,
+  EncryptedBalanceResponse,
+  PendingPrivateTransfer,
+  PrivateTransferResult,
+  ClaimResult
+} from '../types/wallet';
+
+const SESSION_WALLETS_KEY = 'sessionWallets';
+const SESSION_VAULT_KEY = 'sessionVaultKey';
+
+/**
+ * Holds decrypted wallets for the lifetime of an unlocked session.
+ *
+ * Keys live in chrome.storage.session (memory only, not readable by content
+ * scripts). The persistent `wallets` key only holds public wallet records while
+ * password protection is enabled, so storage on disk never contains plaintext keys.
+ *
+ * UI state only ever holds public records (see getPublicWallets). Anything that
+ * needs a key asks the keyring by address, which looks the key up at call time.
+ */
+export class SessionKeyring {
+  static toPublicWallet(wallet: Wallet): Wallet {
+    return { ...wallet, privateKey: '', mnemonic: undefined, hasMnemonic: !!(wallet.mnemonic || wallet.hasMnemonic) };
+  }
+
+  private static async isPasswordProtected(): Promise<boolean> {
+    return !!(await ExtensionStorageManager.get('walletPasswordHash'));
+  }
+
+  private static async saveWallets(wallets: Wallet[]): Promise<void> {
+    await ExtensionStorageManager.setSession(SESSION_WALLETS_KEY, JSON.stringify(wallets));
+
+    // Without a password there is no vault to fall back on, so wallets stay persistent as before
+    const persisted = (await this.isPasswordProtected())
+      ? wallets.map(wallet => this.toPublicWallet(wallet))
+      : wallets;
+    await ExtensionStorageManager.set('wallets', JSON.stringify(persisted));
+  }
+
+  static async open(wallets: Wallet[], vaultKey: CryptoKey | null): Promise<void> {
+    if (vaultKey) {
+      await ExtensionStorageManager.setSession(SESSION_VAULT_KEY, await exportVaultKey(vaultKey));
+    } else {
+      await ExtensionStorageManager.removeSession(SESSION_VAULT_KEY);
+    }
+
+    await this.saveWallets(wallets);
+    console.log(`🔑 SessionKeyring: Opened session with ${wallets.length} wallets`);
+  }
+
+  static async close(): Promise<void> {
+    await Promise.all([
+      ExtensionStorageManager.removeSession(SESSION_WALLETS_KEY),
+      ExtensionStorageManager.removeSession(SESSION_VAULT_KEY)
+    ]);
+    console.log('🔑 SessionKeyring: Session closed');
+  }
+
+  static async isOpen(): Promise<boolean> {
+    return !!(await ExtensionStorageManager.getSession(SESSION_WALLETS_KEY));
+  }
+
+  static async getWallets(): Promise<Wallet[]> {
+    const sessionWallets = await ExtensionStorageManager.getSession(SESSION_WALLETS_KEY);
+    if (sessionWallets) {
+      try {
+        return JSON.parse(sessionWallets);
+      } catch (error) {
+        console.error('❌ SessionKeyring: Failed to parse session wallets:', error);
+        return [];
+      }
+    }
+
+    // Installs without a password keep full wallets in persistent storage
+    if (!(await this.isPasswordProtected())) {
+      try {
+        return JSON.parse(await ExtensionStorageManager.get('wallets') || '[]');
+      } catch (error) {
+        console.error('❌ SessionKeyring: Failed to parse stored wallets:', error);
+      }
+    }
+    return [];
+  }
+
+  static async getPublicWallets(): Promise<Wallet[]> {
+    return (await this.getWallets()).map(wallet => this.toPublicWallet(wallet));
+  }
+
+  // Full wallet including keys, for the export screen only
+  static async revealWallet(address: string): Promise<Wallet> {
+    const wallet = (await this.getWallets()).find(w => w.address === address);
+    if (!wallet) {
+      throw new Error('Wallet is locked or not available');
+    }
+    return wallet;
+  }
+
+  // Returns public records, like getPublicWallets
+  static async addWallet(wallet: Wallet): Promise<Wallet[]> {
+    const wallets = await this.getWallets();
+    if (wallets.some(w => w.address === wallet.address)) {
+      return wallets.map(w => this.toPublicWallet(w));
+    }
+
+    // Vault first: a wallet that cannot be sealed must not appear in the session either
+    if (await this.isPasswordProtected()) {
+      await this.addToVault(wallet);
+    }
+
+    const updatedWallets = [...wallets, wallet];
+    await this.saveWallets(updatedWallets);
+
+    return updatedWallets.map(w => this.toPublicWallet(w));
+  }
+
+  // Returns public records, like getPublicWallets
+  static async removeWallet(address: string): Promise<Wallet[]> {
+    const updatedWallets = (await this.getWallets()).filter(w => w.address !== address);
+    await this.saveWallets(updatedWallets);
+
+    const encryptedWallets: EncryptedWalletEntry[] = JSON.parse(await ExtensionStorageManager.get('encryptedWallets') || '[]');
+    await ExtensionStorageManager.set(
+      'encryptedWallets',
+      JSON.stringify(encryptedWallets.filter(w => w.address !== address))
+    );
+
+    return updatedWallets.map(wallet => this.toPublicWallet(wallet));
+  }
+
+  private static async addToVault(wallet: Wallet): Promise<void> {
+    const encryptedWallets: EncryptedWalletEntry[] = JSON.parse(await ExtensionStorageManager.get('encryptedWallets') || '[]');
+    if (encryptedWallets.some(w => w.address === wallet.address)) {
+      return;
+    }
+
+    // Legacy vaults get their key on the next unlock. Until then there is nothing
+    // to seal the wallet with, and it must never reach storage in plaintext
+    const rawKey = await ExtensionStorageManager.getSession(SESSION_VAULT_KEY);
+    if (!rawKey) {
+      throw new Error('Unlock your wallet again before adding new wallets');
+    }
+
+    const entry: EncryptedWalletEntry = {
+      address: wallet.address,
+      encryptedData: await encryptWithVaultKey(JSON.stringify(wallet), await importVaultKey(rawKey)),
+      createdAt: Date.now()
+    };
+
+    await ExtensionStorageManager.set('encryptedWallets', JSON.stringify([...encryptedWallets, entry]));
+  }
+
+  private static async getSigningWallet(address: string): Promise<Wallet & { publicKey: string }> {
+    const wallet = (await this.getWallets()).find(w => w.address === address);
+    if (isWatchOnlyWallet(wallet)) {
+      throw new Error('Watch-only wallets cannot sign');
+    }
+    if (!wallet || !wallet.privateKey || !wallet.publicKey) {
+      throw new Error('Wallet is locked or not available');
+    }
+    return wallet as Wallet & { publicKey: string };
+  }
+
+  static async signMessage(address: string, message: string): Promise<SignedMessage> {
+    const wallet = await this.getSigningWallet(address);
+
+    return {
+      message,
+      signature: signMessage(message, wallet.privateKey, wallet.publicKey),
+      publicKey: Buffer.from(wallet.publicKey, 'hex').toString('base64'),
+      address: wallet.address
+    };
+  }
+
+  static async signTypedData(address: string, typedData: TypedData): Promise<SignedTypedData> {
+    const wallet = await this.getSigningWallet(address);
+    const { hash, signature } = await signTypedData(typedData, wallet.privateKey, wallet.publicKey);
+
+    return {
+      typedData,
+      hash,
+      signature,
+      publicKey: Buffer.from(wallet.publicKey, 'hex').toString('base64'),
+      address: wallet.address
+    };
+  }
+
+  static async signTransaction(transaction: Transaction): Promise<Transaction> {
+    const wallet = await this.getSigningWallet(transaction.from);
+    return signTransaction(transaction, wallet.privateKey, wallet.publicKey);
+  }
+
+  // Offers only accounts from the same seed, so it needs the mnemonics the UI never sees
+  static async deriveNextAccount(address: string): Promise<Wallet> {
+    const wallets = await this.getWallets();
+    const baseWallet = wallets.find(w => w.address === address);
+    if (!baseWallet) {
+      throw new Error('Wallet is locked or not available');
+    }
+    return deriveNextAccount(baseWallet, wallets);
+  }
+
+  // The node's encrypted balance and private transfer endpoints take the key itself
+  static async fetchEncryptedBalance(address: string): Promise<EncryptedBalanceResponse | null> {
+    const wallet = await this.getSigningWallet(address);
+    return fetchEncryptedBalance(wallet.address, wallet.privateKey);
+  }
+
+  static async encryptBalance(address: string, amount: OctAmount): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+    const wallet = await this.getSigningWallet(address);
+    return encryptBalance(wallet.address, amount, wallet.privateKey);
+  }
+
+  static async decryptBalance(address: string, amount: OctAmount): Promise<{ success: boolean; tx_hash?: string; error?: string }> {
+    const wallet = await this.getSigningWallet(address);
+    return decryptBalance(wallet.address, amount, wallet.privateKey);
+  }
+
+  static async createPrivateTransfer(fromAddress: string, toAddress: string, amount: OctAmount): Promise<PrivateTransferResult> {
+    const wallet = await this.getSigningWallet(fromAddress);
+    return createPrivateTransfer(wallet.address, toAddress, amount, wallet.privateKey);
+  }
+
+  static async getPendingPrivateTransfers(address: string): Promise<PendingPrivateTransfer[]> {
+    const wallet = await this.getSigningWallet(address);
+    return getPendingPrivateTransfers(wallet.address, wallet.privateKey);
+  }
+
+  static async claimPrivateTransfer(address: string, transferId: string): Promise<ClaimResult> {
+    const wallet = await this.getSigningWallet(address);
+    return claimPrivateTransfer(wallet.address, wallet.privateKey, transferId);
+  }
+
+  static async deriveSharedSecretForClaim(address: string, ephemeralKey: string): Promise<Uint8Array> {
+    const wallet = await this.getSigningWallet(address);
+    return deriveSharedSecretForClaim(wallet.privateKey, ephemeralKey);
+  }
+}
@@ -0,0 +1,220 @@
+import * as bip39 from 'bip39';
+import { Buffer } from 'buffer';
+import * as nacl from 'tweetnacl';
+
+// Shamir secret sharing of a recovery phrase over GF(256).
+//
+// The mnemonic's entropy is split byte-wise with a random polynomial of degree
+// threshold - 1 per byte. Each share is encoded with the BIP39 English word list:
+//   version | set id (2) | threshold | index | length | share bytes | checksum (4)
+// The checksum is the start of SHA-512 over everything before it, so mistyped
+// words are caught before the shares are combined.
+
+const SHARE_VERSION = 1;
+const SHARE_HEADER_LENGTH = 6;
+const SHARE_CHECKSUM_LENGTH = 4;
+export const MAX_SHARES = 16;
+
+export interface MnemonicShare {
+  id: number;
+  threshold: number;
+  index: number;
+  words: string;
+}
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+function splitSecret(secret: Uint8Array, threshold: number, totalShares: number): Uint8Array[] {
+  const shares = Array.from({ length: totalShares }, () => new Uint8Array(secret.length));
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    const coefficients = crypto.getRandomValues(new Uint8Array(threshold));
+    coefficients[0] = secret[byte];
+
+    for (let share = 0; share < totalShares; share++) {
+      // Horner evaluation at x = share index (1-based, x = 0 is the secret)
+      const x = share + 1;
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, x) ^ coefficients[c];
+      }
+      shares[share][byte] = y;
+    }
+  }
+
+  return shares;
+}
+
+function combineSecret(points: { x: number; y: Uint8Array }[]): Uint8Array {
+  const secret = new Uint8Array(points[0].y.length);
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (let i = 0; i < points.length; i++) {
+      // Lagrange basis polynomial evaluated at x = 0
+      let basis = 1;
+      for (let j = 0; j < points.length; j++) {
+        if (i === j) continue;
+        basis = gfMul(basis, gfDiv(points[j].x, points[j].x ^ points[i].x));
+      }
+      value ^= gfMul(points[i].y[byte], basis);
+    }
+    secret[byte] = value;
+  }
+
+  return secret;
+}
+
+function checksum(data: Uint8Array): Uint8Array {
+  return nacl.hash(data).slice(0, SHARE_CHECKSUM_LENGTH);
+}
+
+function bytesToWords(bytes: Uint8Array): string {
+  const wordlist = bip39.wordlists.english;
+  const bits = Array.from(bytes, b => b.toString(2).padStart(8, '0')).join('');
+  const padded = bits.padEnd(Math.ceil(bits.length / 11) * 11, '0');
+  const words: string[] = [];
+  for (let i = 0; i < padded.length; i += 11) {
+    words.push(wordlist[parseInt(padded.slice(i, i + 11), 2)]);
+  }
+  return words.join(' ');
+}
+
+function wordsToBytes(words: string[]): Uint8Array {
+  const wordlist = bip39.wordlists.english;
+  const bits = words.map(word => {
+    const index = wordlist.indexOf(word);
+    if (index === -1) {
+      throw new Error(`Unknown word in share: "${word}"`);
+    }
+    return index.toString(2).padStart(11, '0');
+  }).join('');
+
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  return bytes;
+}
+
+export function splitMnemonic(mnemonic: string, threshold: number, totalShares: number): MnemonicShare[] {
+  if (!bip39.validateMnemonic(mnemonic)) {
+    throw new Error('Invalid mnemonic phrase');
+  }
+  if (!Number.isInteger(threshold) || !Number.isInteger(totalShares) || threshold < 2 || threshold > totalShares) {
+    throw new Error('Threshold must be between 2 and the number of shares');
+  }
+  if (totalShares > MAX_SHARES) {
+    throw new Error(`At most ${MAX_SHARES} shares are supported`);
+  }
+
+  const entropy = new Uint8Array(Buffer.from(bip39.mnemonicToEntropy(mnemonic), 'hex'));
+  const idBytes = crypto.getRandomValues(new Uint8Array(2));
+  const id = (idBytes[0] << 8) | idBytes[1];
+
+  return splitSecret(entropy, threshold, totalShares).map((y, i) => {
+    const body = new Uint8Array([SHARE_VERSION, idBytes[0], idBytes[1], threshold, i + 1, y.length, ...y]);
+    return {
+      id,
+      threshold,
+      index: i + 1,
+      words: bytesToWords(new Uint8Array([...body, ...checksum(body)]))
+    };
+  });
+}
+
+export function parseMnemonicShare(words: string): MnemonicShare & { value: Uint8Array } {
+  const normalized = words.trim().toLowerCase().split(/\s+/);
+  const bytes = wordsToBytes(normalized);
+
+  if (bytes.length < SHARE_HEADER_LENGTH || bytes[0] !== SHARE_VERSION) {
+    throw new Error('Not a recovery phrase share');
+  }
+
+  const length = bytes[5];
+  const end = SHARE_HEADER_LENGTH + length;
+  const body = bytes.slice(0, end);
+  const expected = checksum(body);
+  const actual = bytes.slice(end, end + SHARE_CHECKSUM_LENGTH);
+
+  if (actual.length !== SHARE_CHECKSUM_LENGTH || expected.some((b, i) => b !== actual[i])) {
+    throw new Error('Share checksum mismatch. Check the words for typos');
+  }
+
+  return {
+    id: (bytes[1] << 8) | bytes[2],
+    threshold: bytes[3],
+    index: bytes[4],
+    words: normalized.join(' '),
+    value: bytes.slice(SHARE_HEADER_LENGTH, end)
+  };
+}
+
+export function combineMnemonicShares(shareWords: string[]): string {
+  const shares = shareWords.filter(words => words.trim()).map(parseMnemonicShare);
+
+  if (shares.length === 0) {
+    throw new Error('No shares provided');
+  }
+
+  const { id, threshold } = shares[0];
+  if (shares.some(share => share.id !== id)) {
+    throw new Error('Shares belong to different recovery phrases');
+  }
+
+  const unique = shares.filter((share, i) => shares.findIndex(s => s.index === share.index) === i);
+  if (unique.length < threshold) {
+    throw new Error(`${threshold} different shares are required, got ${unique.length}`);
+  }
+
+  const points = unique.slice(0, threshold).map(share => ({ x: share.index, y: share.value }));
+  const entropy = combineSecret(points);
+  return bip39.entropyToMnemonic(Buffer.from(entropy).toString('hex'));
+}
+
+export function formatShareFile(share: MnemonicShare, totalShares: number, address: string): string {
+  return `Octra Wallet Recovery Share
+===========================
+
+Wallet: ${address}
+Share ${share.index} of ${totalShares} (any ${share.threshold} shares restore the wallet)
+Set ID: ${share.id.toString(16).padStart(4, '0')}
+
+${share.words}
+
+Store each share in a different place. A single share reveals nothing about the recovery phrase.
+`;
+}
+
+// Pull share phrases out of pasted text or share files: every line made only of
+// lowercase words that is long enough to be a share
+export function extractShareLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().toLowerCase())
+    .filter(line => /^[a-z]+( +[a-z]+){18,}$/.test(line));
+}
@@ -0,0 +1,170 @@
+import { buildUnsignedTransaction, sendTransaction, fetchPendingTransactionByHash, fetchTransactionDetails } from './api';
+import { NonceManager } from './nonceManager';
+import { SessionKeyring } from './sessionKeyring';
+import { ExtensionStorageManager } from './extensionStorage';
+import { isWatchOnlyWallet } from './wallet';
+import { ZERO_OCT, parseOct } from './octAmount';
+import { Wallet, PendingTransaction } from '../types/wallet';
+
+const REPLACEMENTS_STORAGE_KEY = 'txReplacements';
+// Each replacement at least doubles the fee of the last attempt at the same nonce
+const OU_BUMP_FACTOR = 2;
+// A fresh broadcast may take a moment to show up in staging, so don't call it dropped before this
+const STAGING_GRACE_MS = 60000;
+
+export type ReplacementKind = 'original' | 'speed-up' | 'cancel';
+export type ReplacementStatus = 'pending' | 'confirmed' | 'replaced' | 'dropped';
+
+export interface ReplacementAttempt {
+  hash: string;
+  kind: ReplacementKind;
+  ou: string;
+  submittedAt: number;
+  status: ReplacementStatus;
+}
+
+// Every transaction broadcast for one sender nonce, in the order they were sent
+export interface ReplacementGroup {
+  address: string;
+  nonce: number;
+  attempts: ReplacementAttempt[];
+  resolved: boolean;
+}
+
+async function loadGroups(): Promise<ReplacementGroup[]> {
+  try {
+    const groups = JSON.parse((await ExtensionStorageManager.get(REPLACEMENTS_STORAGE_KEY)) || '[]');
+    return Array.isArray(groups) ? groups : [];
+  } catch (error) {
+    console.error('Failed to load transaction replacements:', error);
+    return [];
+  }
+}
+
+async function saveGroups(groups: ReplacementGroup[]): Promise<void> {
+  await ExtensionStorageManager.set(REPLACEMENTS_STORAGE_KEY, JSON.stringify(groups));
+}
+
+export async function getReplacementGroups(address: string): Promise<ReplacementGroup[]> {
+  return (await loadGroups()).filter(group => group.address === address);
+}
+
+export function findReplacementGroup(groups: ReplacementGroup[], hash: string): ReplacementGroup | undefined {
+  return groups.find(group => group.attempts.some(attempt => attempt.hash === hash));
+}
+
+export function isPrivateTransferMessage(message: string | null | undefined): boolean {
+  return message === 'PRIVATE_TRANSFER' || message === '505249564154455f5452414e53464552';
+}
+
+function bumpOu(staged: PendingTransaction, group: ReplacementGroup | undefined): string {
+  const fees = [Number(staged.ou) || 1, ...(group?.attempts.map(attempt => Number(attempt.ou) || 1) ?? [])];
+  return String(Math.ceil(Math.max(...fees) * OU_BUMP_FACTOR));
+}
+
+async function replacePendingTransaction(wallet: Wallet, hash: string, kind: 'speed-up' | 'cancel'): Promise<ReplacementAttempt> {
+  if (isWatchOnlyWallet(wallet)) {
+    throw new Error('This wallet cannot sign transactions');
+  }
+
+  const staged = await fetchPendingTransactionByHash(hash);
+  if (!staged) {
+    throw new Error('Transaction is no longer pending');
+  }
+  if (staged.from.toLowerCase() !== wallet.address.toLowerCase()) {
+    throw new Error('Only transactions sent from this wallet can be replaced');
+  }
+  if (kind === 'speed-up' && isPrivateTransferMessage(staged.message)) {
+    throw new Error('Private transfers cannot be sped up, cancel them instead');
+  }
+
+  const groups = await loadGroups();
+  let group = groups.find(g => g.address === wallet.address && g.nonce === staged.nonce);
+  const ou = bumpOu(staged, group);
+
+  // Same nonce, higher fee: speed-up re-signs the original transfer, cancel sends nothing to ourselves
+  const transaction = await SessionKeyring.signTransaction(kind === 'speed-up'
+    ? buildUnsignedTransaction(wallet.address, staged.to, parseOct(staged.amount), staged.nonce, staged.message || undefined, ou)
+    : buildUnsignedTransaction(wallet.address, wallet.address, ZERO_OCT, staged.nonce, undefined, ou));
+
+  const result = await sendTransaction(transaction);
+  if (!result.success || !result.hash) {
+    throw new Error(result.error || 'Replacement transaction was rejected');
+  }
+
+  NonceManager.confirmBroadcast(wallet.address, staged.nonce);
+
+  if (!group) {
+    group = {
+      address: wallet.address,
+      nonce: staged.nonce,
+      attempts: [{ hash: staged.hash, kind: 'original', ou: staged.ou, submittedAt: staged.timestamp * 1000, status: 'pending' }],
+      resolved: false
+    };
+    groups.push(group);
+  }
+
+  const attempt: ReplacementAttempt = { hash: result.hash, kind, ou, submittedAt: Date.now(), status: 'pending' };
+  group.attempts.push(attempt);
+  group.resolved = false;
+  await saveGroups(groups);
+
+  console.log(`🔁 Replacement: ${kind} for nonce ${staged.nonce} broadcast as ${result.hash} (ou ${ou})`);
+  return attempt;
+}
+
+export function speedUpTransaction(wallet: Wallet, hash: string): Promise<ReplacementAttempt> {
+  return replacePendingTransaction(wallet, hash, 'speed-up');
+}
+
+export function cancelTransaction(wallet: Wallet, hash: string): Promise<ReplacementAttempt> {
+  return replacePendingTransaction(wallet, hash, 'cancel');
+}
+
+/**
+ * Work out which attempt of each unresolved group made it into a block.
+ * Hashes still in staging stay pending; once one attempt confirms the others are
+ * marked replaced, and a group with nothing left in staging and nothing confirmed is dropped.
+ */
+export async function refreshReplacementStatus(
+  address: string,
+  transactions: { hash: string; status: string }[]
+): Promise<ReplacementGroup[]> {
+  const groups = await loadGroups();
+  const statusByHash = new Map(transactions.map(tx => [tx.hash, tx.status]));
+
+  for (const group of groups) {
+    if (group.address !== address || group.resolved) continue;
+
+    let confirmed = group.attempts.find(attempt => statusByHash.get(attempt.hash) === 'confirmed');
+    const stillPending = group.attempts.some(attempt => statusByHash.get(attempt.hash) === 'pending');
+
+    if (!confirmed && !stillPending) {
+      // Not in the recent history or staging: ask the node about each hash directly
+      for (const attempt of group.attempts) {
+        try {
+          await fetchTransactionDetails(attempt.hash);
+          confirmed = attempt;
+          break;
+        } catch {
+          // Not confirmed under this hash
+        }
+      }
+    }
+
+    if (confirmed) {
+      group.attempts.forEach(attempt => {
+        attempt.status = attempt === confirmed ? 'confirmed' : 'replaced';
+      });
+      group.resolved = true;
+    } else if (!stillPending && Date.now() - Math.max(...group.attempts.map(a => a.submittedAt)) > STAGING_GRACE_MS) {
+      group.attempts.forEach(attempt => {
+        attempt.status = 'dropped';
+      });
+      group.resolved = true;
+    }
+  }
+
+  await saveGroups(groups);
+  return groups.filter(group => group.address === address);
+}
@@ -1,5 +1,6 @@
 import { Wallet } from '../types/wallet';
-import { generateMnemonic, validateMnemonic, generateWalletFromMnemonic, bufferToBase64, bufferToHex, createOctraAddress } from './crypto';
+import { generateMnemonic, validateMnemonic, generateWalletFromMnemonic, bufferToBase64, bufferToHex, createOctraAddress, getAccountPath, getAccountIndex, validateOctraAddress } from './crypto';
+import { getAddressInfo } from './api';
 import * as nacl from 'tweetnacl';
 
 export async function generateWallet(): Promise<Wallet> {
@@ -7,22 +8,24 @@ export async function generateWallet(): Promise<Wallet> {
   let attempts = 0;
   const maxAttempts = 100; // Prevent infinite loop
   
+  // Hashes with leading zero bits encode shorter than the 47 characters addresses must have
   do {
     const mnemonic = generateMnemonic();
     walletData = await generateWalletFromMnemonic(mnemonic);
     attempts++;
     
     if (attempts >= maxAttempts) {
-      throw new Error('Failed to generate wallet with 47-character address after maximum attempts');
+      throw new Error('Failed to generate wallet with a valid address after maximum attempts');
     }
-  } while (walletData.address.length !== 47);
+  } while (!isValidOctraAddress(walletData.address));
   
   return {
     address: walletData.address,
     privateKey: walletData.privateKey,
     mnemonic: walletData.mnemonic,
     publicKey: walletData.publicKey,
-    type: 'generated'
+    type: 'generated',
+    derivationPath: walletData.derivationPath
   };
 }
 
@@ -77,7 +80,117 @@ export async function importWalletFromMnemonic(mnemonic: string): Promise<Wallet
     privateKey: walletData.privateKey,
     mnemonic: walletData.mnemonic,
     publicKey: walletData.publicKey,
-    type: 'imported-mnemonic'
+    type: 'imported-mnemonic',
+    derivationPath: walletData.derivationPath
+  };
+}
+
+export async function deriveAccountFromMnemonic(
+  mnemonic: string,
+  index: number,
+  type: Wallet['type'] = 'imported-mnemonic'
+): Promise<Wallet> {
+  const walletData = await generateWalletFromMnemonic(mnemonic, getAccountPath(index));
+
+  return {
+    address: walletData.address,
+    privateKey: walletData.privateKey,
+    mnemonic: walletData.mnemonic,
+    publicKey: walletData.publicKey,
+    type,
+    derivationPath: walletData.derivationPath
+  };
+}
+
+// Derive the next unused account for the seed of `baseWallet`. Indices whose
+// address does not validate (too short) are skipped, same as wallet generation.
+export async function deriveNextAccount(baseWallet: Wallet, existingWallets: Wallet[]): Promise<Wallet> {
+  if (!baseWallet.mnemonic) {
+    throw new Error('This wallet has no seed phrase to derive accounts from');
+  }
+
+  const usedIndices = existingWallets
+    .filter(w => w.mnemonic === baseWallet.mnemonic)
+    .map(w => getAccountIndex(w.derivationPath))
+    .filter((index): index is number => index !== null);
+
+  let index = usedIndices.length > 0 ? Math.max(...usedIndices) + 1 : 1;
+  const maxIndex = index + 100;
+
+  for (; index < maxIndex; index++) {
+    const account = await deriveAccountFromMnemonic(baseWallet.mnemonic, index, baseWallet.type);
+    if (isValidOctraAddress(account.address) && !existingWallets.some(w => w.address === account.address)) {
+      return account;
+    }
+  }
+
+  throw new Error('Failed to derive a new account');
+}
+
+export const ACCOUNT_DISCOVERY_GAP_LIMIT = 5;
+const ACCOUNT_DISCOVERY_MAX_INDEX = 100;
+
+async function isAccountUsed(address: string): Promise<boolean> {
+  const info = await getAddressInfo(address);
+  if (!info) return false;
+
+  return (
+    parseFloat(info.balance || '0') > 0 ||
+    (info.nonce || 0) > 0 ||
+    (info.transaction_count || 0) > 0 ||
+    (Array.isArray(info.recent_transactions) && info.recent_transactions.length > 0)
+  );
+}
+
+/**
+ * Scan derived accounts (index 1 onwards; index 0 is the imported wallet itself)
+ * and return every account with a balance or history. Stops after `gapLimit`
+ * consecutive unused accounts.
+ */
+export async function discoverAccounts(
+  mnemonic: string,
+  type: Wallet['type'] = 'imported-mnemonic',
+  gapLimit: number = ACCOUNT_DISCOVERY_GAP_LIMIT,
+  onProgress?: (index: number, found: number) => void
+): Promise<Wallet[]> {
+  const discovered: Wallet[] = [];
+  let gap = 0;
+
+  for (let index = 1; index <= ACCOUNT_DISCOVERY_MAX_INDEX && gap < gapLimit; index++) {
+    const account = await deriveAccountFromMnemonic(mnemonic, index, type);
+    onProgress?.(index, discovered.length);
+
+    if (await isAccountUsed(account.address)) {
+      discovered.push(account);
+      gap = 0;
+    } else {
+      gap++;
+    }
+  }
+
+  return discovered;
+}
+
+export function isValidOctraAddress(address: string): boolean {
+  return validateOctraAddress(address).isValid;
+}
+
+export function isWatchOnlyWallet(wallet: Wallet | null | undefined): boolean {
+  return wallet?.type === 'watch-only';
+}
+
+// Watch-only wallets track an address the extension never holds keys for
+export function createWatchOnlyWallet(address: string): Wallet {
+  const cleanAddress = address.trim();
+
+  if (!isValidOctraAddress(cleanAddress)) {
+    throw new Error('Invalid Octra address');
+  }
+
+  return {
+    address: cleanAddress,
+    privateKey: '',
+    type: 'watch-only'
   };
 }
 
@@ -1,6 +1,7 @@
 import { Wallet } from '../types/wallet';
-import { encryptWalletData } from './password';
+import { encryptWithVaultKey } from './password';
 import { ExtensionStorageManager } from './extensionStorage';
+import { WalletManager } from './walletManager';
 
 export class WalletEncryptionManager {
   /**
@@ -9,12 +10,13 @@ export class WalletEncryptionManager {
   static async encryptAllWallets(wallets: Wallet[], password: string): Promise<void> {
     console.log(`🔐 WalletEncryptionManager: Encrypting ${wallets.length} wallets...`);
     
+    const key = await WalletManager.getVaultKey(password);
     const encryptedWallets = [];
     
     for (const wallet of wallets) {
       try {
         const walletData = JSON.stringify(wallet);
-        const encryptedWalletData = await encryptWalletData(walletData, password);
+        const encryptedWalletData = await encryptWithVaultKey(walletData, key);
         
         encryptedWallets.push({
           address: wallet.address,
@@ -51,8 +53,9 @@ export class WalletEncryptionManager {
     }
     
     // Encrypt the new wallet
+    const key = await WalletManager.getVaultKey(password);
     const walletData = JSON.stringify(wallet);
-    const encryptedWalletData = await encryptWalletData(walletData, password);
+    const encryptedWalletData = await encryptWithVaultKey(walletData, key);
     
     const newEncryptedWallet = {
       address: wallet.address,
@@ -1,32 +1,141 @@
 import { ExtensionStorageManager } from './extensionStorage';
-import { verifyPassword, decryptWalletData } from './password';
-import { Wallet } from '../types/wallet';
+import {
+  verifyPassword,
+  decryptWalletData,
+  parseVaultHeader,
+  unlockVaultKey,
+  vaultNeedsUpgrade,
+  createVaultHeader,
+  deriveVaultKey,
+  isVaultEncrypted,
+  encryptWithVaultKey,
+  decryptWithVaultKey
+} from './password';
+import { Wallet, VaultHeader, EncryptedWalletEntry } from '../types/wallet';
+import { SessionKeyring } from './sessionKeyring';
+import { isWatchOnlyWallet } from './wallet';
 
 export class WalletManager {
-  static async unlockWallets(password: string): Promise<Wallet[]> {
+  /**
+   * Verify the password against the stored vault. Returns the vault key for
+   * versioned vaults, or null for legacy vaults that have not been migrated yet.
+   */
+  private static async authenticate(password: string): Promise<{ header: VaultHeader | null; key: CryptoKey | null }> {
+    const hashedPassword = await ExtensionStorageManager.get('walletPasswordHash');
+    if (!hashedPassword) {
+      throw new Error('No password set');
+    }
+
+    const header = parseVaultHeader(await ExtensionStorageManager.get('walletVaultHeader'));
+
+    if (header) {
+      const key = await unlockVaultKey(password, header, hashedPassword);
+      if (!key) {
+        throw new Error('Invalid password');
+      }
+      return { header, key };
+    }
+
+    const salt = await ExtensionStorageManager.get('walletPasswordSalt');
+    if (!salt) {
+      throw new Error('No password set');
+    }
+
+    if (!(await verifyPassword(password, hashedPassword, salt))) {
+      throw new Error('Invalid password');
+    }
+    return { header: null, key: null };
+  }
+
+  static async verifyPassword(password: string): Promise<boolean> {
     try {
-      console.log('🔓 WalletManager: Starting unlock process...');
-      
-      // Get password hash and salt
-      const hashedPassword = await ExtensionStorageManager.get('walletPasswordHash');
-      const salt = await ExtensionStorageManager.get('walletPasswordSalt');
-      
-      if (!hashedPassword || !salt) {
-        throw new Error('No password set');
+      await this.authenticate(password);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid password') {
+        return false;
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the key of the current vault. Legacy vaults are migrated on unlock,
+   * so a vault without a key here has not been unlocked since upgrading.
+   */
+  static async getVaultKey(password: string): Promise<CryptoKey> {
+    const { key } = await this.authenticate(password);
+    if (!key) {
+      throw new Error('Wallet vault must be unlocked once before it can be updated');
+    }
+    return key;
+  }
+
+  /**
+   * Re-encrypt all wallets with the current vault format. Entries that could not
+   * be decrypted are kept untouched rather than dropped.
+   */
+  private static async migrateVault(
+    password: string,
+    vault: { header: VaultHeader | null; key: CryptoKey | null },
+    wallets: Wallet[],
+    retainedEntries: EncryptedWalletEntry[],
+    createdAtByAddress: Map<string, number>
+  ): Promise<CryptoKey> {
+    let header = vault.header;
+    let key = vault.key;
+    let verifier: string | null = null;
+
+    if (!header || !key || vaultNeedsUpgrade(header)) {
+      header = createVaultHeader();
+      ({ key, verifier } = await deriveVaultKey(password, header));
+    }
+
+    const sealedWallets: EncryptedWalletEntry[] = [];
+    for (const wallet of wallets) {
+      sealedWallets.push({
+        address: wallet.address,
+        encryptedData: await encryptWithVaultKey(JSON.stringify(wallet), key),
+        createdAt: createdAtByAddress.get(wallet.address) || Date.now()
+      });
+    }
+
+    const updatedEncryptedWallets = JSON.stringify([...sealedWallets, ...retainedEntries]);
 
-      // Verify password
-      const isValid = await verifyPassword(password, hashedPassword, salt);
+    if (verifier) {
+      // One storage write for header, verifier and wallets, so an interrupted
+      // migration never leaves wallets sealed under a key the header cannot derive
+      await ExtensionStorageManager.setMany({
+        encryptedWallets: updatedEncryptedWallets,
+        walletVaultHeader: JSON.stringify(header),
+        walletPasswordHash: verifier
+      });
+      await ExtensionStorageManager.remove('walletPasswordSalt');
+      console.log(`🔐 WalletManager: Vault migrated to v${header.version} (${header.kdf}, ${header.iterations} iterations)`);
+    } else {
+      await ExtensionStorageManager.set('encryptedWallets', updatedEncryptedWallets);
+    }
+
+    console.log(`🔐 WalletManager: Re-encrypted ${sealedWallets.length} wallets`);
+    return key;
+  }
+
+  static async unlockWallets(password: string): Promise<Wallet[]> {
+    try {
+      console.log('🔓 WalletManager: Starting unlock process...');
       
-      if (!isValid) {
-        throw new Error('Invalid password');
-      }
+      // Verify password against the vault header (or the legacy hash and salt)
+      const vault = await this.authenticate(password);
 
       console.log('✅ WalletManager: Password verified successfully');
 
       // Get encrypted wallets
       const encryptedWallets = await ExtensionStorageManager.get('encryptedWallets');
       const decryptedWallets: Wallet[] = [];
+      const retainedEntries: EncryptedWalletEntry[] = [];
+      const createdAtByAddress = new Map<string, number>();
+      let needsReseal = vaultNeedsUpgrade(vault.header);
+      let sessionKey = vault.key;
 
       if (encryptedWallets) {
         try {
@@ -61,10 +170,18 @@ export class WalletManager {
                 }
                 
                 decryptedWallets.push(wallet);
+                createdAtByAddress.set(wallet.address, encryptedWallet.createdAt);
+                needsReseal = true;
                 console.log(`✅ WalletManager: Successfully processed unencrypted wallet ${wallet.address.slice(0, 8)}...`);
               } else {
-                // This is a properly encrypted wallet
-                const decryptedData = await decryptWalletData(encryptedWallet.encryptedData, password);
+                // This is a properly encrypted wallet, either in the versioned or legacy format
+                let decryptedData: string;
+                if (vault.key && isVaultEncrypted(encryptedWallet.encryptedData)) {
+                  decryptedData = await decryptWithVaultKey(encryptedWallet.encryptedData, vault.key);
+                } else {
+                  decryptedData = await decryptWalletData(encryptedWallet.encryptedData, password);
+                  needsReseal = true;
+                }
                 const wallet = JSON.parse(decryptedData);
                 
                 // CRITICAL FIX: Add type field for backward compatibility if missing
@@ -77,10 +194,12 @@ export class WalletManager {
                 }
                 
                 decryptedWallets.push(wallet);
+                createdAtByAddress.set(wallet.address, encryptedWallet.createdAt);
                 console.log(`✅ WalletManager: Successfully decrypted wallet ${wallet.address.slice(0, 8)}...`);
               }
             } catch (error) {
               console.error('❌ WalletManager: Failed to decrypt wallet:', encryptedWallet.address, error);
+              retainedEntries.push(encryptedWallet);
               // Continue with other wallets instead of failing completely
             }
           }
@@ -97,7 +216,7 @@ export class WalletManager {
             const parsedWallets = JSON.parse(existingWallets);
             if (Array.isArray(parsedWallets) && parsedWallets.length > 0) {
               // CRITICAL FIX: Add type field for backward compatibility if missing
-              const walletsWithType = parsedWallets.map(wallet => {
+              const walletsWithType = parsedWallets.filter((wallet: Wallet) => !!wallet.privateKey || isWatchOnlyWallet(wallet)).map((wallet: Wallet) => {
                 if (!wallet.type) {
                   if (wallet.mnemonic) {
                     wallet.type = 'generated'; // Default to generated if has mnemonic but no type
@@ -119,6 +238,15 @@ export class WalletManager {
 
       console.log(`🎯 WalletManager: Total wallets after decryption: ${decryptedWallets.length}`);
 
+      // Transparently move legacy or under-cost vaults to the current format
+      if (needsReseal && decryptedWallets.length > 0) {
+        try {
+          sessionKey = await this.migrateVault(password, vault, decryptedWallets, retainedEntries, createdAtByAddress);
+        } catch (error) {
+          console.error('❌ WalletManager: Vault migration failed, keeping existing vault:', error);
+        }
+      }
+
       if (decryptedWallets.length === 0) {
         console.warn('⚠️ WalletManager: No wallets found after unlock process - checking fallback storage');
         
@@ -126,7 +254,8 @@ export class WalletManager {
         try {
           const fallbackWallets = localStorage.getItem('wallets');
           if (fallbackWallets) {
-            const parsedFallback = JSON.parse(fallbackWallets);
+            // Public wallet records (no private key) cannot be recovered this way
+            const parsedFallback = JSON.parse(fallbackWallets).filter((w: Wallet) => !!w.privateKey || isWatchOnlyWallet(w));
             if (Array.isArray(parsedFallback) && parsedFallback.length > 0) {
               decryptedWallets.push(...parsedFallback);
               console.log(`🔄 WalletManager: Recovered ${parsedFallback.length} wallets from fallback storage`);
@@ -137,21 +266,9 @@ export class WalletManager {
         }
       }
 
-      // CRITICAL FIX: Update storage atomically - ensure all wallets are preserved
-      if (decryptedWallets.length > 0) {
-        await Promise.all([
-          ExtensionStorageManager.set('wallets', JSON.stringify(decryptedWallets)),
-          ExtensionStorageManager.set('isWalletLocked', 'false')
-        ]);
-        
-        // Also update localStorage for immediate consistency
-        localStorage.setItem('wallets', JSON.stringify(decryptedWallets));
-        localStorage.setItem('isWalletLocked', 'false');
-      } else {
-        // Only update lock status if no wallets found
-        await ExtensionStorageManager.set('isWalletLocked', 'false');
-        localStorage.setItem('isWalletLocked', 'false');
-      }
+      // Decrypted wallets only go to the session keyring; persistent storage gets public records
+      await SessionKeyring.open(decryptedWallets, sessionKey);
+      await ExtensionStorageManager.set('isWalletLocked', 'false');
       
       console.log('💾 WalletManager: Wallet data saved to storage successfully');
       
@@ -180,7 +297,8 @@ export class WalletManager {
       }
 
       console.log(`🎉 WalletManager: Unlock completed successfully with ${decryptedWallets.length} wallets`);
-      return decryptedWallets;
+      // Callers keep these in UI state, so they get public records; keys stay in the keyring
+      return decryptedWallets.map(wallet => SessionKeyring.toPublicWallet(wallet));
     } catch (error) {
       console.error('❌ WalletManager unlock error:', error);
       throw error;
@@ -191,50 +309,8 @@ export class WalletManager {
     try {
       console.log('🔒 WalletManager: Starting lock process...');
       
-      // CRITICAL FIX: Before locking, ensure all current wallets are encrypted
-      const currentWalletsData = await ExtensionStorageManager.get('wallets');
-      if (currentWalletsData) {
-        try {
-          const currentWallets: Wallet[] = JSON.parse(currentWalletsData);
-          console.log(`📦 WalletManager: Found ${currentWallets.length} wallets to encrypt before lock`);
-          
-          // Check if password protection is enabled
-          const hasPassword = await ExtensionStorageManager.get('walletPasswordHash');
-          if (hasPassword && currentWallets.length > 0) {
-            console.log('🔐 WalletManager: Password protection enabled, ensuring all wallets are encrypted...');
-            
-            // Get existing encrypted wallets
-            const existingEncryptedWallets = JSON.parse(await ExtensionStorageManager.get('encryptedWallets') || '[]');
-            const encryptedAddresses = existingEncryptedWallets.map((w: any) => w.address);
-            
-            // Find wallets that are not yet encrypted
-            const unencryptedWallets = currentWallets.filter(wallet => 
-              !encryptedAddresses.includes(wallet.address)
-            );
-            
-            if (unencryptedWallets.length > 0) {
-              console.log(`⚠️ WalletManager: Found ${unencryptedWallets.length} unencrypted wallets that need to be encrypted before lock`);
-              
-              // We need to get the password to encrypt these wallets
-              // For now, we'll store them as needing encryption and they'll be handled on next unlock
-              const walletsNeedingEncryption = unencryptedWallets.map(wallet => ({
-                address: wallet.address,
-                encryptedData: JSON.stringify(wallet), // Store as JSON for now
-                createdAt: Date.now(),
-                needsEncryption: true // Flag to indicate this needs proper encryption
-              }));
-              
-              const updatedEncryptedWallets = [...existingEncryptedWallets, ...walletsNeedingEncryption];
-              await ExtensionStorageManager.set('encryptedWallets', JSON.stringify(updatedEncryptedWallets));
-              
-              console.log(`📦 WalletManager: Added ${unencryptedWallets.length} wallets to encrypted storage (marked for proper encryption)`);
-            }
-          }
-        } catch (error) {
-          console.error('❌ WalletManager: Failed to encrypt wallets before lock:', error);
-          // Continue with lock process even if encryption fails
-        }
-      }
+      // Wallets are written to the vault when added, so locking only drops the session
+      await SessionKeyring.close();
       
       // Clear wallet data but preserve activeWalletId for unlock restoration
       await Promise.all([
@@ -277,8 +353,9 @@ export class WalletManager {
       }
       
       // If password is set and wallet is not explicitly unlocked, show unlock screen
-      // OR if password is set but no decrypted wallets are available
-      return isLocked !== 'false' || !hasWallets;
+      // OR if password is set but no decrypted wallets are available (e.g. the
+      // session keyring was cleared when the browser restarted)
+      return isLocked !== 'false' || !hasWallets || !(await SessionKeyring.isOpen());
     } catch (error) {
       console.error('Failed to check unlock status:', error);
       return false;
@@ -297,8 +374,8 @@ export class WalletManager {
         return false;
       }
       
-      // If password exists, locked unless explicitly unlocked
-      return isLocked !== 'false';
+      // If password exists, locked unless explicitly unlocked with an open session
+      return isLocked !== 'false' || !(await SessionKeyring.isOpen());
     } catch (error) {
       console.error('Failed to check lock status:', error);
       return false;
@@ -0,0 +1,9 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'extensionFiles/**/*.test.ts']
+  }
+}));